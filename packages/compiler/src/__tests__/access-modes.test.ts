@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL, generateDeviceFunction } from '../wgsl-generator';
+import { collectDependencies } from '../dependencies';
+import { reflectShader } from '../reflection';
+import { CompileError } from '../diagnostics';
+
+describe('Buffer access modes', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    function kernel(code: string) {
+        return project.createSourceFile('/Access.tsx', code, { overwrite: true }).getFunctionOrThrow('main');
+    }
+
+    function catchError(fn: () => unknown): CompileError {
+        try {
+            fn();
+        } catch (error) {
+            if (error instanceof CompileError) return error;
+            throw error;
+        }
+        throw new Error('Expected a CompileError');
+    }
+
+    it('should bind buffers the kernel only reads as read-only storage', () => {
+        const func = kernel(`
+            interface Particle {
+                position: vec2f;
+                velocity: vec2f;
+            }
+
+            /** @device */
+            function clear(values: SharedArray<f32>) {
+                values[0] = 0.0;
+            }
+
+            /** @kernel */
+            function main(input: SharedArray<f32>, particles: SharedArray<Particle>, counts: SharedArray<u32>, scratch: SharedArray<f32>, sums: SharedArray<f32>, hits: SharedArray<Atomic<u32>>) {
+                const i = global_invocation_id.x;
+                particles[i].velocity.x = input[i] + f32(counts[i]);
+                sums[i] += input[i];
+                clear(scratch);
+                let n = atomicLoad(hits[0]);
+            }
+        `);
+        const wgsl = generateWGSL(func);
+        expect(wgsl).toContain('var<storage, read> input : array<f32>;');
+        expect(wgsl).toContain('var<storage, read_write> particles : array<Particle>;');
+        expect(wgsl).toContain('var<storage, read> counts : array<u32>;');
+        expect(wgsl).toContain('var<storage, read_write> scratch : array<f32>;');
+        expect(wgsl).toContain('var<storage, read_write> sums : array<f32>;');
+        expect(wgsl).toContain('var<storage, read_write> hits : array<atomic<u32>>;');
+
+        const { bindings } = reflectShader(func, collectDependencies(func));
+        expect(bindings.map(b => [b.name, b.buffer, b.access])).toEqual([
+            ['input', 'read-only-storage', 'read'],
+            ['particles', 'storage', 'read_write'],
+            ['counts', 'read-only-storage', 'read'],
+            ['scratch', 'storage', 'read_write'],
+            ['sums', 'storage', 'read_write'],
+            ['hits', 'storage', 'read_write'],
+        ]);
+    });
+
+    it('should bind buffers that device functions only read as read-only storage', () => {
+        const func = kernel(`
+            /** @device */
+            function at(values: SharedArray<f32>, i: u32): f32 {
+                return values[i];
+            }
+
+            /** @device */
+            function sum(values: SharedArray<f32>, n: u32): f32 {
+                let total = 0.0;
+                for (let i = 0u; i < n; i++) {
+                    total += at(values, i);
+                }
+                return total;
+            }
+
+            /** @kernel */
+            function main(input: SharedArray<f32>, output: SharedArray<f32>) {
+                output[global_invocation_id.x] = sum(input, 4);
+            }
+        `);
+        const wgsl = generateWGSL(func);
+        expect(wgsl).toContain('var<storage, read> input : array<f32>;');
+        expect(wgsl).toContain('output[global_invocation_id.x] = sum(&input, 4u);');
+        expect(generateDeviceFunction(func.getSourceFile().getFunctionOrThrow('sum'))).toContain('fn sum(values : ptr<storage, array<f32>, read>, n : u32) -> f32 {');
+        expect(generateDeviceFunction(func.getSourceFile().getFunctionOrThrow('at'))).toContain('fn at(values : ptr<storage, array<f32>, read>, i : u32) -> f32 {');
+        expect(reflectShader(func, collectDependencies(func)).bindings.map(b => b.access)).toEqual(['read', 'read_write']);
+    });
+
+    it('should bind buffers that device functions write, through nested calls, as read_write storage', () => {
+        const func = kernel(`
+            /** @device */
+            function bump(values: SharedArray<Atomic<u32>>, i: u32) {
+                atomicAdd(values[i], 1u);
+            }
+
+            /** @device */
+            function clear(values: SharedArray<f32>, i: u32) {
+                values[i] = 0.0;
+            }
+
+            /** @device */
+            function reset(values: SharedArray<f32>, counts: SharedArray<Atomic<u32>>) {
+                clear(values, 0);
+                bump(counts, 0);
+            }
+
+            /** @device */
+            function first(values: SharedArray<f32>): f32 {
+                return values[0];
+            }
+
+            /** @kernel */
+            function main(scratch: SharedArray<f32>, counts: SharedArray<Atomic<u32>>, sums: SharedArray<f32>) {
+                reset(scratch, counts);
+                sums[0] = first(sums) + 1.0;
+            }
+        `);
+        const wgsl = generateWGSL(func);
+        expect(wgsl).toContain('var<storage, read_write> scratch : array<f32>;');
+        expect(wgsl).toContain('var<storage, read_write> counts : array<atomic<u32>>;');
+        const file = func.getSourceFile();
+        expect(generateDeviceFunction(file.getFunctionOrThrow('reset'))).toContain('fn reset(values : ptr<storage, array<f32>, read_write>, counts : ptr<storage, array<atomic<u32>>, read_write>)');
+        expect(generateDeviceFunction(file.getFunctionOrThrow('clear'))).toContain('fn clear(values : ptr<storage, array<f32>, read_write>, i : u32)');
+        // A pointer has the access mode of the buffer passed, which the kernel writes itself
+        expect(generateDeviceFunction(file.getFunctionOrThrow('first'))).toContain('fn first(values : ptr<storage, array<f32>, read_write>) -> f32 {');
+    });
+
+    it('should count increments of elements as writes', () => {
+        const wgsl = generateWGSL(kernel(`
+            /** @kernel */
+            function main(counts: SharedArray<u32>) {
+                counts[global_invocation_id.x]++;
+            }
+        `));
+        expect(wgsl).toContain('var<storage, read_write> counts : array<u32>;');
+    });
+
+    it('should honor @readonly and @writeonly', () => {
+        const wgsl = generateWGSL(kernel(`
+            /**
+             * @kernel
+             * @readonly input
+             * @writeonly output
+             */
+            function main(input: SharedArray<f32>, output: SharedArray<f32>) {
+                const x = input[global_invocation_id.x];
+            }
+        `));
+        expect(wgsl).toContain('var<storage, read> input : array<f32>;');
+        expect(wgsl).toContain('var<storage, read_write> output : array<f32>;');
+    });
+
+    it('should reject @readonly buffers the kernel writes', () => {
+        const error = catchError(() => generateWGSL(kernel(`
+            /**
+             * @kernel
+             * @readonly data
+             */
+            function main(data: SharedArray<f32>) {
+                data[global_invocation_id.x] = 1.0;
+            }
+        `)));
+        expect(error.diagnostic.code).toBe('AS2007');
+        expect(error.message).toContain("Parameter 'data' is marked @readonly, but 'main' writes it");
+    });
+
+    it('should reject access tags naming unknown parameters', () => {
+        const error = catchError(() => generateWGSL(kernel(`
+            /**
+             * @kernel
+             * @writeonly result
+             */
+            function main(data: SharedArray<f32>) {
+                data[global_invocation_id.x] = 1.0;
+            }
+        `)));
+        expect(error.message).toContain("@writeonly names 'result', which is not a parameter of 'main'");
+    });
+});
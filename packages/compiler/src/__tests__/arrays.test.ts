@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL, generateDeviceFunction } from '../wgsl-generator';
+import { CompileError } from '../diagnostics';
+
+describe('Arrays', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    function sourceFile(code: string) {
+        return project.createSourceFile('/Arrays.tsx', code, { overwrite: true });
+    }
+
+    function catchError(fn: () => unknown): CompileError {
+        try {
+            fn();
+        } catch (error) {
+            if (error instanceof CompileError) return error;
+            throw error;
+        }
+        throw new Error('Expected a CompileError');
+    }
+
+    it('should lower local array literals to fixed-size arrays', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                const i = global_invocation_id.x;
+                const weights = [0.2, 0.5, 0.3];
+                const ids = [i, i + 1];
+                let taps: FixedArray<f32, 2> = [1, 2];
+                out[i] = weights[i % 3] + f32(ids[1]) + taps[0];
+            }
+        `).getFunctionOrThrow('main'));
+        expect(wgsl).toContain('const weights = array<f32, 3>(0.2, 0.5, 0.3);');
+        expect(wgsl).toContain('var ids = array<u32, 2>(i, i + 1u);');
+        expect(wgsl).toContain('var taps: array<f32, 2> = array<f32, 2>(1.0, 2.0);');
+    });
+
+    it('should allocate arrays with new and use their length', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                let acc = new Array<f32>(16);
+                const counts = new Uint32Array(4);
+                for (let k = 0; k < acc.length; k++) {
+                    acc[k] = f32(k);
+                }
+                out[0] = acc[15] + f32(counts.length) + f32(out.length);
+            }
+        `).getFunctionOrThrow('main'));
+        expect(wgsl).toContain('var acc = array<f32, 16>();');
+        expect(wgsl).toContain('var counts = array<u32, 4>();');
+        expect(wgsl).toContain('for (var k = 0; k < 16; k++)');
+        expect(wgsl).toContain('f32(4) + f32(arrayLength(&out))');
+    });
+
+    it('should pass fixed-size arrays to device functions by value', () => {
+        const wgsl = generateDeviceFunction(sourceFile(`
+            /** @device */
+            function total(values: FixedArray<f32, 4>, data: SharedArray<f32>): f32 {
+                return values[0] + f32(data.length);
+            }
+        `).getFunctionOrThrow('total'));
+        expect(wgsl).toContain('fn total(values : array<f32, 4>, data : ptr<storage, array<f32>, read>) -> f32 {');
+        expect(wgsl).toContain('arrayLength(data)');
+    });
+
+    it('should emit module-level arrays as lookup tables', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            const KERNEL = [1, 2, 1];
+            const DIRECTIONS = [vec2f(1.0, 0.0), vec2f(0.0, 1.0)];
+            const UNUSED = [4, 5];
+
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                const i = global_invocation_id.x;
+                out[i] = f32(KERNEL[i % 3]) * DIRECTIONS[i % 2].x;
+            }
+        `).getFunctionOrThrow('main'));
+        expect(wgsl).toContain('const KERNEL = array<i32, 3>(1, 2, 1);');
+        expect(wgsl).toContain('const DIRECTIONS = array<vec2<f32>, 2>(vec2f(1.0, 0.0), vec2f(0.0, 1.0));');
+        expect(wgsl).not.toContain('UNUSED');
+    });
+
+    it('should report arrays without an element type or with the wrong length', () => {
+        const empty = catchError(() => generateWGSL(sourceFile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                const values = [];
+            }
+        `).getFunctionOrThrow('main')));
+        expect(empty.diagnostic.code).toBe('AS2004');
+
+        const length = catchError(() => generateWGSL(sourceFile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                const values: FixedArray<f32, 4> = [1.0, 2.0];
+            }
+        `).getFunctionOrThrow('main')));
+        expect(length.diagnostic.message).toBe('Array literal has 2 elements, but array<f32, 4> expects 4');
+
+        const dynamic = catchError(() => generateWGSL(sourceFile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                const values = new Array<f32>(out.length);
+            }
+        `).getFunctionOrThrow('main')));
+        expect(dynamic.diagnostic.code).toBe('AS1001');
+    });
+});
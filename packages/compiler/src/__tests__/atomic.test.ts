@@ -21,7 +21,7 @@ describe("Atomic Support", () => {
         const wgsl = generateWGSL(func);
 
         expect(wgsl).toContain("@group(0) @binding(0) var<storage, read_write> data : array<atomic<u32>>;");
-        expect(wgsl).toContain("atomicAdd(&data[0], 1)");
+        expect(wgsl).toContain("atomicAdd(&data[0], 1u)");
     });
 
     it("should map Atomic<i32> to atomic<i32>", () => {
@@ -58,7 +58,7 @@ describe("Atomic Support", () => {
         const func = sourceFile.getFunction("atomicKernel")!;
         const wgsl = generateWGSL(func);
 
-        expect(wgsl).toContain("atomicStore(&data[0], 10)");
+        expect(wgsl).toContain("atomicStore(&data[0], 10u)");
         expect(wgsl).toContain("let x = atomicLoad(&data[0])");
     });
 });
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { transformHost } from '../host-transformer';
+
+describe('Dead code elimination', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    const code = `
+const PI: f32 = 3.14159;
+const TAU: f32 = PI * 2.0;
+const UNUSED: f32 = 1.0;
+
+interface Particle {
+    position: vec3f;
+    velocity: vec3f;
+}
+
+interface Debug {
+    value: f32;
+}
+
+/** @device */
+function square(x: f32): f32 {
+    return x * x;
+}
+
+/** @device */
+function energy(p: Particle): f32 {
+    return 0.5 * square(length(p.velocity)) * TAU;
+}
+
+/** @device */
+function inspect(d: Debug): f32 {
+    return d.value;
+}
+
+/** @kernel */
+function measure(particles: SharedArray<Particle>, out: SharedArray<f32>) {
+    const i = global_invocation_id.x;
+    out[i] = energy(particles[i]);
+}
+
+/** @kernel */
+function clear(out: SharedArray<f32>) {
+    out[global_invocation_id.x] = 0.0;
+}
+`;
+
+    function wgslOf(result: string, name: string): string {
+        return JSON.parse(result.match(new RegExp(`let ${name}_wgsl = (.*);`))![1]);
+    }
+
+    it('should only emit the declarations reachable from each kernel', () => {
+        const sourceFile = project.createSourceFile('/Energy.tsx', code, { overwrite: true });
+        transformHost(sourceFile);
+        const result = sourceFile.getFullText();
+
+        const measure = wgslOf(result, 'measure');
+        expect(measure).toContain('fn energy(p : Particle) -> f32 {');
+        expect(measure).toContain('fn square(x : f32) -> f32 {');
+        expect(measure).toContain('struct Particle {');
+        expect(measure).toContain('const TAU: f32 = PI * 2.0;');
+        expect(measure).not.toContain('inspect');
+        expect(measure).not.toContain('struct Debug');
+        expect(measure).not.toContain('UNUSED');
+
+        const clear = wgslOf(result, 'clear');
+        expect(clear).not.toMatch(/fn (square|energy|inspect)/);
+        expect(clear).not.toContain('struct ');
+        expect(clear).not.toContain('const ');
+    });
+
+    it('should emit dependencies before the declarations that use them', () => {
+        const sourceFile = project.createSourceFile('/Energy.tsx', code, { overwrite: true });
+        transformHost(sourceFile);
+        const measure = wgslOf(sourceFile.getFullText(), 'measure');
+
+        expect(measure.indexOf('fn square')).toBeLessThan(measure.indexOf('fn energy'));
+        expect(measure.indexOf('const PI')).toBeLessThan(measure.indexOf('const TAU'));
+        expect(measure.indexOf('fn energy')).toBeLessThan(measure.indexOf('fn measure'));
+    });
+});
@@ -33,7 +33,8 @@ describe('Host Transformer - Device Function Removal', () => {
         const result = transform(code);
 
         // 1. Check if device function is REMOVED from JS output
-        expect(result).not.toContain('function update(p: Particle): Particle');
+        // (its source line is still quoted by the embedded source map)
+        expect(result).not.toMatch(/^\s*function update\(p: Particle\): Particle/m);
 
         // 2. Check if struct definition is PRESENT in WGSL
         const wgslVarMatch = result.match(/let compute_wgsl = (.*);/);
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+import { transformHost } from '../host-transformer';
+import { CompileError, DiagnosticBag, codeFrame, fileError, formatDiagnostic } from '../diagnostics';
+
+describe('Diagnostics', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    function catchError(fn: () => unknown): CompileError {
+        try {
+            fn();
+        } catch (error) {
+            if (error instanceof CompileError) return error;
+            throw error;
+        }
+        throw new Error('Expected a CompileError');
+    }
+
+    it('should report unsupported syntax as an error with its location', () => {
+        const sourceFile = project.createSourceFile('test.ts', `
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                const f = () => 1;
+            }
+        `, { overwrite: true });
+        const { diagnostic } = catchError(() => generateWGSL(sourceFile.getFunctionOrThrow('main')));
+        expect(diagnostic.code).toBe('AS1001');
+        expect(diagnostic.severity).toBe('error');
+        expect(diagnostic.file).toBe('/test.ts');
+        expect(diagnostic.line).toBe(4);
+        expect(diagnostic.column).toBe(27);
+        expect(diagnostic.message).toContain('ArrowFunction');
+    });
+
+    it('should report unknown types instead of defaulting to f32', () => {
+        const sourceFile = project.createSourceFile('test.ts', `
+            /** @kernel */
+            function main(out: SharedArray<f64>) {}
+        `, { overwrite: true });
+        const { diagnostic } = catchError(() => generateWGSL(sourceFile.getFunctionOrThrow('main')));
+        expect(diagnostic.code).toBe('AS2003');
+        expect(diagnostic.message).toBe("Unknown type 'f64'");
+        expect(diagnostic.line).toBe(3);
+        expect(diagnostic.column).toBe(32);
+    });
+
+    it('should report a missing struct definition', () => {
+        const sourceFile = project.createSourceFile('test.ts', `
+            /** @kernel */
+            function main(params: Params) {}
+        `, { overwrite: true });
+        const { diagnostic } = catchError(() => generateWGSL(sourceFile.getFunctionOrThrow('main')));
+        expect(diagnostic.code).toBe('AS2003');
+        expect(diagnostic.message).toContain("struct 'Params'");
+    });
+
+    it('should collect the errors of every shader function in the bag', () => {
+        const sourceFile = project.createSourceFile('test.ts', `
+            /** @kernel */
+            function first(out: SharedArray<f64>) {}
+
+            /** @kernel */
+            function second(out: SharedArray<f32>) {
+                out[0] = true + 1.0;
+            }
+
+            function host() {
+                first<80>(data);
+            }
+        `, { overwrite: true });
+        const diagnostics = new DiagnosticBag();
+        expect(() => transformHost(sourceFile, diagnostics)).toThrow(CompileError);
+        expect(diagnostics.errors.map(d => d.code).sort()).toEqual(['AS2001', 'AS2003']);
+        // Locations refer to the source as written, before the runtime import is added
+        expect(diagnostics.errors.find(d => d.code === 'AS2003')?.line).toBe(3);
+        expect(diagnostics.diagnostics.find(d => d.severity === 'warning')?.code).toBe('AS3001');
+    });
+
+    it('should warn about kernels binding more storage buffers than every device supports', () => {
+        // Arrays of different types, which are not folded
+        const types = ['f32', 'i32', 'u32', 'vec2f', 'vec3f', 'vec4f', 'vec2i', 'vec3i', 'vec4i'];
+        const params = types.map((type, i) => `field${i}: SharedArray<${type}>`).join(', ');
+        const sourceFile = project.createSourceFile('test.ts', `
+            /** @kernel */
+            function simulate(${params}, dt: f32) {
+                field0[global_invocation_id.x] = f32(field1[global_invocation_id.x]) * dt;
+            }
+        `, { overwrite: true });
+        const diagnostics = new DiagnosticBag();
+        transformHost(sourceFile, diagnostics);
+        expect(diagnostics.hasErrors()).toBe(false);
+        expect(diagnostics.diagnostics).toHaveLength(1);
+        expect(diagnostics.diagnostics[0]).toMatchObject({ severity: 'warning', code: 'AS2008', line: 3, column: 22 });
+        expect(diagnostics.diagnostics[0].message).toBe(
+            "Kernel 'simulate' binds 9 storage buffers after folding the arrays of one type that it only indexes, but only 8 are guaranteed (maxStorageBuffersPerShaderStage): it fails on devices without a higher limit, so pack arrays into a struct array to bind fewer");
+    });
+
+    it('should render a code frame underlining the span', () => {
+        const frame = codeFrame('let a = 1;\nlet b = foo;\nlet c = 3;', 2, 9, 3);
+        expect(frame).toBe([
+            '  1 | let a = 1;',
+            '> 2 | let b = foo;',
+            '    |         ^^^',
+            '  3 | let c = 3;',
+        ].join('\n'));
+    });
+
+    it('should format diagnostics with the file, location and code', () => {
+        const text = formatDiagnostic({
+            severity: 'error',
+            code: 'AS2003',
+            message: "Unknown type 'f64'",
+            file: '/src/Demo.tsx',
+            line: 12,
+            column: 5,
+            frame: '> 12 | x',
+        });
+        expect(text).toBe("/src/Demo.tsx:12:5 - error AS2003: Unknown type 'f64'\n\n> 12 | x\n");
+    });
+
+    it('should report failures of whole files as errors without a code frame', () => {
+        const diagnostics = new DiagnosticBag();
+        diagnostics.add(fileError('/src/Demo.tsx', 'AS3002', 'Transformation failed: out of memory'));
+        expect(diagnostics.hasErrors()).toBe(true);
+        expect(formatDiagnostic(diagnostics.errors[0])).toBe('/src/Demo.tsx:1:1 - error AS3002: Transformation failed: out of memory');
+    });
+});
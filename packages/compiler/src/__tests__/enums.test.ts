@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+import { CompileError } from '../diagnostics';
+
+describe('Enums and const objects', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    project.createSourceFile('/node_modules/@accelscript/runtime/index.d.ts', `
+        export declare enum PrimitiveType {
+            Sphere = 0,
+            Box = 1,
+            Plane = 2
+        }
+    `);
+
+    function sourceFile(code: string) {
+        return project.createSourceFile('/Enums.tsx', code, { overwrite: true });
+    }
+
+    function catchError(fn: () => unknown): CompileError {
+        try {
+            fn();
+        } catch (error) {
+            if (error instanceof CompileError) return error;
+            throw error;
+        }
+        throw new Error('Expected a CompileError');
+    }
+
+    it('should lower numeric enums to constants and use them in switch statements', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            enum Material { Diffuse, Metal, Glass = 4 }
+
+            interface Hit {
+                material: Material;
+                t: f32;
+            }
+
+            /** @kernel */
+            function shade(hits: SharedArray<Hit>, out: SharedArray<f32>) {
+                const i = global_invocation_id.x;
+                let m: Material = hits[i].material;
+                switch (m) {
+                    case Material.Metal:
+                        out[i] = 1.0;
+                        break;
+                    default:
+                        out[i] = 0.0;
+                }
+            }
+        `).getFunctionOrThrow('shade'));
+        expect(wgsl).toContain('const Material_Diffuse: u32 = 0u;');
+        expect(wgsl).toContain('const Material_Metal: u32 = 1u;');
+        expect(wgsl).toContain('const Material_Glass: u32 = 4u;');
+        expect(wgsl).toContain('material : u32,');
+        expect(wgsl).toContain('var m: u32 = hits[i].material;');
+        expect(wgsl).toContain('case Material_Metal:');
+        expect(wgsl).not.toContain('struct Material');
+    });
+
+    it('should lower as-const objects with numeric values', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            const Limits = { MaxSteps: 64, MaxBounces: 4 } as const;
+            const Tolerance = { Hit: 0.001, Miss: 1 } as const;
+            const Offsets = { Left: -1, Right: 1 } as const;
+
+            /** @kernel */
+            function march(out: SharedArray<f32>) {
+                const i = global_invocation_id.x;
+                if (i < Limits.MaxSteps) {
+                    out[i] = Tolerance.Hit * f32(Offsets.Left);
+                }
+            }
+        `).getFunctionOrThrow('march'));
+        expect(wgsl).toContain('const Limits_MaxSteps: u32 = 64u;');
+        expect(wgsl).toContain('const Tolerance_Hit: f32 = 0.001;');
+        expect(wgsl).toContain('const Tolerance_Miss: f32 = 1.0;');
+        expect(wgsl).toContain('const Offsets_Left: i32 = -1;');
+        expect(wgsl).toContain('const Offsets_Right: i32 = 1;');
+        expect(wgsl).toContain('if (i < Limits_MaxSteps)');
+        expect(wgsl).toContain('out[i] = Tolerance_Hit * f32(Offsets_Left);');
+        expect(wgsl).not.toMatch(/const Limits\b/);
+    });
+
+    it('should share enums declared by imported modules', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            import { PrimitiveType } from "@accelscript/runtime";
+
+            /** @kernel */
+            function count(types: SharedArray<u32>, out: SharedArray<u32>) {
+                const i = global_invocation_id.x;
+                if (types[i] == PrimitiveType.Box) {
+                    out[i] = 1;
+                }
+            }
+        `).getFunctionOrThrow('count'));
+        expect(wgsl).toContain('const PrimitiveType_Sphere: u32 = 0u;');
+        expect(wgsl).toContain('const PrimitiveType_Plane: u32 = 2u;');
+        expect(wgsl).toContain('if (types[i] == PrimitiveType_Box)');
+    });
+
+    it('should reject enums with string members', () => {
+        const error = catchError(() => generateWGSL(sourceFile(`
+            enum Mode { Fast = "fast" }
+
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                if (Mode.Fast) {
+                    out[0] = 1.0;
+                }
+            }
+        `).getFunctionOrThrow('main')));
+        expect(error.message).toContain("Enum member 'Mode.Fast' is not a number");
+    });
+});
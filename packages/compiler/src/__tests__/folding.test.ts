@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+import { transformHost } from '../host-transformer';
+import { collectDependencies } from '../dependencies';
+import { reflectShader } from '../reflection';
+import { DiagnosticBag } from '../diagnostics';
+
+describe('Storage array folding', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    const code = `
+/** @device */
+function first(data: SharedArray<f32>, k: i32): f32 {
+    return data[k];
+}
+
+/** @kernel */
+function simulate(px: SharedArray<f32>, py: SharedArray<f32>, pz: SharedArray<f32>,
+                  vx: SharedArray<f32>, vy: SharedArray<f32>, vz: SharedArray<f32>, mass: SharedArray<f32>, charge: SharedArray<f32>,
+                  ids: SharedArray<u32>, total: SharedArray<f32>, dt: f32, k: i32) {
+    const i = global_invocation_id.x;
+    if (i >= px.length) return;
+    px[i] = px[i] + vx[i] * dt;
+    py[i] += vy[k] * dt / mass[i];
+    pz[i] = vz[i + 1] * charge[ids[i]] + first(total, k);
+}
+`;
+
+    function kernel() {
+        return project.createSourceFile('/Simulate.tsx', code, { overwrite: true }).getFunctionOrThrow('simulate');
+    }
+
+    it('should fold the arrays of one type and access mode that the kernel only indexes', () => {
+        const wgsl = generateWGSL(kernel());
+        expect(wgsl).toContain('@group(0) @binding(0) var<storage, read_write> simulate_folded0 : array<f32>;');
+        expect(wgsl).toContain('@group(0) @binding(1) var<storage, read> simulate_folded1 : array<f32>;');
+        expect(wgsl).toContain('@group(0) @binding(2) var<storage, read> ids : array<u32>;');
+        expect(wgsl).toContain('@group(0) @binding(3) var<storage, read> total : array<f32>;');
+        expect(wgsl).toContain('@group(0) @binding(4) var<uniform> simulate_uniforms : simulate_Uniforms;');
+        expect(wgsl).toContain('@group(0) @binding(5) var<uniform> simulate_folds : array<vec4<u32>, 8>;');
+    });
+
+    it('should index the folded arrays from the offsets of the folded ones', () => {
+        const wgsl = generateWGSL(kernel());
+        expect(wgsl).toContain('if (i >= simulate_folds[0].y)');
+        expect(wgsl).toContain('simulate_folded0[simulate_folds[0].x + i] = simulate_folded0[simulate_folds[0].x + i] + simulate_folded1[simulate_folds[3].x + i] * simulate_uniforms.dt;');
+        expect(wgsl).toContain('simulate_folded1[simulate_folds[4].x + u32(simulate_uniforms.k)]');
+        expect(wgsl).toContain('simulate_folded1[simulate_folds[5].x + (i + 1u)] * simulate_folded1[simulate_folds[7].x + ids[i]] + first(&total, simulate_uniforms.k)');
+    });
+
+    it('should describe the folded arrays and their offsets', () => {
+        const func = kernel();
+        const { bindings } = reflectShader(func, collectDependencies(func));
+        expect(bindings[0]).toMatchObject({ name: 'simulate_folded0', binding: 0, buffer: 'storage', size: 4, folded: ['px', 'py', 'pz'] });
+        expect(bindings[1]).toMatchObject({ name: 'simulate_folded1', binding: 1, buffer: 'read-only-storage', size: 4, folded: ['vx', 'vy', 'vz', 'mass', 'charge'] });
+        expect(bindings[5]).toEqual({
+            name: 'simulate_folds', group: 0, binding: 5, access: 'read', type: 'array<vec4<u32>, 8>', buffer: 'uniform', size: 128,
+            folds: [['px', 'py', 'pz'], ['vx', 'vy', 'vz', 'mass', 'charge']],
+        });
+    });
+
+    it('should pass the folded arrays to the runtime without warning', () => {
+        const sourceFile = project.createSourceFile('/Simulate.tsx', code, { overwrite: true });
+        const diagnostics = new DiagnosticBag();
+        transformHost(sourceFile, diagnostics);
+        expect(diagnostics.diagnostics).toEqual([]);
+        expect(sourceFile.getFunctionOrThrow('simulate').getBodyText()).toContain(
+            '[[px, py, pz], [vx, vy, vz, mass, charge], ids, total, { dt, k }, [[px, py, pz], [vx, vy, vz, mass, charge]]]');
+    });
+
+    it('should not fold the arrays of a kernel within the storage buffer limit', () => {
+        const sourceFile = project.createSourceFile('/Copy.tsx', `
+            /** @kernel */
+            function copy(a: SharedArray<f32>, b: SharedArray<f32>) {
+                b[global_invocation_id.x] = a[global_invocation_id.x];
+            }
+        `, { overwrite: true });
+        const wgsl = generateWGSL(sourceFile.getFunctionOrThrow('copy'));
+        expect(wgsl).toContain('@group(0) @binding(0) var<storage, read> a : array<f32>;');
+        expect(wgsl).toContain('@group(0) @binding(1) var<storage, read_write> b : array<f32>;');
+        expect(wgsl).not.toContain('folds');
+    });
+});
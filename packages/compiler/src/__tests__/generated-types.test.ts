@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { Project, ts } from 'ts-morph';
+import { transformHost } from '../host-transformer';
+
+describe('Generated host code', () => {
+    const runtimeDir = path.resolve(__dirname, '../../../runtime');
+
+    // Type-checking the runtime sources takes seconds, more than the default timeout on a loaded machine
+    it('should type-check against the runtime', () => {
+        // Compiled like the playground: the runtime is resolved to its sources
+        const project = new Project({
+            compilerOptions: {
+                target: ts.ScriptTarget.ES2022,
+                module: ts.ModuleKind.ESNext,
+                moduleResolution: ts.ModuleResolutionKind.Bundler,
+                lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+                strict: true,
+                skipLibCheck: true,
+                noEmit: true,
+                baseUrl: runtimeDir,
+                paths: { '@accelscript/runtime': ['src/index.ts'] },
+            },
+        });
+        const sourceFile = project.createSourceFile(path.join(runtimeDir, '__generated__/Saxpy.ts'), `
+            import { runtime, SharedArray, f32 } from "@accelscript/runtime";
+
+            /** @override */
+            const BLOCK: u32 = 64;
+
+            /**
+             * @kernel
+             * @workgroup_size BLOCK
+             */
+            function saxpy(x: SharedArray<f32>, y: SharedArray<f32>, a: f32) {
+                const i = global_invocation_id.x;
+                y[i] = a * x[i] + y[i];
+            }
+
+            export async function main() {
+                const x = new SharedArray(f32, 256);
+                const y = new SharedArray(f32, 256);
+                await saxpy<[4, 1, 1]>(x, y, 2.0, { constants: { BLOCK: 64 } });
+                return runtime.pipelineCache.size;
+            }
+        `);
+        transformHost(sourceFile);
+
+        const messages = sourceFile.getPreEmitDiagnostics().map(d => ts.flattenDiagnosticMessageText(d.compilerObject.messageText, '\n'));
+        expect(messages).toEqual([]);
+    }, 30_000);
+});
@@ -23,7 +23,8 @@ describe("WGSL Generator - Global Constants", () => {
 
         expect(wgsl).toContain("const PI = 3.14159;");
         expect(wgsl).toContain("const TAU = 6.28318;");
-        expect(wgsl).toContain("const EPSILON = 0.001;");
+        // Unused constants are not emitted
+        expect(wgsl).not.toContain("EPSILON");
     });
 
     it("should handle typed constants", () => {
@@ -34,7 +35,9 @@ describe("WGSL Generator - Global Constants", () => {
             const PI: f32 = 3.14159;
 
             /** @kernel */
-            function main() {}
+            function main() {
+                let x = PI;
+            }
         `);
 
         const func = sourceFile.getFunctionOrThrow("main");
@@ -52,7 +55,9 @@ describe("WGSL Generator - Global Constants", () => {
             const uniformsSchema = { time: "f32" };
 
             /** @kernel */
-            function main() {}
+            function main() {
+                let x = PI;
+            }
         `);
 
         const func = sourceFile.getFunctionOrThrow("main");
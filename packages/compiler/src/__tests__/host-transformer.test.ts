@@ -31,10 +31,13 @@ describe('Host Transformer', () => {
 
         // Check if function definition is updated to accept optional argument
         // Note: parameter types are relaxed to 'any' to support SharedArray and other runtime types
-        expect(result).toContain('async function compute(data: any, workgroup_count?: any)');
+        expect(result).toContain('async function compute(data: any, workgroup_count?: any, dispatch_options?: any)');
 
         // Check if dispatch call uses workgroup_count
-        expect(result).toContain('return runtime.dispatch(compute_wgsl, "compute", [data], workgroup_count);');
+        expect(result).toContain('return runtime.dispatch(compute_wgsl, "compute", [data], workgroup_count, compute_wgsl_map, compute_wgsl_reflection, dispatch_options);');
+        // Pipeline creation starts at module load
+        expect(result).toContain('runtime.pipelineCache.warmUp(compute_wgsl, "compute", compute_wgsl_map, compute_wgsl_reflection);');
+        expect(result.indexOf('let compute_wgsl_map')).toBeLessThan(result.indexOf('runtime.pipelineCache.warmUp'));
     });
 
     it('should add runtime import if missing', () => {
@@ -116,4 +119,43 @@ describe('Host Transformer', () => {
         expect(unescapedWgsl).toContain('return x * x;');
         expect(unescapedWgsl).toContain('@compute');
     });
+
+    it('should declare runtime struct types for arrays of structs', () => {
+        const code = `
+            interface Material {
+                color: vec3f;
+                roughness: f32;
+            }
+
+            interface Particle {
+                pos: vec3f;
+                density: f32;
+                material: Material;
+            }
+
+            /** @kernel */
+            function step(particles: SharedArray<Particle>) {
+                const i = global_invocation_id.x;
+                particles[i].density = particles[i].material.roughness;
+            }
+
+            const particles = new SharedArray(Particle, 100);
+        `;
+        const result = transform(code);
+
+        const match = result.match(/const Particle = runtime\.struct\("Particle", (.*)\);/);
+        expect(match).toBeTruthy();
+        const layouts = JSON.parse(match![1]);
+        expect(Object.keys(layouts)).toEqual(['Material', 'Particle']);
+        expect(layouts.Particle.size).toBe(32);
+        expect(layouts.Particle.fields.map((f: any) => f.offset)).toEqual([0, 12, 16]);
+        expect(result.indexOf('const Particle')).toBeGreaterThan(result.indexOf('interface Particle'));
+
+        // Material is only used as a type
+        expect(result).not.toContain('const Material');
+
+        const wgsl = JSON.parse(result.match(/let step_wgsl = (.*);/)![1]);
+        expect(wgsl).toContain('var<storage, read_write> particles : array<Particle>;');
+        expect(wgsl).toContain('struct Particle {');
+    });
 });
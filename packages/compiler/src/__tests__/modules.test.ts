@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+import { transformHost } from '../host-transformer';
+
+describe('Cross-module device functions, structs and constants', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    project.createSourceFile('/sph-lib.ts', `
+        const PI: f32 = 3.14159;
+        const UNUSED: f32 = 1.0;
+        export const H: f32 = 0.1;
+
+        export interface Params {
+            numParticles: u32;
+            mass: f32;
+        }
+
+        export interface Neighbor {
+            distance: f32;
+        }
+
+        /** @device */
+        function cube(x: f32): f32 {
+            return x * x * x;
+        }
+
+        /** @device */
+        export function poly6Kernel(r: f32): f32 {
+            return 315.0 / (64.0 * PI) * cube(H * H - r * r);
+        }
+
+        /** @device */
+        export function nearest(r: f32): Neighbor {
+            let n: Neighbor;
+            n.distance = r;
+            return n;
+        }
+    `);
+
+    function kernel(code: string) {
+        return project.createSourceFile('/demo.ts', code, { overwrite: true });
+    }
+
+    it('should pull imported device functions and the functions they call into the kernel', () => {
+        const sourceFile = kernel(`
+            import { poly6Kernel, Params, H } from "./sph-lib";
+
+            /** @kernel */
+            function density(out: SharedArray<f32>, params: Params) {
+                const i = global_invocation_id.x;
+                if (i >= params.numParticles) return;
+                out[i] = params.mass * poly6Kernel(H * 0.5);
+            }
+
+            async function run() {
+                await density<[1, 1, 1]>(out, params);
+            }
+        `);
+        transformHost(sourceFile);
+        const wgsl = JSON.parse(sourceFile.getFullText().match(/let density_wgsl = (.*);/)![1]);
+
+        expect(wgsl).toContain('fn poly6Kernel(r : f32) -> f32 {');
+        expect(wgsl).toContain('fn cube(x : f32) -> f32 {');
+        expect(wgsl).toContain('struct Params {');
+        expect(wgsl).toContain('const H: f32 = 0.1;');
+        expect(wgsl).toContain('const PI: f32 = 3.14159;');
+        expect(wgsl).not.toContain('UNUSED');
+        expect(wgsl).toContain('out[i] = params.mass * poly6Kernel(H * 0.5);');
+
+        // Imported device functions stay in their module
+        expect(project.getSourceFileOrThrow('/sph-lib.ts').getFunction('poly6Kernel')).toBeDefined();
+
+        const sourceMap = JSON.parse(sourceFile.getFullText().match(/let density_wgsl_map: import\("@accelscript\/runtime"\)\.ShaderSourceMap = (.*);/)![1]);
+        expect([...sourceMap.files].sort()).toEqual(['demo.ts', 'sph-lib.ts']);
+    });
+
+    it('should use the declared name of functions imported under an alias', () => {
+        const wgsl = generateWGSL(kernel(`
+            import { poly6Kernel as w } from "./sph-lib";
+
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                out[0] = w(1.0);
+            }
+        `).getFunctionOrThrow('main'));
+        expect(wgsl).toContain('out[0] = poly6Kernel(1.0);');
+    });
+
+    it('should keep the names of runtime imports that do not resolve', () => {
+        const wgsl = generateWGSL(kernel(`
+            import { SharedArray, i32, u32, f32 } from "@accelscript/runtime";
+
+            /** @kernel */
+            function main(out: SharedArray<f32>, params: SharedArray<u32>) {
+                const cell = i32(floor(out[0]));
+                out[1] = f32(cell) / f32(params[0]) + f32(u32(cell));
+            }
+        `).getFunctionOrThrow('main'));
+        expect(wgsl).toContain('let cell = i32(floor(out[0]));');
+        expect(wgsl).toContain('u32(cell)');
+        expect(wgsl).not.toContain('unknown');
+    });
+
+    it('should resolve structs returned by imported functions without importing them', () => {
+        const wgsl = generateWGSL(kernel(`
+            import { nearest } from "./sph-lib";
+
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                const i = global_invocation_id.x;
+                out[i] = nearest(1.0).distance * i;
+            }
+        `).getFunctionOrThrow('main'));
+        expect(wgsl).toContain('struct Neighbor {');
+        expect(wgsl).toContain('out[i] = nearest(1.0).distance * f32(i);');
+    });
+});
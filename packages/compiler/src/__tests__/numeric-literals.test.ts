@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+
+describe('WGSL Generator - Numeric Literals', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    function compile(code: string, name = 'main') {
+        const sourceFile = project.createSourceFile('test.ts', code, { overwrite: true });
+        return generateWGSL(sourceFile.getFunctionOrThrow(name));
+    }
+
+    it('should type an accumulator from the values assigned to it', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(data: SharedArray<f32>, out: SharedArray<f32>) {
+                let sum = 0;
+                for (let i = 0; i < 4; i++) {
+                    sum += data[i] * 0.5;
+                }
+                out[0] = sum;
+            }
+        `);
+        expect(wgsl).toContain('var sum = 0.0;');
+        expect(wgsl).toContain('for (var i = 0; i < 4; i++)');
+    });
+
+    it('should type literals from the declared type', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                let n: u32 = 0;
+                const s: f32 = 1;
+            }
+        `);
+        expect(wgsl).toContain('var n: u32 = 0u;');
+        expect(wgsl).toContain('let s: f32 = 1.0;');
+    });
+
+    it('should type literals from the other operand', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>, x: f32) {
+                const i = global_invocation_id.x;
+                out[i + 1] = x * 2;
+            }
+        `);
+        expect(wgsl).toContain('out[i + 1u] = main_uniforms.x * 2.0;');
+    });
+
+    it('should type literals from built-in and device function parameters', () => {
+        const wgsl = compile(`
+            /** @device */
+            function pick(data: SharedArray<f32>, index: u32): f32 {
+                return data[index];
+            }
+
+            /** @kernel */
+            function main(data: SharedArray<f32>, x: f32) {
+                data[0] = pow(x, 2) + pick(data, 3) + max(x, 1);
+            }
+        `);
+        expect(wgsl).toContain('data[0] = pow(main_uniforms.x, 2.0) + pick(&data, 3u) + max(main_uniforms.x, 1.0);');
+    });
+
+    it('should type literals inside vector constructors', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(out: SharedArray<vec3f>, ids: SharedArray<vec3u>) {
+                out[0] = vec3(0, 1, 0) + vec3f(2);
+                ids[0] = vec3u(1, 2, 3);
+            }
+        `);
+        expect(wgsl).toContain('out[0] = vec3(0.0, 1.0, 0.0) + vec3f(2.0);');
+        expect(wgsl).toContain('ids[0] = vec3u(1u, 2u, 3u);');
+    });
+
+    it('should type literals inside select from ternaries', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(out: SharedArray<u32>, flag: boolean) {
+                const r: f32 = flag ? 1 : 0;
+                out[0] = flag ? 1 : 0;
+            }
+        `);
+        expect(wgsl).toContain('let r: f32 = select(0.0, 1.0, main_uniforms.flag);');
+        expect(wgsl).toContain('out[0] = select(0u, 1u, main_uniforms.flag);');
+    });
+
+    it('should type literals of typed module constants', () => {
+        const wgsl = compile(`
+            const SCALE: f32 = 2;
+            const COUNT: u32 = 16;
+
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                out[COUNT] = SCALE;
+            }
+        `);
+        expect(wgsl).toContain('const SCALE: f32 = 2.0;');
+        expect(wgsl).toContain('const COUNT: u32 = 16u;');
+    });
+
+    it('should emit integral float literals in integer context', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main() {
+                let k: i32 = 2.0;
+            }
+        `);
+        expect(wgsl).toContain('var k: i32 = 2i;');
+    });
+
+    it('should reject literals that do not fit the contextual type', () => {
+        expect(() => compile(`
+            /** @kernel */
+            function main() {
+                let k: u32 = 1.5;
+            }
+        `)).toThrow(/:4:30 - error AS2002: Literal 1.5 is not a valid u32/);
+
+        expect(() => compile(`
+            /** @kernel */
+            function main() {
+                let k: u32 = -1;
+            }
+        `)).toThrow(/:4:30 - error AS2002: Negative literal -1 is not a valid u32/);
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+import { transformHost } from '../host-transformer';
+import { collectDependencies } from '../dependencies';
+import { reflectShader } from '../reflection';
+import { CompileError } from '../diagnostics';
+
+describe('Override constants', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    function sourceFile(code: string) {
+        return project.createSourceFile('/Overrides.tsx', code, { overwrite: true });
+    }
+
+    function catchError(fn: () => unknown): CompileError {
+        try {
+            fn();
+        } catch (error) {
+            if (error instanceof CompileError) return error;
+            throw error;
+        }
+        throw new Error('Expected a CompileError');
+    }
+
+    const blur = `
+        /** @override */
+        const BLOCK: u32 = 64;
+        /** @override */
+        const STRENGTH: f32 = 1;
+        const RADIUS = 2;
+
+        /**
+         * @kernel
+         * @workgroup_size BLOCK
+         */
+        function blur(data: SharedArray<f32>) {
+            const i = global_invocation_id.x;
+            data[i] = data[i] * STRENGTH + f32(RADIUS);
+        }
+    `;
+
+    it('should declare @override constants and size workgroups with them', () => {
+        const wgsl = generateWGSL(sourceFile(blur).getFunctionOrThrow('blur'));
+        expect(wgsl).toContain('override BLOCK: u32 = 64u;');
+        expect(wgsl).toContain('override STRENGTH: f32 = 1.0;');
+        expect(wgsl).toContain('const RADIUS = 2;');
+        expect(wgsl).toContain('@compute @workgroup_size(BLOCK)');
+    });
+
+    it('should list the @override constants in the reflection', () => {
+        const func = sourceFile(blur).getFunctionOrThrow('blur');
+        expect(reflectShader(func, collectDependencies(func)).overrides).toEqual([
+            { name: 'STRENGTH', type: 'f32' },
+            { name: 'BLOCK', type: 'u32' },
+        ]);
+    });
+
+    it('should mark the @override constants without a default as required', () => {
+        const func = sourceFile(`
+            /** @override */
+            declare const SIZE: u32;
+
+            /** @kernel */
+            function fill(data: SharedArray<u32>) {
+                data[global_invocation_id.x] = SIZE;
+            }
+        `).getFunctionOrThrow('fill');
+        expect(generateWGSL(func)).toContain('override SIZE: u32;');
+        expect(reflectShader(func, collectDependencies(func)).overrides).toEqual([{ name: 'SIZE', type: 'u32', required: true }]);
+    });
+
+    it('should pass the dispatch options of kernel calls to the runtime', () => {
+        const file = sourceFile(`${blur}
+            async function main(data: SharedArray<f32>) {
+                await blur<[16, 1, 1]>(data, { constants: { BLOCK: 128 } });
+                await blur(data, { constants: { STRENGTH: 0.5 } });
+                await blur<[4, 1, 1]>(data);
+            }
+        `);
+        transformHost(file);
+        const text = file.getFullText();
+        expect(text).toContain('await blur(data, [16, 1, 1], { constants: { BLOCK: 128 } });');
+        expect(text).toContain('await blur(data, undefined, { constants: { STRENGTH: 0.5 } });');
+        expect(text).toContain('await blur(data, [4, 1, 1]);');
+        expect(text).toContain('function blur(data: any, workgroup_count?: any, dispatch_options?: any)');
+        expect(text).toContain('blur_wgsl_reflection, dispatch_options);');
+    });
+
+    it('should require a scalar type annotation', () => {
+        const error = catchError(() => generateWGSL(sourceFile(`
+            /** @override */
+            const SCALE = 2.0;
+
+            /** @kernel */
+            function main(data: SharedArray<f32>) {
+                data[global_invocation_id.x] *= SCALE;
+            }
+        `).getFunctionOrThrow('main')));
+        expect(error.diagnostic.code).toBe('AS2004');
+        expect(error.diagnostic.message).toBe("Override constant 'SCALE' needs a scalar type annotation, e.g. const SCALE: u32 = 64");
+    });
+});
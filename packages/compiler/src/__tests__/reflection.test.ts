@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { transformHost } from '../host-transformer';
+import { reflectShader } from '../reflection';
+import { collectDependencies } from '../dependencies';
+import { structLayout, typeLayout } from '../layout';
+
+describe('Shader reflection', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    const code = `
+interface Particle {
+    position: vec3f;
+    mass: f32;
+    velocity: vec2f;
+}
+
+interface Params {
+    count: u32;
+    gravity: vec3f;
+}
+
+/** @kernel */
+function step(particles: SharedArray<Particle>, params: Params, unused: SharedArray<f32>, scale: f32) {
+    const i = global_invocation_id.x;
+    particles[i].mass = particles[i].mass * scale;
+}
+`;
+
+    function reflect() {
+        const func = project.createSourceFile('/Step.tsx', code, { overwrite: true }).getFunctionOrThrow('step');
+        return reflectShader(func, collectDependencies(func));
+    }
+
+    it('should describe every parameter binding, used or not', () => {
+        const reflection = reflect();
+        expect(reflection.entryPoint).toBe('step');
+        expect(reflection.stage).toBe('compute');
+        expect(reflection.bindings).toEqual([
+            { name: 'particles', group: 0, binding: 0, buffer: 'storage', access: 'read_write', type: 'array<Particle>', size: 32 },
+            { name: 'params', group: 0, binding: 1, buffer: 'uniform', access: 'read', type: 'Params', size: 32 },
+            { name: 'unused', group: 0, binding: 2, buffer: 'read-only-storage', access: 'read', type: 'array<f32>', size: 4 },
+            { name: 'step_uniforms', group: 0, binding: 3, buffer: 'uniform', access: 'read', type: 'step_Uniforms', size: 4 },
+        ]);
+    });
+
+    it('should lay out structs with WGSL alignment rules', () => {
+        const { structs } = reflect();
+        expect(structs.Particle).toEqual({
+            size: 32,
+            align: 16,
+            fields: [
+                { name: 'position', type: 'vec3<f32>', offset: 0, size: 12, align: 16 },
+                { name: 'mass', type: 'f32', offset: 12, size: 4, align: 4 },
+                { name: 'velocity', type: 'vec2<f32>', offset: 16, size: 8, align: 8 },
+            ],
+        });
+        expect(structs.Params.fields.map(f => f.offset)).toEqual([0, 16]);
+    });
+
+    it('should size matrices, fixed-size arrays and nested structs', () => {
+        const structs = { Inner: structLayout([{ name: 'a', type: 'f32' }, { name: 'b', type: 'vec2<f32>' }], {}) };
+        expect(structs.Inner).toMatchObject({ size: 16, align: 8 });
+        expect(typeLayout('mat3x3<f32>', structs)).toEqual({ size: 48, align: 16 });
+        expect(typeLayout('array<vec3<f32>, 4>', structs)).toEqual({ size: 64, align: 16 });
+        expect(structLayout([{ name: 'x', type: 'f32' }, { name: 'inner', type: 'Inner' }], structs).fields[1].offset).toBe(8);
+    });
+
+    it('should embed the reflection next to the kernel', () => {
+        const sourceFile = project.createSourceFile('/Step.tsx', code, { overwrite: true });
+        transformHost(sourceFile);
+        const result = sourceFile.getFullText();
+
+        const reflection = JSON.parse(result.match(/let step_wgsl_reflection: import\("@accelscript\/runtime"\)\.ShaderReflection = (.*);/)![1]);
+        expect(reflection.bindings.map((b: any) => b.name)).toEqual(['particles', 'params', 'unused', 'step_uniforms']);
+        expect(reflection.structs.step_Uniforms.fields.map((f: any) => f.name)).toEqual(['scale']);
+        expect(result).toContain('runtime.dispatch(step_wgsl, "step", [particles, params, unused, { scale }], workgroup_count, step_wgsl_map, step_wgsl_reflection, dispatch_options)');
+    });
+});
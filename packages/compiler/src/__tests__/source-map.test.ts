@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL, generateDeviceFunction } from '../wgsl-generator';
+import { extractSourceMap } from '../source-map';
+import { transformHost } from '../host-transformer';
+
+describe('WGSL Source Maps', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    const code = `
+/** @device */
+function scale(v: f32): f32 {
+    return v * 2.0;
+}
+
+/** @kernel */
+function main(out: SharedArray<f32>) {
+    const i = global_invocation_id.x;
+    out[i] = scale(out[i]);
+}
+`;
+
+    function segmentsOf(wgsl: string, sourceMap: { mappings: [number, number, number, number][][] }, line: string) {
+        const index = wgsl.split('\n').findIndex(l => l.includes(line));
+        expect(index).toBeGreaterThanOrEqual(0);
+        return sourceMap.mappings[index];
+    }
+
+    it('should map generated statements to their TS line and column', () => {
+        const sourceFile = project.createSourceFile('Demo.tsx', code, { overwrite: true });
+        const marked = generateDeviceFunction(sourceFile.getFunctionOrThrow('scale'), true) + '\n' +
+            generateWGSL(sourceFile.getFunctionOrThrow('main'), true);
+        const { code: wgsl, sourceMap } = extractSourceMap(marked, () => code.split('\n'));
+
+        expect(sourceMap.files).toEqual(['Demo.tsx']);
+        expect(sourceMap.mappings.length).toBe(wgsl.split('\n').length);
+        expect(segmentsOf(wgsl, sourceMap, 'return v * 2.0;')[0]).toEqual([5, 0, 4, 5]);
+        expect(segmentsOf(wgsl, sourceMap, 'var<storage, read_write> out')[0]).toEqual([1, 0, 8, 15]);
+
+        // Nested expressions get segments of their own: the call to scale starts at column 14
+        const assignment = segmentsOf(wgsl, sourceMap, 'out[i] = scale(out[i]);');
+        expect(assignment[0]).toEqual([5, 0, 10, 5]);
+        expect(assignment).toContainEqual([14, 0, 10, 14]);
+
+        expect(sourceMap.sources[0][10]).toBe('    out[i] = scale(out[i]);');
+    });
+
+    it('should not emit marks unless requested', () => {
+        const sourceFile = project.createSourceFile('Demo.tsx', code, { overwrite: true });
+        const wgsl = generateWGSL(sourceFile.getFunctionOrThrow('main'));
+        expect(wgsl).not.toMatch(/[\u0001\u0002]/);
+    });
+
+    it('should embed a source map next to each kernel', () => {
+        const sourceFile = project.createSourceFile('Demo.tsx', code, { overwrite: true });
+        transformHost(sourceFile);
+        const result = sourceFile.getFullText();
+
+        expect(result).not.toMatch(/[\u0001\u0002]/);
+        const mapMatch = result.match(/let main_wgsl_map: import\("@accelscript\/runtime"\)\.ShaderSourceMap = (.*);/);
+        expect(mapMatch).toBeTruthy();
+        const sourceMap = JSON.parse(mapMatch![1]);
+        expect(sourceMap.files).toEqual(['Demo.tsx']);
+        expect(sourceMap.sources[0][4]).toBe('    return v * 2.0;');
+        expect(result).toContain('runtime.dispatch(main_wgsl, "main", [out], workgroup_count, main_wgsl_map, main_wgsl_reflection, dispatch_options)');
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+import { CompileError } from '../diagnostics';
+
+describe('Stage built-ins', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    function sourceFile(code: string) {
+        return project.createSourceFile('/Builtins.tsx', code, { overwrite: true });
+    }
+
+    function catchError(fn: () => unknown): CompileError {
+        try {
+            fn();
+        } catch (error) {
+            if (error instanceof CompileError) return error;
+            throw error;
+        }
+        throw new Error('Expected a CompileError');
+    }
+
+    it('should pass instance_index to the vertex shaders that use it', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            /** @vertex */
+            function vert(offsets: SharedArray<vec4f>) {
+                return offsets[instance_index] + vec4f(f32(vertex_index), 0.0, 0.0, 1.0);
+            }
+        `).getFunctionOrThrow('vert'));
+        expect(wgsl).toContain('fn vert(@builtin(vertex_index) vertex_index : u32, @builtin(instance_index) instance_index : u32) -> @builtin(position) vec4<f32> {');
+    });
+
+    it('should pass the fragment built-ins the shader uses', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            /** @fragment */
+            function frag(tint: vec4f) {
+                if (!front_facing) {
+                    discard();
+                }
+                return tint * frag_coord.x;
+            }
+        `).getFunctionOrThrow('frag'));
+        expect(wgsl).toContain('fn frag(@builtin(position) frag_coord : vec4<f32>, @builtin(front_facing) front_facing : bool) -> @location(0) vec4<f32> {');
+        expect(wgsl).toContain('discard;');
+        expect(wgsl).not.toContain('sample_index');
+    });
+
+    it('should read frag_coord from the varyings', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            interface VSOut {
+                position: vec4f;
+                uv: vec2f;
+            }
+
+            /** @vertex */
+            function vert(): VSOut {
+                return { position: vec4f(0.0, 0.0, 0.0, 1.0), uv: vec2f(0.0, 0.0) };
+            }
+
+            /** @fragment */
+            function frag(input: VSOut) {
+                return vec4f(input.uv * fwidth(input.uv), frag_coord.z, f32(sample_index));
+            }
+        `).getFunctionOrThrow('frag'));
+        expect(wgsl).toContain('fn frag(input : VSOut, @builtin(sample_index) sample_index : u32) -> @location(0) vec4<f32> {\n    let frag_coord = input.position;');
+        expect(wgsl).toContain('return vec4f(input.uv * fwidth(input.uv), frag_coord.z, f32(sample_index));');
+    });
+
+    it('should return frag_depth with the color', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            /** @fragment */
+            function frag(bias: f32) {
+                frag_depth += bias;
+                return vec4f(1.0, 0.0, 0.0, 1.0);
+            }
+        `).getFunctionOrThrow('frag'));
+        expect(wgsl).toContain([
+            'struct frag_Output {',
+            '    @location(0) color : vec4<f32>,',
+            '    @builtin(frag_depth) frag_depth : f32',
+            '}',
+        ].join('\n'));
+        expect(wgsl).toContain('fn frag(@builtin(position) frag_coord : vec4<f32>) -> frag_Output {\n    var frag_depth = frag_coord.z;');
+        expect(wgsl).toContain('frag_depth += bias;');
+        expect(wgsl).toContain('return frag_Output(vec4f(1.0, 0.0, 0.0, 1.0), frag_depth);');
+    });
+
+    it('should reject fragment-only functions in kernels, also through device functions', () => {
+        const error = catchError(() => generateWGSL(sourceFile(`
+            /** @device */
+            function edge(value: f32): f32 {
+                return dpdx(value);
+            }
+
+            /** @kernel */
+            function main(data: SharedArray<f32>) {
+                data[global_invocation_id.x] = edge(data[global_invocation_id.x]);
+            }
+        `).getFunctionOrThrow('main')));
+        expect(error.diagnostic.code).toBe('AS2010');
+        expect(error.diagnostic.message).toBe("'dpdx' is only available in fragment shaders, but 'main' is a kernel");
+        expect(error.diagnostic.line).toBe(4);
+    });
+
+    it('should reject the built-in variables of other stages', () => {
+        const error = catchError(() => generateWGSL(sourceFile(`
+            /** @vertex */
+            function vert() {
+                return vec4f(f32(global_invocation_id.x), 0.0, 0.0, 1.0);
+            }
+        `).getFunctionOrThrow('vert')));
+        expect(error.diagnostic.message).toBe("'global_invocation_id' is only available in kernels, but 'vert' is a vertex shader");
+    });
+
+    it('should not mistake locals for built-ins', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            /** @kernel */
+            function main(data: SharedArray<u32>) {
+                const sample_index = global_invocation_id.x;
+                data[sample_index] = sample_index;
+            }
+        `).getFunctionOrThrow('main'));
+        expect(wgsl).toContain('let sample_index = global_invocation_id.x;');
+    });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+import { reflectShader } from '../reflection';
+import { collectDependencies } from '../dependencies';
+import { CompileError } from '../diagnostics';
+
+describe('Struct fields', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    function kernel(code: string) {
+        return project.createSourceFile('/Structs.tsx', code, { overwrite: true }).getFunctionOrThrow('main');
+    }
+
+    function catchError(fn: () => unknown): CompileError {
+        try {
+            fn();
+        } catch (error) {
+            if (error instanceof CompileError) return error;
+            throw error;
+        }
+        throw new Error('Expected a CompileError');
+    }
+
+    it('should emit nested structs before the structs that use them', () => {
+        const wgsl = generateWGSL(kernel(`
+            interface Scene {
+                lights: FixedArray<Light, 4>;
+                ambient: Color;
+            }
+
+            interface Light {
+                color: Color;
+                position: vec3f;
+            }
+
+            interface Color {
+                rgb: vec3f;
+                intensity: f32;
+            }
+
+            /** @kernel */
+            function main(scenes: SharedArray<Scene>) {
+                const i = global_invocation_id.x;
+                scenes[i].ambient.intensity = scenes[i].lights[0].color.intensity;
+            }
+        `));
+        const color = wgsl.indexOf('struct Color {');
+        const light = wgsl.indexOf('struct Light {');
+        const scene = wgsl.indexOf('struct Scene {');
+        expect(color).toBeGreaterThanOrEqual(0);
+        expect(color).toBeLessThan(light);
+        expect(light).toBeLessThan(scene);
+        expect(wgsl).toContain('lights : array<Light, 4>,');
+        expect(wgsl).toContain('scenes[i].ambient.intensity = scenes[i].lights[0].color.intensity;');
+    });
+
+    it('should map FixedArray and tuple fields to fixed-size arrays', () => {
+        const func = kernel(`
+            interface Layer {
+                weights: FixedArray<f32, 8>;
+                bias: [f32, f32, f32, f32];
+                taps: FixedArray<vec4f, 2>;
+            }
+
+            /** @kernel */
+            function main(layers: SharedArray<Layer>, out: SharedArray<f32>) {
+                const i = global_invocation_id.x;
+                out[i] = layers[i].weights[7] + layers[i].bias[3];
+            }
+        `);
+        const wgsl = generateWGSL(func);
+        expect(wgsl).toContain('weights : array<f32, 8>,');
+        expect(wgsl).toContain('bias : array<f32, 4>,');
+        expect(wgsl).toContain('taps : array<vec4<f32>, 2>');
+
+        const { structs } = reflectShader(func, collectDependencies(func));
+        expect(structs.Layer.fields.map(f => f.offset)).toEqual([0, 32, 48]);
+        expect(structs.Layer.size).toBe(80);
+    });
+
+    it('should reject tuples mixing element types', () => {
+        const error = catchError(() => generateWGSL(kernel(`
+            interface Pair {
+                values: [f32, u32];
+            }
+
+            /** @kernel */
+            function main(pairs: SharedArray<Pair>) {}
+        `)));
+        expect(error.diagnostic.code).toBe('AS2003');
+        expect(error.diagnostic.message).toContain('mixes element types');
+    });
+
+    it('should reject structs that contain themselves', () => {
+        const error = catchError(() => generateWGSL(kernel(`
+            interface Node {
+                value: f32;
+                children: FixedArray<Node, 2>;
+            }
+
+            /** @kernel */
+            function main(nodes: SharedArray<Node>) {}
+        `)));
+        expect(error.diagnostic.code).toBe('AS2006');
+        expect(error.diagnostic.message).toBe("Struct 'Node' contains itself");
+    });
+
+    it('should enforce the array stride of uniform buffers', () => {
+        const func = kernel(`
+            interface Params {
+                count: u32;
+                weights: FixedArray<f32, 8>;
+            }
+
+            /** @kernel */
+            function main(params: Params, out: SharedArray<f32>) {}
+        `);
+        const error = catchError(() => reflectShader(func, collectDependencies(func)));
+        expect(error.diagnostic.code).toBe('AS2006');
+        expect(error.diagnostic.line).toBe(4);
+        expect(error.diagnostic.message).toContain("Field 'weights' of struct 'Params' has an array stride of 4 bytes");
+    });
+
+    it('should enforce the alignment of struct fields in uniform buffers', () => {
+        const func = kernel(`
+            interface Range {
+                min: f32;
+                max: f32;
+            }
+
+            interface Params {
+                scale: f32;
+                range: Range;
+                count: u32;
+            }
+
+            /** @kernel */
+            function main(params: Params, out: SharedArray<f32>) {}
+        `);
+        const error = catchError(() => reflectShader(func, collectDependencies(func)));
+        expect(error.diagnostic.code).toBe('AS2006');
+        expect(error.diagnostic.message).toContain("Field 'range' of struct 'Params' is a struct at offset 4");
+
+        // The same struct is valid in a storage buffer
+        const storage = kernel(`
+            interface Range {
+                min: f32;
+                max: f32;
+            }
+
+            interface Params {
+                scale: f32;
+                range: Range;
+                count: u32;
+            }
+
+            /** @kernel */
+            function main(params: SharedArray<Params>) {}
+        `);
+        expect(reflectShader(storage, collectDependencies(storage)).structs.Params.size).toBe(16);
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL, generateDeviceFunction } from '../wgsl-generator';
+import { CompileError } from '../diagnostics';
+
+describe('Struct literals', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    const structs = `
+        interface Hit {
+            t: f32;
+            normal: vec3f;
+            id: u32;
+        }
+
+        interface Ray {
+            origin: vec3f;
+            dir: vec3f;
+        }
+    `;
+
+    function compile(code: string, name = 'main') {
+        const sourceFile = project.createSourceFile('/Literals.tsx', structs + code, { overwrite: true });
+        const func = sourceFile.getFunctionOrThrow(name);
+        return func.getJsDocs().some(doc => doc.getTags().some(tag => tag.getTagName() === 'device'))
+            ? generateDeviceFunction(func)
+            : generateWGSL(func);
+    }
+
+    function catchError(fn: () => unknown): CompileError {
+        try {
+            fn();
+        } catch (error) {
+            if (error instanceof CompileError) return error;
+            throw error;
+        }
+        throw new Error('Expected a CompileError');
+    }
+
+    it('should lower object literals to constructors in field order', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(out: SharedArray<Hit>) {
+                const n = vec3f(0.0, 1.0, 0.0);
+                const hit: Hit = { normal: n, id: 3, t: 1 };
+                out[0] = { t: 2.5, normal: n, id: hit.id };
+            }
+        `);
+        expect(wgsl).toContain('let hit: Hit = Hit(1.0, n, 3u);');
+        expect(wgsl).toContain('out[0] = Hit(2.5, n, hit.id);');
+    });
+
+    it('should construct returned structs and struct arguments of device functions', () => {
+        const wgsl = compile(`
+            /** @device */
+            function miss(ray: Ray): Hit {
+                const normal = -ray.dir;
+                return { t: -1.0, normal, id: 0 };
+            }
+        `, 'miss');
+        expect(wgsl).toContain('return Hit(-1.0, normal, 0u);');
+
+        const kernel = compile(`
+            /** @device */
+            function trace(ray: Ray): f32 {
+                return ray.origin.x;
+            }
+
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                out[0] = trace({ origin: vec3f(0.0, 0.0, 0.0), dir: vec3f(0.0, 0.0, 1.0) });
+            }
+        `);
+        expect(kernel).toContain('out[0] = trace(Ray(vec3f(0.0, 0.0, 0.0), vec3f(0.0, 0.0, 1.0)));');
+    });
+
+    it('should lower spreads to a copy followed by field assignments', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(hits: SharedArray<Hit>) {
+                const i = global_invocation_id.x;
+                const hit = hits[i];
+                const farther: Hit = { ...hit, t: hit.t * 2.0 };
+                hits[i] = { ...farther, id: 7 };
+            }
+        `);
+        expect(wgsl).toContain('var farther: Hit = hit;\n    farther.t = hit.t * 2.0;');
+        expect(wgsl).toContain('hits[i] = Hit(farther.t, farther.normal, 7u);');
+    });
+
+    it('should report missing and unknown fields', () => {
+        const missing = catchError(() => compile(`
+            /** @kernel */
+            function main(out: SharedArray<Hit>) {
+                const hit: Hit = { t: 1.0 };
+            }
+        `));
+        expect(missing.diagnostic.code).toBe('AS2001');
+        expect(missing.diagnostic.message).toBe("Missing fields 'normal', 'id' in object literal of struct 'Hit'");
+
+        const unknown = catchError(() => compile(`
+            /** @kernel */
+            function main(out: SharedArray<Hit>) {
+                const hit: Hit = { t: 1.0, normal: vec3f(0.0, 0.0, 0.0), id: 1, color: 2.0 };
+            }
+        `));
+        expect(unknown.diagnostic.message).toBe("Struct 'Hit' has no field 'color'");
+    });
+
+    it('should require a struct type for object literals', () => {
+        const error = catchError(() => compile(`
+            /** @kernel */
+            function main(out: SharedArray<Hit>) {
+                const hit = { t: 1.0 };
+            }
+        `));
+        expect(error.diagnostic.code).toBe('AS2004');
+        expect(error.diagnostic.line).toBe(15);
+    });
+});
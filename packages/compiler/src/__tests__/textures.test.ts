@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+import { transformHost } from '../host-transformer';
+import { collectDependencies } from '../dependencies';
+import { reflectShader } from '../reflection';
+import { CompileError } from '../diagnostics';
+
+describe('Textures and samplers', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    function sourceFile(code: string) {
+        return project.createSourceFile('/Textures.tsx', code, { overwrite: true });
+    }
+
+    function catchError(fn: () => unknown): CompileError {
+        try {
+            fn();
+        } catch (error) {
+            if (error instanceof CompileError) return error;
+            throw error;
+        }
+        throw new Error('Expected a CompileError');
+    }
+
+    const blur = `
+        /** @kernel */
+        function blur(input: Texture2D<f32>, output: StorageTexture2D<"rgba8unorm">, bilinear: Sampler, radius: f32) {
+            const size = textureDimensions(input);
+            const coords = vec2i(i32(global_invocation_id.x), i32(global_invocation_id.y));
+            const uv = (vec2f(global_invocation_id.xy) + 0.5) / vec2f(size);
+            let color = textureLoad(input, coords, 0);
+            color += textureSampleLevel(input, bilinear, uv + vec2f(radius, 0.0) / vec2f(size), 0.0);
+            textureStore(output, coords, color * 0.5);
+        }
+    `;
+
+    it('should bind textures and samplers as handles', () => {
+        const wgsl = generateWGSL(sourceFile(blur).getFunctionOrThrow('blur'));
+        expect(wgsl).toContain('@group(0) @binding(0) var input : texture_2d<f32>;');
+        expect(wgsl).toContain('@group(0) @binding(1) var output : texture_storage_2d<rgba8unorm, write>;');
+        expect(wgsl).toContain('@group(0) @binding(2) var bilinear : sampler;');
+        expect(wgsl).toContain('@group(0) @binding(3) var<uniform> blur_uniforms : blur_Uniforms;');
+        expect(wgsl).toContain('let size = textureDimensions(input);');
+        expect(wgsl).toContain('var color = textureLoad(input, coords, 0);');
+        expect(wgsl).toContain('color += textureSampleLevel(input, bilinear, uv + vec2f(blur_uniforms.radius, 0.0) / vec2f(vec2<f32>(size)), 0.0);');
+        expect(wgsl).toContain('textureStore(output, coords, color * 0.5);');
+    });
+
+    it('should describe texture and sampler bindings for the runtime', () => {
+        const func = sourceFile(blur).getFunctionOrThrow('blur');
+        const { bindings } = reflectShader(func, collectDependencies(func));
+        expect(bindings.slice(0, 3)).toEqual([
+            { name: 'input', group: 0, binding: 0, access: 'read', type: 'texture_2d<f32>', texture: { sampleType: 'float' } },
+            { name: 'output', group: 0, binding: 1, access: 'write', type: 'texture_storage_2d<rgba8unorm, write>', storageTexture: { format: 'rgba8unorm' } },
+            { name: 'bilinear', group: 0, binding: 2, access: 'read', type: 'sampler', sampler: { type: 'filtering' } },
+        ]);
+    });
+
+    it('should type loads from integer textures and sample in fragment shaders', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            /** @fragment */
+            function shade(labels: Texture2D<u32>, image: Texture2D, smooth: Sampler) {
+                const label = textureLoad(labels, vec2u(frag_coord.xy), 0);
+                const uv = frag_coord.xy / vec2f(textureDimensions(image));
+                return textureSample(image, smooth, uv) * f32(label.x);
+            }
+        `).getFunctionOrThrow('shade'));
+        expect(wgsl).toContain('var labels : texture_2d<u32>;');
+        expect(wgsl).toContain('var image : texture_2d<f32>;');
+        expect(wgsl).toContain('return textureSample(image, smooth, uv) * f32(label.x);');
+    });
+
+    it('should pass textures and samplers to the runtime as arguments', () => {
+        const file = sourceFile(blur);
+        transformHost(file);
+        expect(file.getFullText()).toContain('runtime.dispatch(blur_wgsl, "blur", [input, output, bilinear, { radius }], workgroup_count, blur_wgsl_map, blur_wgsl_reflection, dispatch_options)');
+    });
+
+    it('should reject storage textures without a supported format', () => {
+        const error = catchError(() => generateWGSL(sourceFile(`
+            /** @kernel */
+            function main(output: StorageTexture2D<"bgra8unorm">) {
+                textureStore(output, vec2u(global_invocation_id.xy), vec4f(1.0, 0.0, 0.0, 1.0));
+            }
+        `).getFunctionOrThrow('main')));
+        expect(error.diagnostic.code).toBe('AS2003');
+        expect(error.message).toContain('Storage textures need one of the formats');
+    });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL, generateDeviceFunction } from '../wgsl-generator';
+
+describe('WGSL Generator - Type Inference', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    function compile(code: string, name: string) {
+        const sourceFile = project.createSourceFile('test.ts', code, { overwrite: true });
+        return generateWGSL(sourceFile.getFunctionOrThrow(name));
+    }
+
+    it('should cast an i32 operand mixed with a float literal to f32', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>, offset: i32) {
+                const x = offset + 1.5;
+            }
+        `, 'main');
+        expect(wgsl).toContain('let x = f32(main_uniforms.offset) + 1.5;');
+    });
+
+    it('should cast i32 to u32 when compared with a u32', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>, count: i32) {
+                const i = global_invocation_id.x;
+                if (i >= count) return;
+            }
+        `, 'main');
+        expect(wgsl).toContain('if (i >= u32(main_uniforms.count))');
+    });
+
+    it('should type struct fields and builtins', () => {
+        const wgsl = compile(`
+            interface Params {
+                numParticles: u32;
+                scale: f32;
+            }
+
+            /** @kernel */
+            function main(out: SharedArray<f32>, params: Params) {
+                const i = global_invocation_id.x;
+                if (i >= params.numParticles) return;
+                out[i] = params.scale * i;
+            }
+        `, 'main');
+        expect(wgsl).toContain('if (i >= params.numParticles)');
+        expect(wgsl).toContain('out[i] = params.scale * f32(i);');
+    });
+
+    it('should convert integer arguments of float math functions', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                const i = global_invocation_id.x;
+                out[i] = sqrt(i);
+            }
+        `, 'main');
+        expect(wgsl).toContain('sqrt(f32(i))');
+    });
+
+    it('should promote mixed arguments of generic math functions', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>, a: i32, b: f32) {
+                out[0] = max(a, b);
+            }
+        `, 'main');
+        expect(wgsl).toContain('out[0] = max(f32(main_uniforms.a), main_uniforms.b);');
+    });
+
+    it('should convert arguments to device function parameter types', () => {
+        const sourceFile = project.createSourceFile('test.ts', `
+            /** @device */
+            function scale(v: f32, s: f32): f32 {
+                return v * s;
+            }
+
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                const i = global_invocation_id.x;
+                out[i] = scale(i, 2.0);
+            }
+        `, { overwrite: true });
+        const wgsl = generateWGSL(sourceFile.getFunctionOrThrow('main'));
+        expect(wgsl).toContain('out[i] = scale(f32(i), 2.0);');
+    });
+
+    it('should convert the return value of a device function', () => {
+        const sourceFile = project.createSourceFile('test.ts', `
+            /** @device */
+            function toFloat(v: u32): f32 {
+                return v;
+            }
+        `, { overwrite: true });
+        const wgsl = generateDeviceFunction(sourceFile.getFunctionOrThrow('toFloat'));
+        expect(wgsl).toContain('return f32(v);');
+    });
+
+    it('should cast vector constructor components', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(out: SharedArray<vec2f>) {
+                const x = global_invocation_id.x;
+                const y = global_invocation_id.y;
+                out[x] = vec2f(x, y);
+            }
+        `, 'main');
+        expect(wgsl).toContain('out[x] = vec2f(f32(x), f32(y));');
+    });
+
+    it('should cast the component type of vectors', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(out: SharedArray<vec3f>) {
+                const id = global_invocation_id;
+                out[id.x] = out[id.x] + id.xyz;
+            }
+        `, 'main');
+        expect(wgsl).toContain('out[id.x] = out[id.x] + vec3<f32>(id.xyz);');
+    });
+
+    it('should emit strict equality as WGSL equality', () => {
+        const wgsl = compile(`
+            /** @kernel */
+            function main(out: SharedArray<u32>) {
+                const i = global_invocation_id.x;
+                if (i === 0 || i !== 3) return;
+            }
+        `, 'main');
+        expect(wgsl).toContain('if (i == 0u || i != 3u)');
+    });
+
+    it('should report an error with the line for lossy float to integer assignment', () => {
+        expect(() => compile(`
+            /** @kernel */
+            function main(out: SharedArray<i32>, scale: f32) {
+                let count: i32 = 0;
+                count = scale * 2.0;
+            }
+        `, 'main')).toThrow(/:5:25 - error AS2001: Cannot implicitly convert f32 to i32 in assignment/);
+    });
+
+    it('should report an error when mixing bool with numbers', () => {
+        expect(() => compile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>, flag: boolean) {
+                out[0] = flag + 1.0;
+            }
+        `, 'main')).toThrow(/:4:26 - error AS2001: Cannot implicitly convert bool to f32/);
+    });
+});
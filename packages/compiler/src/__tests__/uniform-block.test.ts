@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+import { transformHost } from '../host-transformer';
+import { collectDependencies } from '../dependencies';
+import { reflectShader } from '../reflection';
+
+describe('Kernel uniform block', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    const code = `
+interface Params {
+    gravity: vec4f;
+}
+
+/** @kernel */
+function advance(positions: SharedArray<vec4f>, dt: f32, params: Params, center: vec3f, count: u32) {
+    const i = global_invocation_id.x;
+    if (i >= count) return;
+    positions[i] = positions[i] + vec4f(center * dt, 0.0) + params.gravity * dt;
+}
+`;
+
+    function kernel() {
+        return project.createSourceFile('/Advance.tsx', code, { overwrite: true }).getFunctionOrThrow('advance');
+    }
+
+    it('should pack scalar and vector parameters into one struct bound at the first of them', () => {
+        const wgsl = generateWGSL(kernel());
+        expect(wgsl).toContain('struct advance_Uniforms {\n    dt : f32,\n    center : vec3<f32>,\n    count : u32\n}');
+        expect(wgsl).toContain('@group(0) @binding(0) var<storage, read_write> positions : array<vec4<f32>>;');
+        expect(wgsl).toContain('@group(0) @binding(1) var<uniform> advance_uniforms : advance_Uniforms;');
+        expect(wgsl).toContain('@group(0) @binding(2) var<uniform> params : Params;');
+        expect(wgsl).toContain('if (i >= advance_uniforms.count)');
+        expect(wgsl).toContain('vec4f(advance_uniforms.center * advance_uniforms.dt, 0.0) + params.gravity * advance_uniforms.dt');
+    });
+
+    it('should describe the layout of the packed struct', () => {
+        const func = kernel();
+        const { bindings, structs } = reflectShader(func, collectDependencies(func));
+        expect(bindings.map(b => [b.name, b.binding, b.type])).toEqual([
+            ['positions', 0, 'array<vec4<f32>>'],
+            ['advance_uniforms', 1, 'advance_Uniforms'],
+            ['params', 2, 'Params'],
+        ]);
+        expect(structs.advance_Uniforms.fields.map(f => [f.name, f.offset])).toEqual([['dt', 0], ['center', 16], ['count', 28]]);
+        expect(structs.advance_Uniforms.size).toBe(32);
+    });
+
+    it('should pass the packed parameters to the runtime as one object', () => {
+        const sourceFile = project.createSourceFile('/Advance.tsx', code, { overwrite: true });
+        transformHost(sourceFile);
+        expect(sourceFile.getFullText()).toContain('runtime.dispatch(advance_wgsl, "advance", [positions, { dt, center, count }, params], workgroup_count, advance_wgsl_map, advance_wgsl_reflection, dispatch_options)');
+    });
+
+    it('should keep parameters of vertex and fragment shaders in their own bindings', () => {
+        const wgsl = generateWGSL(project.createSourceFile('/Fragment.tsx', `
+            /** @fragment */
+            function shade(brightness: f32) {
+                return vec4f(brightness, brightness, brightness, 1.0);
+            }
+        `, { overwrite: true }).getFunctionOrThrow('shade'));
+        expect(wgsl).toContain('@group(0) @binding(0) var<uniform> brightness : f32;');
+    });
+});
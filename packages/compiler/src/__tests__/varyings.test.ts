@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+import { collectDependencies } from '../dependencies';
+import { reflectShader } from '../reflection';
+import { CompileError } from '../diagnostics';
+
+describe('Varyings', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    function sourceFile(code: string) {
+        return project.createSourceFile('/Varyings.tsx', code, { overwrite: true });
+    }
+
+    function catchError(fn: () => unknown): CompileError {
+        try {
+            fn();
+        } catch (error) {
+            if (error instanceof CompileError) return error;
+            throw error;
+        }
+        throw new Error('Expected a CompileError');
+    }
+
+    const triangle = `
+        interface VSOut {
+            position: vec4f;
+            color: vec4f;
+            uv: vec2f;
+            id: u32;
+        }
+
+        /** @vertex */
+        function vert(scale: f32): VSOut {
+            const x = f32(vertex_index) - 1.0;
+            return { position: vec4f(x * scale, 0.0, 0.0, 1.0), color: vec4f(1.0, 0.0, 0.0, 1.0), uv: vec2f(x, 0.0), id: vertex_index };
+        }
+
+        /** @fragment */
+        function frag(input: VSOut, tint: vec4f) {
+            return input.color * tint + vec4f(input.uv, f32(input.id), 0.0);
+        }
+    `;
+
+    it('should return the varyings struct from the vertex shader with IO attributes', () => {
+        const wgsl = generateWGSL(sourceFile(triangle).getFunctionOrThrow('vert'));
+        expect(wgsl).toContain([
+            'struct VSOut {',
+            '    @builtin(position) position : vec4<f32>,',
+            '    @location(0) color : vec4<f32>,',
+            '    @location(1) uv : vec2<f32>,',
+            '    @location(2) @interpolate(flat) id : u32',
+            '}',
+        ].join('\n'));
+        expect(wgsl).toContain('fn vert(@builtin(vertex_index) vertex_index : u32) -> VSOut {');
+        expect(wgsl).toContain('return VSOut(vec4f(x * scale, 0.0, 0.0, 1.0), vec4f(1.0, 0.0, 0.0, 1.0), vec2f(x, 0.0), vertex_index);');
+    });
+
+    it('should pass the varyings struct to the fragment shader instead of binding it', () => {
+        const func = sourceFile(triangle).getFunctionOrThrow('frag');
+        const wgsl = generateWGSL(func);
+        expect(wgsl).toContain('@location(0) color : vec4<f32>,');
+        expect(wgsl).toContain('fn frag(input : VSOut) -> @location(0) vec4<f32> {');
+        expect(wgsl).toContain('@group(0) @binding(0) var<uniform> tint : vec4<f32>;');
+        expect(wgsl).not.toContain('var<uniform> input');
+        expect(reflectShader(func, collectDependencies(func)).bindings.map(b => b.name)).toEqual(['tint']);
+    });
+
+    it('should keep the position output of vertex shaders returning a vector', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            /** @vertex */
+            function vert() {
+                return vec4f(0.0, 0.0, 0.0, 1.0);
+            }
+        `).getFunctionOrThrow('vert'));
+        expect(wgsl).toContain('fn vert(@builtin(vertex_index) vertex_index : u32) -> @builtin(position) vec4<f32> {');
+    });
+
+    it('should require a position field', () => {
+        const error = catchError(() => generateWGSL(sourceFile(`
+            interface VSOut {
+                color: vec4f;
+            }
+
+            /** @vertex */
+            function vert(): VSOut {
+                return { color: vec4f(1.0, 1.0, 1.0, 1.0) };
+            }
+        `).getFunctionOrThrow('vert')));
+        expect(error.diagnostic.code).toBe('AS2009');
+        expect(error.message).toContain("Varyings 'VSOut' need a 'position: vec4f' field");
+    });
+
+    it('should reject fields that stages cannot pass', () => {
+        const error = catchError(() => generateWGSL(sourceFile(`
+            interface VSOut {
+                position: vec4f;
+                visible: boolean;
+            }
+
+            /** @vertex */
+            function vert(): VSOut {
+                return { position: vec4f(0.0, 0.0, 0.0, 1.0), visible: true };
+            }
+        `).getFunctionOrThrow('vert')));
+        expect(error.message).toContain("Field 'visible' of varyings 'VSOut' is bool, but stages can only pass numeric scalars and vectors");
+    });
+});
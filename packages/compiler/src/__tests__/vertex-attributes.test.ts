@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+import { collectDependencies } from '../dependencies';
+import { reflectShader } from '../reflection';
+import { CompileError } from '../diagnostics';
+
+describe('Vertex attributes', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    function sourceFile(code: string) {
+        return project.createSourceFile('/Attributes.tsx', code, { overwrite: true });
+    }
+
+    function catchError(fn: () => unknown): CompileError {
+        try {
+            fn();
+        } catch (error) {
+            if (error instanceof CompileError) return error;
+            throw error;
+        }
+        throw new Error('Expected a CompileError');
+    }
+
+    const mesh = `
+        interface VSOut {
+            position: vec4f;
+            color: vec3f;
+        }
+
+        /** @vertex */
+        function vert(
+            /** @attribute */ position: vec3f,
+            /** @attribute */ color: vec3f,
+            /** @attribute */ id: u32,
+            scale: f32
+        ): VSOut {
+            return { position: vec4f(position * scale, 1.0), color: color * f32(id) };
+        }
+    `;
+
+    it('should read attributes from vertex buffers at their locations', () => {
+        const wgsl = generateWGSL(sourceFile(mesh).getFunctionOrThrow('vert'));
+        expect(wgsl).toContain('fn vert(@builtin(vertex_index) vertex_index : u32, @location(0) position : vec3<f32>, @location(1) color : vec3<f32>, @location(2) id : u32) -> VSOut {');
+        expect(wgsl).toContain('@group(0) @binding(0) var<uniform> scale : f32;');
+        expect(wgsl).not.toContain('var<uniform> position');
+    });
+
+    it('should describe attribute formats and strides for the runtime', () => {
+        const func = sourceFile(mesh).getFunctionOrThrow('vert');
+        const reflection = reflectShader(func, collectDependencies(func));
+        expect(reflection.bindings.map(b => b.name)).toEqual(['scale']);
+        expect(reflection.attributes).toEqual([
+            { name: 'position', location: 0, format: 'float32x3', stride: 16, type: 'vec3<f32>' },
+            { name: 'color', location: 1, format: 'float32x3', stride: 16, type: 'vec3<f32>' },
+            { name: 'id', location: 2, format: 'uint32', stride: 4, type: 'u32' },
+        ]);
+    });
+
+    it('should only accept attributes in vertex shaders', () => {
+        const error = catchError(() => generateWGSL(sourceFile(`
+            /** @fragment */
+            function frag(/** @attribute */ color: vec4f) {
+                return color;
+            }
+        `).getFunctionOrThrow('frag')));
+        expect(error.diagnostic.code).toBe('AS2009');
+        expect(error.diagnostic.message).toBe("Parameter 'color' is an @attribute, which only vertex shaders take");
+    });
+
+    it('should reject attributes that vertex buffers cannot hold', () => {
+        const error = catchError(() => generateWGSL(sourceFile(`
+            /** @vertex */
+            function vert(/** @attribute */ visible: boolean) {
+                return vec4f(0.0, 0.0, 0.0, 1.0);
+            }
+        `).getFunctionOrThrow('vert')));
+        expect(error.diagnostic.code).toBe('AS2009');
+        expect(error.message).toContain("Attribute 'visible' is bool, but vertex buffers hold numeric scalars and vectors");
+    });
+});
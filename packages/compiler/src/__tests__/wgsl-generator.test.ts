@@ -18,7 +18,7 @@ describe('WGSL Generator', () => {
             }
         `);
         const wgsl = generateWGSL(func);
-        expect(wgsl).toContain('return a + b;');
+        expect(wgsl).toContain('return add_uniforms.a + add_uniforms.b;');
     });
 
     it('should handle if statements', () => {
@@ -33,7 +33,7 @@ describe('WGSL Generator', () => {
             }
         `);
         const wgsl = generateWGSL(func);
-        expect(wgsl).toContain('if (x > 0) {');
+        expect(wgsl).toContain('if (test_uniforms.x > 0.0) {');
         expect(wgsl).toContain('return 1.0;');
         expect(wgsl).toContain('} else {');
         expect(wgsl).toContain('return 0.0;');
@@ -47,7 +47,7 @@ describe('WGSL Generator', () => {
             }
         `);
         const wgsl = generateWGSL(func);
-        expect(wgsl).toContain('return -x;');
+        expect(wgsl).toContain('return -neg_uniforms.x;');
     });
 
     it('should handle built-in functions', () => {
@@ -58,7 +58,7 @@ describe('WGSL Generator', () => {
             }
         `);
         const wgsl = generateWGSL(func);
-        expect(wgsl).toContain('sqrt(x * x + y * y)');
+        expect(wgsl).toContain('sqrt(dist_uniforms.x * dist_uniforms.x + dist_uniforms.y * dist_uniforms.y)');
     });
 
     it('should generate vertex shader signature', () => {
@@ -83,8 +83,7 @@ describe('WGSL Generator', () => {
         `);
         const wgsl = generateWGSL(func);
         expect(wgsl).toContain('@fragment');
-        expect(wgsl).toContain('@builtin(position) pos : vec4<f32>');
-        expect(wgsl).toContain('-> @location(0) vec4<f32>');
+        expect(wgsl).toContain('fn frag() -> @location(0) vec4<f32> {');
     });
     it('should handle custom workgroup_size', () => {
         const func = getFunction(`
@@ -121,10 +120,9 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('@group(0) @binding(0) var<storage, read_write> a : array<f32>;');
-        expect(result).toContain('@group(0) @binding(1) var<uniform> width : u32;');
-        expect(result).toContain('@group(0) @binding(2) var<uniform> height : i32;');
-        expect(result).toContain('@group(0) @binding(3) var<uniform> factor : f32;');
+        expect(result).toContain('@group(0) @binding(0) var<storage, read> a : array<f32>;');
+        expect(result).toContain('struct compute_Uniforms {\n    width : u32,\n    height : i32,\n    factor : f32\n}');
+        expect(result).toContain('@group(0) @binding(1) var<uniform> compute_uniforms : compute_Uniforms;');
     });
 
     it('should generate struct definitions and bindings', () => {
@@ -149,7 +147,7 @@ describe('WGSL Generator', () => {
         expect(result).toContain('time : f32');
 
         // Check bindings
-        expect(result).toContain('@group(0) @binding(0) var<storage, read_write> image : array<f32>;');
+        expect(result).toContain('@group(0) @binding(0) var<storage, read> image : array<f32>;');
         expect(result).toContain('@group(0) @binding(1) var<uniform> params : Params;');
     });
 
@@ -161,8 +159,8 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('@group(0) @binding(1) var<uniform> v2 : vec2<f32>;');
-        expect(result).toContain('@group(0) @binding(2) var<uniform> v3 : vec3<f32>;');
+        expect(result).toContain('    v2 : vec2<f32>,\n    v3 : vec3<f32>\n}');
+        expect(result).toContain('@group(0) @binding(1) var<uniform> compute_uniforms : compute_Uniforms;');
     });
 
     it('should handle Int32Array and Uint32Array', () => {
@@ -173,8 +171,8 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('@group(0) @binding(0) var<storage, read_write> ints : array<i32>;');
-        expect(result).toContain('@group(0) @binding(1) var<storage, read_write> uints : array<u32>;');
+        expect(result).toContain('@group(0) @binding(0) var<storage, read> ints : array<i32>;');
+        expect(result).toContain('@group(0) @binding(1) var<storage, read> uints : array<u32>;');
     });
 
     it('should handle empty function body', () => {
@@ -220,9 +218,8 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('@group(0) @binding(0) var<uniform> m2 : mat2x2<f32>;');
-        expect(result).toContain('@group(0) @binding(1) var<uniform> m3 : mat3x3<f32>;');
-        expect(result).toContain('@group(0) @binding(2) var<uniform> m4 : mat4x4<f32>;');
+        expect(result).toContain('    m2 : mat2x2<f32>,\n    m3 : mat3x3<f32>,\n    m4 : mat4x4<f32>\n}');
+        expect(result).toContain('@group(0) @binding(0) var<uniform> compute_uniforms : compute_Uniforms;');
     });
 
     it('should handle matrix multiplication', () => {
@@ -233,7 +230,7 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('return m * pos;');
+        expect(result).toContain('return transform_uniforms.m * transform_uniforms.pos;');
     });
 
     it('should handle for loops', () => {
@@ -262,7 +259,7 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('return vec2(v.x, v.y);');
+        expect(result).toContain('return vec2(swizzle_uniforms.v.x, swizzle_uniforms.v.y);');
     });
 
     // Switch statement tests
@@ -286,12 +283,12 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('switch (value) {');
-        expect(result).toContain('case 0: {');
+        expect(result).toContain('switch (testSwitch_uniforms.value) {');
+        expect(result).toContain('case 0u: {');
         expect(result).toContain('result = 10;');
-        expect(result).toContain('case 1: {');
+        expect(result).toContain('case 1u: {');
         expect(result).toContain('result = 20;');
-        expect(result).toContain('case 2: {');
+        expect(result).toContain('case 2u: {');
         expect(result).toContain('result = 30;');
     });
 
@@ -315,7 +312,7 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('switch (value) {');
+        expect(result).toContain('switch (testSwitchDefault_uniforms.value) {');
         expect(result).toContain('case 0: {');
         expect(result).toContain('case 1: {');
         expect(result).toContain('default: {');
@@ -341,11 +338,11 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('switch (value) {');
-        expect(result).toContain('case 0: {');
+        expect(result).toContain('switch (testSwitchBreak_uniforms.value) {');
+        expect(result).toContain('case 0u: {');
         expect(result).toContain('result = 1;');
         expect(result).toContain('break;');
-        expect(result).toContain('case 1: {');
+        expect(result).toContain('case 1u: {');
     });
 
     it('should handle nested switch statements', () => {
@@ -372,9 +369,9 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('switch (a) {');
-        expect(result).toContain('switch (b) {');
-        expect(result).toContain('case 0: {');
+        expect(result).toContain('switch (testNestedSwitch_uniforms.a) {');
+        expect(result).toContain('switch (testNestedSwitch_uniforms.b) {');
+        expect(result).toContain('case 0u: {');
         expect(result).toContain('result = 1;');
     });
 
@@ -396,10 +393,10 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('switch (value) {');
-        expect(result).toContain('case 0: {');
+        expect(result).toContain('switch (testSwitchReturn_uniforms.value) {');
+        expect(result).toContain('case 0u: {');
         expect(result).toContain('return 10;');
-        expect(result).toContain('case 1: {');
+        expect(result).toContain('case 1u: {');
         expect(result).toContain('return 20;');
         expect(result).toContain('default: {');
         expect(result).toContain('return 0;');
@@ -424,11 +421,11 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('switch (value) {');
-        expect(result).toContain('case 0: {');
+        expect(result).toContain('switch (testSwitchVars_uniforms.value) {');
+        expect(result).toContain('case 0u: {');
         expect(result).toContain('let temp = 5;');
         expect(result).toContain('result = temp * 2;');
-        expect(result).toContain('case 1: {');
+        expect(result).toContain('case 1u: {');
         expect(result).toContain('var temp2 = 10;');
     });
 
@@ -442,7 +439,7 @@ describe('WGSL Generator', () => {
             }
                 `);
         const result = generateWGSL(func);
-        expect(result).toContain('let result = select(0.0, 1.0, x > 0);');
+        expect(result).toContain('let result = select(0.0, 1.0, testTernary_uniforms.x > 0.0);');
     });
 
     it('should handle ternary with expressions', () => {
@@ -454,7 +451,7 @@ describe('WGSL Generator', () => {
             }
                 `);
         const result = generateWGSL(func);
-        expect(result).toContain('let result = select(b * 2, a * 2, a > b);');
+        expect(result).toContain('let result = select(testTernaryExpr_uniforms.b * 2.0, testTernaryExpr_uniforms.a * 2.0, testTernaryExpr_uniforms.a > testTernaryExpr_uniforms.b);');
     });
 
     it('should handle nested ternary operators', () => {
@@ -466,7 +463,7 @@ describe('WGSL Generator', () => {
             }
                 `);
         const result = generateWGSL(func);
-        expect(result).toContain('let result = select(3, (select(2, 1, y > 0)), x > 0);');
+        expect(result).toContain('let result = select(3, (select(2, 1, testNestedTernary_uniforms.y > 0.0)), testNestedTernary_uniforms.x > 0.0);');
     });
 
     it('should handle ternary in return statement', () => {
@@ -477,7 +474,7 @@ describe('WGSL Generator', () => {
             }
                 `);
         const result = generateWGSL(func);
-        expect(result).toContain('return select(b, a, condition);');
+        expect(result).toContain('return select(testTernaryReturn_uniforms.b, testTernaryReturn_uniforms.a, testTernaryReturn_uniforms.condition);');
     });
 
     it('should handle ternary with function calls', () => {
@@ -489,7 +486,7 @@ describe('WGSL Generator', () => {
             }
                 `);
         const result = generateWGSL(func);
-        expect(result).toContain('let result = select(abs(y), sqrt(x), flag);');
+        expect(result).toContain('let result = select(abs(testTernaryFuncs_uniforms.y), sqrt(testTernaryFuncs_uniforms.x), testTernaryFuncs_uniforms.flag);');
     });
 
     it('should handle ternary in assignment (min function)', () => {
@@ -502,7 +499,7 @@ describe('WGSL Generator', () => {
             }
                 `);
         const result = generateWGSL(func);
-        expect(result).toContain('result = select(b, a, a < b);');
+        expect(result).toContain('result = select(testTernaryAssign_uniforms.b, testTernaryAssign_uniforms.a, testTernaryAssign_uniforms.a < testTernaryAssign_uniforms.b);');
     });
 
     // While loop tests
@@ -534,9 +531,9 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('while (x > 0 && y < 100) {');
-        expect(result).toContain('x--;');
-        expect(result).toContain('y++;');
+        expect(result).toContain('while (testWhileComplex_uniforms.x > 0.0 && testWhileComplex_uniforms.y < 100.0) {');
+        expect(result).toContain('testWhileComplex_uniforms.x--;');
+        expect(result).toContain('testWhileComplex_uniforms.y++;');
     });
 
     it('should handle while with break', () => {
@@ -607,8 +604,8 @@ describe('WGSL Generator', () => {
         `);
         const result = generateWGSL(func);
         expect(result).toContain('loop {');
-        expect(result).toContain('x--;');
-        expect(result).toContain('if (!(x > 0 && x < 100)) {');
+        expect(result).toContain('testDoWhileComplex_uniforms.x--;');
+        expect(result).toContain('if (!(testDoWhileComplex_uniforms.x > 0.0 && testDoWhileComplex_uniforms.x < 100.0)) {');
     });
 
     it('should handle do-while with break', () => {
@@ -714,7 +711,7 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('@group(0) @binding(0) var<storage, read_write> data : array<vec2<f32>>;');
+        expect(result).toContain('@group(0) @binding(0) var<storage, read> data : array<vec2<f32>>;');
     });
 
     it('should handle SharedArray<f32>', () => {
@@ -725,7 +722,7 @@ describe('WGSL Generator', () => {
             }
         `);
         const result = generateWGSL(func);
-        expect(result).toContain('@group(0) @binding(0) var<storage, read_write> data : array<f32>;');
+        expect(result).toContain('@group(0) @binding(0) var<storage, read> data : array<f32>;');
     });
 
     it('should generate device function', () => {
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { generateWGSL } from '../wgsl-generator';
+import { transformHost } from '../host-transformer';
+import { CompileError } from '../diagnostics';
+
+describe('Workgroup memory', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+
+    function sourceFile(code: string) {
+        return project.createSourceFile('/Workgroup.tsx', code, { overwrite: true });
+    }
+
+    function catchError(fn: () => unknown): CompileError {
+        try {
+            fn();
+        } catch (error) {
+            if (error instanceof CompileError) return error;
+            throw error;
+        }
+        throw new Error('Expected a CompileError');
+    }
+
+    it('should declare workgroup arrays and pass the local built-ins the kernel uses', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            const TILE = 64;
+
+            /** @workgroup */
+            const partial = new WorkgroupArray(f32, TILE);
+
+            /**
+             * @kernel
+             * @workgroup_size 64
+             */
+            function reduce(input: SharedArray<f32>, output: SharedArray<f32>) {
+                const lid = local_invocation_index;
+                partial[lid] = input[global_invocation_id.x];
+                workgroupBarrier();
+                for (let stride = TILE / 2; stride > 0; stride = stride / 2) {
+                    if (lid < stride) {
+                        partial[lid] += partial[lid + stride];
+                    }
+                    workgroupBarrier();
+                }
+                if (lid == 0) {
+                    output[workgroup_id.x] = partial[0];
+                }
+            }
+        `).getFunctionOrThrow('reduce'));
+        expect(wgsl).toContain('const TILE = 64;');
+        expect(wgsl).toContain('var<workgroup> partial : array<f32, TILE>;');
+        expect(wgsl).toContain('fn reduce(@builtin(global_invocation_id) global_invocation_id : vec3<u32>, @builtin(local_invocation_index) local_invocation_index : u32, @builtin(workgroup_id) workgroup_id : vec3<u32>)');
+        expect(wgsl).toContain('workgroupBarrier();');
+        expect(wgsl).toContain('output[workgroup_id.x] = partial[0];');
+        expect(wgsl).not.toContain('local_invocation_id :');
+        expect(wgsl).not.toContain('num_workgroups');
+    });
+
+    it('should only pass global_invocation_id to kernels that use no other built-in', () => {
+        const wgsl = generateWGSL(sourceFile(`
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                const workgroup_id = 1.0;
+                out[global_invocation_id.x] = workgroup_id;
+            }
+        `).getFunctionOrThrow('main'));
+        expect(wgsl).toContain('fn main(@builtin(global_invocation_id) global_invocation_id : vec3<u32>)');
+    });
+
+    it('should support atomics and structs in workgroup memory, used from device functions', () => {
+        const file = sourceFile(`
+            interface Bin {
+                total: f32;
+                count: u32;
+            }
+
+            /** @workgroup */
+            const counts = new WorkgroupArray<Atomic<u32>>(u32, 16);
+
+            /** @workgroup */
+            const bins = new WorkgroupArray(Bin, 16);
+
+            /** @workgroup */
+            let done: Atomic<u32>;
+
+            /** @device */
+            function count(bin: u32) {
+                atomicAdd(counts[bin], 1);
+            }
+
+            /** @kernel */
+            function histogram(values: SharedArray<u32>, out: SharedArray<u32>) {
+                count(values[global_invocation_id.x] % 16);
+                bins[local_invocation_id.x % 16].total = 1.0;
+                storageBarrier();
+                workgroupBarrier();
+                out[local_invocation_id.x] = atomicLoad(counts[local_invocation_id.x % 16]) + atomicLoad(done);
+            }
+        `);
+        const wgsl = generateWGSL(file.getFunctionOrThrow('histogram'));
+        expect(wgsl).toContain('struct Bin {');
+        expect(wgsl).toContain('var<workgroup> counts : array<atomic<u32>, 16>;');
+        expect(wgsl).toContain('var<workgroup> bins : array<Bin, 16>;');
+        expect(wgsl).toContain('var<workgroup> done : atomic<u32>;');
+        expect(wgsl).toContain('storageBarrier();');
+        expect(wgsl).toContain('@builtin(local_invocation_id) local_invocation_id : vec3<u32>');
+
+        transformHost(file);
+        expect(file.getVariableDeclarationOrThrow('histogram_wgsl').getInitializerOrThrow().getText()).toContain('atomicAdd(&counts[bin], 1u);');
+    });
+
+    it('should reject initialized workgroup variables', () => {
+        const error = catchError(() => generateWGSL(sourceFile(`
+            /** @workgroup */
+            const scratch = [0.0, 0.0];
+
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                out[0] = scratch[0];
+            }
+        `).getFunctionOrThrow('main')));
+        expect(error.message).toContain("Workgroup variable 'scratch' cannot be initialized");
+    });
+
+    it('should remove workgroup variables from host code', () => {
+        const file = sourceFile(`
+            /** @workgroup */
+            const tile = new WorkgroupArray(f32, 64);
+
+            /** @kernel */
+            function main(out: SharedArray<f32>) {
+                tile[local_invocation_index] = 1.0;
+                workgroupBarrier();
+                out[global_invocation_id.x] = tile[0];
+            }
+        `);
+        transformHost(file);
+        expect(file.getVariableDeclaration('tile')).toBeUndefined();
+        expect(file.getFullText()).toContain('var<workgroup> tile : array<f32, 64>;');
+    });
+});
@@ -0,0 +1,220 @@
+/**
+ * Signatures of the WGSL built-ins declared in the runtime's types.ts, used by the typing pass
+ */
+
+/**
+ * How the arguments of a built-in are unified:
+ * - "float": every argument is converted to f32 components
+ * - "numeric": arguments are promoted to their common component type
+ * - "atomic": the first argument is an atomic, the rest are converted to its inner type
+ * - "texture": the first argument is a texture, the rest are passed through unchanged
+ * - "none": arguments are passed through unchanged
+ */
+export type BuiltinArgs = "float" | "numeric" | "atomic" | "texture" | "none";
+
+/**
+ * Result type of a built-in:
+ * - "arg": the unified type of the first argument
+ * - "component": the scalar component type of the first argument
+ * - "atomic": the inner type of the atomic passed as first argument
+ * - "texel": a vec4 of the texel type of the texture passed as first argument
+ * - any other string is a fixed WGSL type, "void" when nothing is returned
+ * - undefined when the result type is not modelled
+ */
+export type BuiltinResult = "arg" | "component" | "atomic" | "texel" | string | undefined;
+
+export type ShaderStage = "compute" | "vertex" | "fragment";
+
+export interface BuiltinFunction {
+    args: BuiltinArgs;
+    result: BuiltinResult;
+    // Only shaders of this stage can call the built-in
+    stage?: ShaderStage;
+}
+
+const float: BuiltinFunction = { args: "float", result: "arg" };
+const numeric: BuiltinFunction = { args: "numeric", result: "arg" };
+const floatToScalar: BuiltinFunction = { args: "float", result: "component" };
+const integer: BuiltinFunction = { args: "none", result: "arg" };
+const atomic: BuiltinFunction = { args: "atomic", result: "atomic" };
+const derivative: BuiltinFunction = { args: "float", result: "arg", stage: "fragment" };
+
+export const BUILTIN_FUNCTIONS: Record<string, BuiltinFunction> = {
+    // Common
+    abs: numeric,
+    ceil: float,
+    clamp: numeric,
+    floor: float,
+    fract: float,
+    max: numeric,
+    min: numeric,
+    mix: float,
+    modf: { args: "float", result: undefined },
+    round: float,
+    saturate: float,
+    sign: numeric,
+    smoothstep: float,
+    step: float,
+    trunc: float,
+
+    // Trigonometry
+    acos: float,
+    acosh: float,
+    asin: float,
+    asinh: float,
+    atan: float,
+    atan2: float,
+    atanh: float,
+    cos: float,
+    cosh: float,
+    degrees: float,
+    radians: float,
+    sin: float,
+    sinh: float,
+    tan: float,
+    tanh: float,
+
+    // Exponential & logarithmic
+    exp: float,
+    exp2: float,
+    log: float,
+    log2: float,
+    pow: float,
+    sqrt: float,
+    inverseSqrt: float,
+
+    // Geometric
+    cross: float,
+    distance: floatToScalar,
+    dot: { args: "numeric", result: "component" },
+    faceForward: float,
+    length: floatToScalar,
+    normalize: float,
+    reflect: float,
+    refract: float,
+
+    // Matrix
+    determinant: floatToScalar,
+    transpose: float,
+
+    // Bits & integers
+    countLeadingZeros: integer,
+    countOneBits: integer,
+    countTrailingZeros: integer,
+    extractBits: integer,
+    extractBitsU: integer,
+    firstLeadingBit: integer,
+    firstLeadingBitU: integer,
+    firstTrailingBit: integer,
+    insertBits: integer,
+    insertBitsU: integer,
+    reverseBits: integer,
+
+    // Other
+    dot4U8Packed: { args: "none", result: "u32" },
+    dot4I8Packed: { args: "none", result: "i32" },
+    fma: float,
+    frexp: { args: "float", result: undefined },
+    ldexp: { args: "none", result: "arg" },
+    quantizeToF16: float,
+
+    // Synchronization
+    workgroupBarrier: { args: "none", result: "void" },
+    storageBarrier: { args: "none", result: "void" },
+
+    // Fragment shaders
+    discard: { args: "none", result: "void", stage: "fragment" },
+    dpdx: derivative,
+    dpdxCoarse: derivative,
+    dpdxFine: derivative,
+    dpdy: derivative,
+    dpdyCoarse: derivative,
+    dpdyFine: derivative,
+    fwidth: derivative,
+    fwidthCoarse: derivative,
+    fwidthFine: derivative,
+
+    // Textures
+    textureSample: { args: "texture", result: "vec4<f32>", stage: "fragment" },
+    textureSampleLevel: { args: "texture", result: "vec4<f32>" },
+    textureLoad: { args: "texture", result: "texel" },
+    textureStore: { args: "texture", result: "void" },
+    textureDimensions: { args: "texture", result: "vec2<u32>" },
+
+    // Atomics
+    atomicLoad: atomic,
+    atomicStore: { args: "atomic", result: "void" },
+    atomicAdd: atomic,
+    atomicSub: atomic,
+    atomicMax: atomic,
+    atomicMin: atomic,
+    atomicAnd: atomic,
+    atomicOr: atomic,
+    atomicXor: atomic,
+    atomicExchange: atomic,
+    atomicCompareExchangeWeak: { args: "atomic", result: undefined },
+};
+
+/**
+ * Type constructors and the WGSL type they produce
+ */
+export const TYPE_CONSTRUCTORS: Record<string, string> = {
+    f32: "f32",
+    i32: "i32",
+    u32: "u32",
+    bool: "bool",
+    vec2: "vec2<f32>",
+    vec3: "vec3<f32>",
+    vec4: "vec4<f32>",
+    vec2f: "vec2<f32>",
+    vec3f: "vec3<f32>",
+    vec4f: "vec4<f32>",
+    vec2i: "vec2<i32>",
+    vec3i: "vec3<i32>",
+    vec4i: "vec4<i32>",
+    vec2u: "vec2<u32>",
+    vec3u: "vec3<u32>",
+    vec4u: "vec4<u32>",
+    mat2x2: "mat2x2<f32>",
+    mat3x3: "mat3x3<f32>",
+    mat4x4: "mat4x4<f32>",
+    mat2x2f: "mat2x2<f32>",
+    mat3x3f: "mat3x3<f32>",
+    mat4x4f: "mat4x4<f32>",
+};
+
+/**
+ * Shader built-in variables and their WGSL types
+ */
+export const BUILTIN_VARIABLES: Record<string, string> = {
+    global_invocation_id: "vec3<u32>",
+    global_id: "vec3<u32>",
+    local_invocation_id: "vec3<u32>",
+    local_invocation_index: "u32",
+    workgroup_id: "vec3<u32>",
+    num_workgroups: "vec3<u32>",
+    vertex_index: "u32",
+    instance_index: "u32",
+    frag_coord: "vec4<f32>",
+    front_facing: "bool",
+    sample_index: "u32",
+    frag_depth: "f32",
+};
+
+/**
+ * Stage of the shaders that can use each built-in variable
+ */
+export const BUILTIN_VARIABLE_STAGES: Record<string, ShaderStage> = {
+    global_invocation_id: "compute",
+    global_id: "compute",
+    local_invocation_id: "compute",
+    local_invocation_index: "compute",
+    workgroup_id: "compute",
+    num_workgroups: "compute",
+    vertex_index: "vertex",
+    instance_index: "vertex",
+    frag_coord: "fragment",
+    front_facing: "fragment",
+    sample_index: "fragment",
+    frag_depth: "fragment",
+};
@@ -0,0 +1,123 @@
+import { FunctionDeclaration, Node, SyntaxKind, VariableDeclaration, InterfaceDeclaration, TypeAliasDeclaration } from "ts-morph";
+import { compileError, DiagnosticCode } from "./diagnostics";
+import { EnumLike, getWorkgroupSize, isDeviceFunction, isEnumLike, isModuleConstant, isProgramFile, isWorkgroupVariable, resolveEnum, resolveIdentifier, resolveStruct } from "./modules";
+import { isStructType } from "./wgsl-types";
+
+/**
+ * Declarations reachable from a shader entry point. Each list is in dependency order:
+ * a declaration comes after the ones it uses
+ */
+export interface ShaderDependencies {
+    deviceFunctions: FunctionDeclaration[];
+    structs: Map<string, InterfaceDeclaration | TypeAliasDeclaration>;
+    // Enums and `as const` objects, whose members become constants
+    enums: EnumLike[];
+    constants: VariableDeclaration[];
+    // Module-scope @workgroup variables, emitted as var<workgroup>
+    workgroupVariables: VariableDeclaration[];
+}
+
+/**
+ * Collect the structs referenced by the type annotations under a node, after the structs their own fields use
+ * @param visited Declarations already collected or being collected
+ */
+export function collectStructs(
+    node: Node,
+    structs: ShaderDependencies["structs"] = new Map(),
+    visited = new Set<Node>()
+): ShaderDependencies["structs"] {
+    for (const ref of node.getDescendantsOfKind(SyntaxKind.TypeReference)) {
+        const name = ref.getTypeName().getText();
+        if (ref.getTypeArguments().length > 0 || !isStructType(name)) continue;
+        if (resolveEnum(ref.getSourceFile(), name)) continue;
+
+        const struct = resolveStruct(ref.getSourceFile(), name);
+        if (!struct) {
+            throw compileError(ref, DiagnosticCode.UnknownType, `Could not find a definition for struct '${name}'`);
+        }
+        if (visited.has(struct)) {
+            // Visited but not collected yet: the struct is one of the structs being collected
+            if (![...structs.values()].includes(struct)) {
+                throw compileError(ref, DiagnosticCode.InvalidLayout, `Struct '${name}' contains itself`);
+            }
+            continue;
+        }
+        visited.add(struct);
+        collectStructs(struct, structs, visited);
+        structs.set(name, struct);
+    }
+    return structs;
+}
+
+/**
+ * Walk the call graph of a kernel, vertex or fragment entry point and collect the @device functions,
+ * structs, enums, module-scope constants and workgroup variables it uses, directly or through the device functions it calls
+ */
+export function collectDependencies(entryPoint: FunctionDeclaration): ShaderDependencies {
+    const dependencies: ShaderDependencies = { deviceFunctions: [], structs: new Map(), enums: [], constants: [], workgroupVariables: [] };
+    const visited = new Set<Node>([entryPoint]);
+
+    const visitStructs = (node: Node) => collectStructs(node, dependencies.structs, visited);
+
+    // Struct named by a value, e.g. the element type in `new WorkgroupArray(Particle, 64)`
+    const visitStructValue = (node: Node) => {
+        const name = node.getText();
+        if (!Node.isIdentifier(node) || !isStructType(name) || dependencies.structs.has(name)) return;
+        const struct = resolveStruct(node.getSourceFile(), name);
+        if (!struct || visited.has(struct)) return;
+        visited.add(struct);
+        collectStructs(struct, dependencies.structs, visited);
+        dependencies.structs.set(name, struct);
+    };
+
+    const visitConstant = (decl: VariableDeclaration) => {
+        visited.add(decl);
+        const init = decl.getInitializer();
+        if (init) visitReferences(init);
+        dependencies.constants.push(decl);
+    };
+
+    // Calls to device functions and uses of module constants, after their own dependencies
+    const visitReferences = (node: Node) => {
+        for (const id of node.getDescendantsOfKind(SyntaxKind.Identifier)) {
+            const decl = resolveIdentifier(id);
+            if (!decl || visited.has(decl)) continue;
+
+            // Enums may come from declaration files, e.g. the runtime's PrimitiveType
+            if (isEnumLike(decl)) {
+                visited.add(decl);
+                dependencies.enums.push(decl);
+                continue;
+            }
+            if (!isProgramFile(decl.getSourceFile())) continue;
+
+            if (Node.isFunctionDeclaration(decl) && isDeviceFunction(decl)) {
+                visited.add(decl);
+                visitReferences(decl);
+                visitStructs(decl);
+                dependencies.deviceFunctions.push(decl);
+            } else if (Node.isVariableDeclaration(decl) && isWorkgroupVariable(decl)) {
+                visited.add(decl);
+                const init = decl.getInitializer();
+                if (init) {
+                    visitReferences(init);
+                    if (Node.isNewExpression(init)) init.getArguments().slice(0, 1).forEach(visitStructValue);
+                }
+                visitStructs(decl);
+                dependencies.workgroupVariables.push(decl);
+            } else if (Node.isVariableDeclaration(decl) && isModuleConstant(decl)) {
+                visitConstant(decl);
+            }
+        }
+    };
+
+    visitReferences(entryPoint);
+    visitStructs(entryPoint);
+
+    // Constants of the file sizing the workgroups of a kernel, e.g. `@workgroup_size BLOCK`
+    for (const name of getWorkgroupSize(entryPoint)?.match(/[A-Za-z_]\w*/g) ?? []) {
+        const decl = entryPoint.getSourceFile().getVariableDeclaration(name);
+        if (decl && isModuleConstant(decl) && !visited.has(decl)) visitConstant(decl);
+    }
+    return dependencies;
+}
@@ -0,0 +1,138 @@
+import { Node } from "ts-morph";
+
+/**
+ * Stable diagnostic codes. AS1xxx: syntax and annotations, AS2xxx: types, AS3xxx: host transformation
+ */
+export const DiagnosticCode = {
+    UnsupportedNode: "AS1001",
+    MissingShaderAnnotation: "AS1002",
+    UnnamedFunction: "AS1003",
+    TypeMismatch: "AS2001",
+    InvalidLiteral: "AS2002",
+    UnknownType: "AS2003",
+    ExplicitTypeRequired: "AS2004",
+    EmptyStruct: "AS2005",
+    InvalidLayout: "AS2006",
+    InvalidAccessMode: "AS2007",
+    BindingLimit: "AS2008",
+    InvalidStageInterface: "AS2009",
+    InvalidStageBuiltin: "AS2010",
+    InvalidWorkgroupCount: "AS3001",
+    CompilationFailed: "AS3002",
+} as const;
+
+export type DiagnosticCode = typeof DiagnosticCode[keyof typeof DiagnosticCode];
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export interface Diagnostic {
+    severity: DiagnosticSeverity;
+    code: DiagnosticCode;
+    message: string;
+    file: string;
+    line: number;
+    column: number;
+    frame: string;
+}
+
+/**
+ * Error thrown when compilation of a function cannot continue
+ */
+export class CompileError extends Error {
+    constructor(public readonly diagnostic: Diagnostic) {
+        super(formatDiagnostic(diagnostic, false));
+        this.name = "CompileError";
+    }
+}
+
+/**
+ * Collects the diagnostics reported while compiling one or more files
+ */
+export class DiagnosticBag {
+    readonly diagnostics: Diagnostic[] = [];
+
+    /**
+     * Add a diagnostic, unless the same one was already reported (e.g. an error in a device function
+     * reached from several shaders)
+     */
+    add(diagnostic: Diagnostic) {
+        const duplicate = this.diagnostics.some(d => d.code === diagnostic.code && d.file === diagnostic.file &&
+            d.line === diagnostic.line && d.column === diagnostic.column && d.message === diagnostic.message);
+        if (!duplicate) {
+            this.diagnostics.push(diagnostic);
+        }
+    }
+
+    warn(node: Node, code: DiagnosticCode, message: string) {
+        this.add(createDiagnostic(node, code, "warning", message));
+    }
+
+    get errors(): Diagnostic[] {
+        return this.diagnostics.filter(d => d.severity === "error");
+    }
+
+    hasErrors(): boolean {
+        return this.errors.length > 0;
+    }
+}
+
+/**
+ * Create a diagnostic located at the start of a node
+ */
+export function createDiagnostic(node: Node, code: DiagnosticCode, severity: DiagnosticSeverity, message: string): Diagnostic {
+    const sourceFile = node.getSourceFile();
+    const start = node.getStart();
+    const { line, column } = sourceFile.getLineAndColumnAtPos(start);
+    return {
+        severity,
+        code,
+        message,
+        file: sourceFile.getFilePath(),
+        line,
+        column,
+        frame: codeFrame(sourceFile.getFullText(), line, column, node.getEnd() - start),
+    };
+}
+
+/**
+ * Create an error about a whole file, e.g. one that could not be read or transformed
+ */
+export function fileError(file: string, code: DiagnosticCode, message: string): Diagnostic {
+    return { severity: "error", code, message, file, line: 1, column: 1, frame: "" };
+}
+
+/**
+ * Create an error for a node, to be thrown
+ */
+export function compileError(node: Node, code: DiagnosticCode, message: string): CompileError {
+    return new CompileError(createDiagnostic(node, code, "error", message));
+}
+
+/**
+ * Render the source lines around a location with the span underlined
+ */
+export function codeFrame(text: string, line: number, column: number, length: number): string {
+    const lines = text.split(/\r?\n/);
+    const first = Math.max(1, line - 1);
+    const last = Math.min(lines.length, line + 1);
+    const gutterWidth = String(last).length;
+
+    const frame: string[] = [];
+    for (let n = first; n <= last; n++) {
+        const gutter = String(n).padStart(gutterWidth);
+        frame.push(`${n === line ? ">" : " "} ${gutter} | ${lines[n - 1]}`);
+        if (n === line) {
+            const underline = Math.max(1, Math.min(length, lines[n - 1].length - column + 1));
+            frame.push(`  ${" ".repeat(gutterWidth)} | ${" ".repeat(column - 1)}${"^".repeat(underline)}`);
+        }
+    }
+    return frame.join("\n");
+}
+
+/**
+ * Format a diagnostic as `file:line:column - severity CODE: message`, optionally followed by its code frame
+ */
+export function formatDiagnostic(diagnostic: Diagnostic, withFrame = true): string {
+    const header = `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} - ${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`;
+    return withFrame && diagnostic.frame ? `${header}\n\n${diagnostic.frame}\n` : header;
+}
@@ -1,27 +1,70 @@
-import { SourceFile, FunctionDeclaration, SyntaxKind, CallExpression } from "ts-morph";
+import { SourceFile, FunctionDeclaration, SyntaxKind, CallExpression, Identifier, InterfaceDeclaration, Node, TypeAliasDeclaration, VariableDeclarationKind } from "ts-morph";
 import { generateWGSL, generateDeviceFunction } from "./wgsl-generator";
+import { CompileError, DiagnosticBag, DiagnosticCode } from "./diagnostics";
+import { extractSourceMap, SourceLines } from "./source-map";
+import { collectDependencies, collectStructs } from "./dependencies";
+import { exceededBindingLimits, getShaderBindings, getStructLayouts, reflectShader, ShaderBinding, ShaderReflection } from "./reflection";
+import { StructLayout } from "./layout";
+import { isStructType } from "./wgsl-types";
+import { isWorkgroupVariable } from "./modules";
 
 /**
  * Transform host TypeScript code to use the runtime and embed WGSL shaders
  * @param sourceFile The source file to transform
+ * @param diagnostics Bag receiving warnings and errors. Every shader function is compiled before
+ * the first error is thrown, so the bag holds the errors of all of them
  */
-export function transformHost(sourceFile: SourceFile) {
-    // Add runtime import if not already present
-    addRuntimeImport(sourceFile);
+export function transformHost(sourceFile: SourceFile, diagnostics = new DiagnosticBag()) {
+    // Source maps quote the original lines, before any of the edits below
+    const lines = new Map<string, string[]>([[sourceFile.getFilePath(), sourceFile.getFullText().split(/\r?\n/)]]);
+    const sourceLines: SourceLines = filePath => {
+        if (!lines.has(filePath)) {
+            lines.set(filePath, sourceFile.getProject().getSourceFileOrThrow(filePath).getFullText().split(/\r?\n/));
+        }
+        return lines.get(filePath)!;
+    };
 
-    // Transform kernel call sites to pass workgroup count as argument
-    transformKernelCallSites(sourceFile);
+    // Layouts of the structs used as values, computed while the declarations are at their original lines
+    const structTypes = collectStructTypes(sourceFile, diagnostics);
 
-    // Collect all device functions
-    const deviceFunctionsWGSL = collectDeviceFunctions(sourceFile);
+    // Transform kernel call sites to pass workgroup count as argument
+    transformKernelCallSites(sourceFile, diagnostics);
 
     // Transform kernel, vertex, and fragment functions
-    transformShaderFunctions(sourceFile, deviceFunctionsWGSL);
+    transformShaderFunctions(sourceFile, sourceLines, diagnostics);
 
     // Remove device functions from host code
-    // This must be done AFTER transformShaderFunctions because that function
-    // (via generateWGSL) needs to inspect device functions to find struct dependencies
+    // This must be done AFTER transformShaderFunctions because the entry points
+    // need the device functions they call to collect their dependencies
     removeDeviceFunctions(sourceFile);
+
+    // Workgroup variables only exist on the GPU
+    removeWorkgroupVariables(sourceFile);
+
+    // Declare the runtime types of the structs used as values, e.g. `new SharedArray(Particle, n)`
+    insertStructTypes(structTypes);
+
+    // Add runtime import if not already present
+    // This is done last so that diagnostics refer to the lines of the original source
+    addRuntimeImport(sourceFile);
+
+    const errors = diagnostics.errors;
+    if (errors.length > 0) {
+        throw new CompileError(errors[0]);
+    }
+}
+
+/**
+ * Run a compilation step, recording a CompileError in the bag instead of aborting the whole file
+ */
+function report<T>(diagnostics: DiagnosticBag, step: () => T): T | undefined {
+    try {
+        return step();
+    } catch (error) {
+        if (!(error instanceof CompileError)) throw error;
+        diagnostics.add(error.diagnostic);
+        return undefined;
+    }
 }
 
 /**
@@ -36,11 +79,66 @@ function addRuntimeImport(sourceFile: SourceFile) {
     }
 }
 
+interface StructType {
+    declaration: InterfaceDeclaration | TypeAliasDeclaration;
+    layouts: Record<string, StructLayout>;
+}
+
+/**
+ * Whether an identifier is used as a value, rather than as a type or as the name of a declaration or property
+ */
+function isValueReference(id: Identifier): boolean {
+    const parent = id.getParent();
+    if (Node.isPropertyAccessExpression(parent)) return parent.getExpression() === id;
+    if (Node.hasName(parent) && parent.getNameNode() === id) return false;
+    if (Node.isImportSpecifier(parent) || Node.isExportSpecifier(parent)) return false;
+    return !id.getFirstAncestor(ancestor => Node.isTypeNode(ancestor));
+}
+
+/**
+ * Find the structs declared in the file that the host code uses as values, with the layouts
+ * of the struct and of the structs its fields use
+ */
+function collectStructTypes(sourceFile: SourceFile, diagnostics: DiagnosticBag): StructType[] {
+    const identifiers = sourceFile.getDescendantsOfKind(SyntaxKind.Identifier);
+    const structTypes: StructType[] = [];
+
+    for (const declaration of [...sourceFile.getInterfaces(), ...sourceFile.getTypeAliases()]) {
+        const name = declaration.getName();
+        if (!isStructType(name)) continue;
+        if (!identifiers.some(id => id.getText() === name && isValueReference(id))) continue;
+
+        report(diagnostics, () => {
+            const declarations = collectStructs(declaration);
+            declarations.set(name, declaration);
+            structTypes.push({ declaration, layouts: getStructLayouts(declarations) });
+        });
+    }
+    return structTypes;
+}
+
+/**
+ * Declare a runtime struct type after each struct declaration, under the same name
+ */
+function insertStructTypes(structTypes: StructType[]) {
+    for (const { declaration, layouts } of structTypes) {
+        const name = declaration.getName();
+        declaration.getSourceFile().insertVariableStatement(declaration.getChildIndex() + 1, {
+            declarationKind: VariableDeclarationKind.Const,
+            isExported: declaration.isExported(),
+            declarations: [{
+                name,
+                initializer: `runtime.struct(${JSON.stringify(name)}, ${JSON.stringify(layouts)})`
+            }]
+        });
+    }
+}
+
 /**
  * Transform kernel call sites to convert type arguments to runtime arguments
  * Example: compute<[80, 60, 1]>(data) -> compute(data, [80, 60, 1])
  */
-function transformKernelCallSites(sourceFile: SourceFile) {
+function transformKernelCallSites(sourceFile: SourceFile, diagnostics: DiagnosticBag) {
     const callExpressions = sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression);
 
     for (const call of callExpressions) {
@@ -53,7 +151,7 @@ function transformKernelCallSites(sourceFile: SourceFile) {
         if (!funcDecl) continue;
         if (!isKernelFunction(funcDecl)) continue;
 
-        transformKernelCall(call);
+        transformKernelCall(call, funcDecl, diagnostics);
     }
 }
 
@@ -66,15 +164,21 @@ function isKernelFunction(func: FunctionDeclaration): boolean {
 }
 
 /**
- * Transform a single kernel call expression
+ * Transform a single kernel call expression. An argument after the parameters of the kernel holds the dispatch
+ * options, e.g. `compute<[80, 60, 1]>(data, { constants: { BLOCK: 128 } })`: the workgroup count goes before it
  */
-function transformKernelCall(call: CallExpression) {
+function transformKernelCall(call: CallExpression, kernel: FunctionDeclaration, diagnostics: DiagnosticBag) {
+    const parameterCount = kernel.getParameters().length;
+    const hasOptions = call.getArguments().length > parameterCount;
     const typeArgs = call.getTypeArguments();
-    if (typeArgs.length === 0) return;
+    if (typeArgs.length === 0) {
+        if (hasOptions) call.insertArgument(parameterCount, "undefined");
+        return;
+    }
 
     const typeArg = typeArgs[0];
     if (typeArg.getKind() !== SyntaxKind.TupleType) {
-        console.warn(`Warning: Expected tuple type for workgroup count, got ${typeArg.getKindName()}`);
+        diagnostics.warn(typeArg, DiagnosticCode.InvalidWorkgroupCount, `Expected tuple type for workgroup count, got ${typeArg.getKindName()}`);
         return;
     }
 
@@ -83,26 +187,33 @@ function transformKernelCall(call: CallExpression) {
 
     // Remove type argument and add as runtime argument
     call.removeTypeArgument(typeArg);
-    call.addArgument(workgroupCountText);
+    if (hasOptions) {
+        call.insertArgument(parameterCount, workgroupCountText);
+    } else {
+        call.addArgument(workgroupCountText);
+    }
 }
 
 /**
- * Collect all functions marked with @device and generate their WGSL
+ * Generate the complete WGSL module of a shader entry point: the device functions it reaches,
+ * callees first, followed by the entry point with its structs, bindings and constants.
+ * Also returns the reflection of its bindings
+ * @param deviceFunctionsWGSL WGSL of the device functions generated so far, shared by the entry points of the file
  */
-function collectDeviceFunctions(sourceFile: SourceFile): string {
-    const functions = sourceFile.getFunctions();
+function generateShaderModule(func: FunctionDeclaration, deviceFunctionsWGSL: Map<FunctionDeclaration, string>, diagnostics: DiagnosticBag): { wgsl: string, reflection: ShaderReflection } {
+    const dependencies = collectDependencies(func);
     let wgsl = "";
-
-    for (const func of functions) {
-        const jsDocs = func.getJsDocs();
-        const isDevice = jsDocs.some(doc => doc.getTags().some(tag => tag.getTagName() === "device"));
-
-        if (isDevice) {
-            wgsl += generateDeviceFunction(func) + "\n\n";
+    for (const deviceFunc of dependencies.deviceFunctions) {
+        if (!deviceFunctionsWGSL.has(deviceFunc)) {
+            deviceFunctionsWGSL.set(deviceFunc, generateDeviceFunction(deviceFunc, true));
         }
+        wgsl += deviceFunctionsWGSL.get(deviceFunc) + "\n\n";
     }
-
-    return wgsl;
+    const reflection = reflectShader(func, dependencies);
+    for (const message of exceededBindingLimits(reflection)) {
+        diagnostics.warn(func.getNameNode() ?? func, DiagnosticCode.BindingLimit, message);
+    }
+    return { wgsl: wgsl + generateWGSL(func, true), reflection };
 }
 
 /**
@@ -128,17 +239,26 @@ function removeDeviceFunctions(sourceFile: SourceFile) {
     }
 }
 
+function removeWorkgroupVariables(sourceFile: SourceFile) {
+    const statements = sourceFile.getVariableStatements()
+        .filter(statement => statement.getDeclarations().some(isWorkgroupVariable));
+    for (const statement of statements) {
+        statement.remove();
+    }
+}
+
 /**
  * Transform shader functions (kernel, vertex, fragment) to embed WGSL and call runtime
  */
-function transformShaderFunctions(sourceFile: SourceFile, deviceFunctionsWGSL: string) {
+function transformShaderFunctions(sourceFile: SourceFile, sourceLines: SourceLines, diagnostics: DiagnosticBag) {
     // Process functions in reverse order to avoid index shifting issues when inserting statements
     const functions = sourceFile.getFunctions().reverse();
+    const deviceFunctionsWGSL = new Map<FunctionDeclaration, string>();
 
     for (const func of functions) {
         const name = func.getName();
         if (!name) {
-            console.warn("Warning: Skipping unnamed function");
+            diagnostics.warn(func, DiagnosticCode.UnnamedFunction, "Skipping unnamed function");
             continue;
         }
 
@@ -148,9 +268,9 @@ function transformShaderFunctions(sourceFile: SourceFile, deviceFunctionsWGSL: s
         const isFragment = jsDocs.some(doc => doc.getTags().some(tag => tag.getTagName() === "fragment"));
 
         if (isKernel) {
-            transformKernelFunction(func, sourceFile, deviceFunctionsWGSL);
+            report(diagnostics, () => transformKernelFunction(func, sourceFile, deviceFunctionsWGSL, sourceLines, diagnostics));
         } else if (isVertex || isFragment) {
-            transformShaderFunction(func, deviceFunctionsWGSL);
+            report(diagnostics, () => transformShaderFunction(func, deviceFunctionsWGSL, sourceLines, diagnostics));
         }
     }
 }
@@ -158,51 +278,73 @@ function transformShaderFunctions(sourceFile: SourceFile, deviceFunctionsWGSL: s
 /**
  * Transform a kernel function to embed WGSL and dispatch via runtime
  */
-function transformKernelFunction(func: FunctionDeclaration, sourceFile: SourceFile, deviceFunctionsWGSL: string) {
+function transformKernelFunction(func: FunctionDeclaration, sourceFile: SourceFile, deviceFunctionsWGSL: Map<FunctionDeclaration, string>, sourceLines: SourceLines, diagnostics: DiagnosticBag) {
     const name = func.getName()!;
-    const wgsl = deviceFunctionsWGSL + generateWGSL(func);
+    const { wgsl, reflection } = generateShaderModule(func, deviceFunctionsWGSL, diagnostics);
+    const { code, sourceMap } = extractSourceMap(wgsl, sourceLines);
 
-    // Insert WGSL constant before the function
+    // Insert WGSL, source map and reflection constants before the function.
+    // The JSON literals are typed with the runtime types, which their inferred types (e.g. number[][][]) do not match
     const index = func.getChildIndex();
-    sourceFile.insertVariableStatement(index, {
+    sourceFile.insertVariableStatements(index, [{
         declarations: [{
             name: `${name}_wgsl`,
-            initializer: JSON.stringify(wgsl)
+            initializer: JSON.stringify(code)
+        }]
+    }, {
+        declarations: [{
+            name: `${name}_wgsl_map`,
+            type: `import("@accelscript/runtime").ShaderSourceMap`,
+            initializer: JSON.stringify(sourceMap)
+        }]
+    }, {
+        declarations: [{
+            name: `${name}_wgsl_reflection`,
+            type: `import("@accelscript/runtime").ShaderReflection`,
+            initializer: JSON.stringify(reflection)
         }]
-    });
+    }]);
+
+    // Start creating the pipeline at module load, so that the first dispatch does not wait for it.
+    // The cache skips kernels with @override constants without a default, whose values are only known at dispatch
+    sourceFile.insertStatements(index + 3, `runtime.pipelineCache.warmUp(${name}_wgsl, "${name}", ${name}_wgsl_map, ${name}_wgsl_reflection);`);
+
+    // One argument per binding: the parameters packed into the uniform struct are passed as one object,
+    // the arrays folded into one binding as an array, and the `<kernel>_folds` uniform takes every folded array
+    const folded = (binding: ShaderBinding) => `[${binding.folded!.map(member => member.name).join(", ")}]`;
+    const args = getShaderBindings(func)
+        .map(binding => binding.fields ? `{ ${binding.fields.map(field => field.name).join(", ")} }`
+            : binding.folded ? folded(binding)
+            : binding.folds ? `[${binding.folds.map(folded).join(", ")}]`
+            : binding.name)
+        .join(", ");
 
-    // Add optional workgroup_count parameter
-    func.addParameter({
+    // Relax parameter types to 'any' to allow SharedArray and other runtime types
+    func.getParameters().forEach(p => p.setType("any"));
+
+    // Add optional workgroup_count and dispatch options parameters
+    func.addParameters([{
         name: "workgroup_count",
         type: "any",
         hasQuestionToken: true
-    });
-
-    // Relax parameter types to 'any' to allow SharedArray and other runtime types
-    func.getParameters().forEach(p => {
-        if (p.getName() !== "workgroup_count") {
-            p.setType("any");
-        }
-    });
-
-    // Build dispatch call
-    const params = func.getParameters();
-    const paramNames = params
-        .filter(p => p.getName() !== "workgroup_count")
-        .map(p => p.getName());
-    const args = paramNames.join(", ");
+    }, {
+        name: "dispatch_options",
+        type: "any",
+        hasQuestionToken: true
+    }]);
 
     // Replace function body with runtime dispatch call
-    func.setBodyText(`return runtime.dispatch(${name}_wgsl, "${name}", [${args}], workgroup_count);`);
+    func.setBodyText(`return runtime.dispatch(${name}_wgsl, "${name}", [${args}], workgroup_count, ${name}_wgsl_map, ${name}_wgsl_reflection, dispatch_options);`);
 }
 
 /**
  * Transform a vertex or fragment shader function to return shader info
  */
-function transformShaderFunction(func: FunctionDeclaration, deviceFunctionsWGSL: string) {
+function transformShaderFunction(func: FunctionDeclaration, deviceFunctionsWGSL: Map<FunctionDeclaration, string>, sourceLines: SourceLines, diagnostics: DiagnosticBag) {
     const name = func.getName()!;
-    const wgsl = deviceFunctionsWGSL + generateWGSL(func);
+    const { wgsl, reflection } = generateShaderModule(func, deviceFunctionsWGSL, diagnostics);
+    const { code, sourceMap } = extractSourceMap(wgsl, sourceLines);
 
-    // Replace body to return shader code and entry point
-    func.setBodyText(`return { code: ${JSON.stringify(wgsl)}, entryPoint: "${name}" } as any;`);
+    // Replace body to return shader code, entry point, source map and reflection
+    func.setBodyText(`return { code: ${JSON.stringify(code)}, entryPoint: "${name}", sourceMap: ${JSON.stringify(sourceMap)}, reflection: ${JSON.stringify(reflection)} } as any;`);
 }
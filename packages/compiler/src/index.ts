@@ -3,6 +3,9 @@ import { Command } from "commander";
 import * as path from "path";
 import * as fs from "fs";
 import { transformHost } from "./host-transformer";
+import { CompileError, DiagnosticBag, DiagnosticCode, fileError, formatDiagnostic } from "./diagnostics";
+
+type OutputFormat = "text" | "json";
 
 const program = new Command();
 
@@ -12,28 +15,57 @@ program
     .version("0.0.1")
     .argument("<file>", "Input file")
     .option("-o, --out <output>", "Output file")
+    .option("--format <format>", "Diagnostics format (text or json)", "text")
     .action((file, options) => {
+        const format = options.format as OutputFormat;
+        if (format !== "text" && format !== "json") {
+            console.error(`Unknown format '${options.format}', expected 'text' or 'json'`);
+            process.exit(1);
+        }
+
+        const diagnostics = new DiagnosticBag();
+        // Fatal errors, e.g. a missing input path, are printed like the other diagnostics so the json output stays valid
         try {
-            compile(file, options.out);
+            compile(file, options.out, diagnostics, format);
         } catch (error) {
-            console.error("Compilation failed:");
-            if (error instanceof Error) {
-                console.error(error.message);
-            } else {
-                console.error(String(error));
-            }
+            diagnostics.add(fileError(path.resolve(file), DiagnosticCode.CompilationFailed, error instanceof Error ? error.message : String(error)));
+        }
+
+        printDiagnostics(diagnostics, format);
+        if (diagnostics.hasErrors()) {
             process.exit(1);
         }
     });
 
 program.parse();
 
+/**
+ * Print collected diagnostics, as formatted text with code frames or as a single JSON document
+ */
+function printDiagnostics(diagnostics: DiagnosticBag, format: OutputFormat) {
+    if (format === "json") {
+        console.log(JSON.stringify({ diagnostics: diagnostics.diagnostics }, null, 2));
+        return;
+    }
+
+    for (const diagnostic of diagnostics.diagnostics) {
+        const print = diagnostic.severity === "error" ? console.error : console.warn;
+        print(formatDiagnostic(diagnostic));
+    }
+    const errorCount = diagnostics.errors.length;
+    if (errorCount > 0) {
+        console.error(`Found ${errorCount} error${errorCount === 1 ? "" : "s"}.`);
+    }
+}
+
 /**
  * Compile an AccelScript source file
  * @param filePath Path to the input file
  * @param outFile Optional path to the output file
+ * @param diagnostics Bag receiving the diagnostics of every compiled file
+ * @param format Output format; progress messages are suppressed for json so stdout stays parseable
  */
-function compile(filePath: string, outFile?: string) {
+function compile(filePath: string, outFile: string | undefined, diagnostics: DiagnosticBag, format: OutputFormat) {
     const absPath = path.resolve(filePath);
     if (!fs.existsSync(absPath)) {
         throw new Error(`Input path not found: ${absPath}`);
@@ -57,24 +89,31 @@ function compile(filePath: string, outFile?: string) {
                 // Generate output filename: Name.tsx -> Name.gen.tsx
                 const outPath = fullPath.replace(/\.tsx?$/, '.gen.tsx');
 
+                // A file failing for another reason than a compile error is reported with the others,
+                // so that the exit status and the json output include it
                 try {
-                    compileFile(fullPath, outPath);
+                    compileFile(fullPath, outPath, diagnostics, format);
                 } catch (e) {
-                    console.error(`Failed to compile ${file}:`, e);
+                    diagnostics.add(fileError(fullPath, DiagnosticCode.CompilationFailed, e instanceof Error ? e.message : String(e)));
                 }
             }
         }
     } else {
-        compileFile(absPath, outFile);
+        compileFile(absPath, outFile, diagnostics, format);
     }
 }
 
 /**
- * Compile a single AccelScript source file
+ * Compile a single AccelScript source file. Compile errors are recorded in `diagnostics`
+ * and leave the output unwritten
  * @param filePath Path to the input file
  * @param outFile Optional path to the output file
+ * @param diagnostics Bag receiving the file's diagnostics
+ * @param format Output format; progress messages are suppressed for json
  */
-function compileFile(filePath: string, outFile?: string) {
+function compileFile(filePath: string, outFile: string | undefined, diagnostics: DiagnosticBag, format: OutputFormat) {
+    const log = format === "json" ? () => {} : console.log;
+
     // Validate input file exists
     const absPath = path.resolve(filePath);
     if (!fs.existsSync(absPath)) {
@@ -86,7 +125,7 @@ function compileFile(filePath: string, outFile?: string) {
         console.warn(`Warning: Input file '${absPath}' does not have a .ts or .tsx extension`);
     }
 
-    console.log(`Compiling ${absPath}...`);
+    log(`Compiling ${absPath}...`);
 
     // Create TypeScript project and load source file
     const project = new Project();
@@ -99,8 +138,10 @@ function compileFile(filePath: string, outFile?: string) {
 
     // Transform the source file
     try {
-        transformHost(sourceFile);
+        transformHost(sourceFile, diagnostics);
     } catch (error) {
+        // Already recorded in the bag
+        if (error instanceof CompileError) return;
         throw new Error(`Transformation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
 
@@ -118,13 +159,13 @@ function compileFile(filePath: string, outFile?: string) {
 
         try {
             project.createSourceFile(absOut, output, { overwrite: true }).saveSync();
-            console.log(`✓ Successfully written to ${absOut}`);
+            log(`✓ Successfully written to ${absOut}`);
         } catch (error) {
             throw new Error(`Failed to write output file: ${error instanceof Error ? error.message : String(error)}`);
         }
     } else {
-        console.log("----- Transformed Host Code -----");
-        console.log(output);
-        console.log("---------------------------------");
+        log("----- Transformed Host Code -----");
+        log(output);
+        log("---------------------------------");
     }
 }
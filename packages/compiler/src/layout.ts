@@ -0,0 +1,72 @@
+import { vectorSize, matrixShape, elementType, isScalar } from "./wgsl-types";
+
+/**
+ * Memory layout of WGSL types in host-shareable buffers, following the alignment and size rules of the WGSL spec
+ */
+
+export interface FieldLayout {
+    name: string;
+    type: string;
+    offset: number;
+    size: number;
+    align: number;
+}
+
+export interface StructLayout {
+    size: number;
+    align: number;
+    fields: FieldLayout[];
+}
+
+function roundUp(align: number, n: number): number {
+    return Math.ceil(n / align) * align;
+}
+
+/**
+ * Alignment and size of a WGSL type. Runtime-sized arrays report the size of one element (their stride)
+ * @param structs Layouts of the structs the type may reference
+ */
+export function typeLayout(type: string, structs: Record<string, StructLayout>): { size: number, align: number } {
+    if (isScalar(type) || type.startsWith("atomic<")) return { size: 4, align: 4 };
+
+    const size = vectorSize(type);
+    if (size) {
+        return { size: size * 4, align: size === 2 ? 8 : 16 };
+    }
+
+    const shape = matrixShape(type);
+    if (shape) {
+        const column = typeLayout(`vec${shape.rows}<f32>`, structs);
+        return { size: shape.columns * roundUp(column.align, column.size), align: column.align };
+    }
+
+    if (type.startsWith("array<")) {
+        const element = typeLayout(elementType(type)!, structs);
+        const stride = roundUp(element.align, element.size);
+        const count = type.match(/, (\d+)>$/);
+        return { size: count ? Number(count[1]) * stride : stride, align: element.align };
+    }
+
+    const struct = structs[type];
+    if (struct) return { size: struct.size, align: struct.align };
+
+    throw new Error(`No layout for type '${type}'`);
+}
+
+/**
+ * Layout of a struct from its fields, in declaration order
+ * @param structs Layouts of the structs its fields may reference
+ */
+export function structLayout(fields: { name: string, type: string }[], structs: Record<string, StructLayout>): StructLayout {
+    let offset = 0;
+    let align = 1;
+    const fieldLayouts = fields.map(({ name, type }) => {
+        const layout = typeLayout(type, structs);
+        offset = roundUp(layout.align, offset);
+        const field = { name, type, offset, size: layout.size, align: layout.align };
+        offset += layout.size;
+        align = Math.max(align, layout.align);
+        return field;
+    });
+    return { size: roundUp(align, offset), align, fields: fieldLayouts };
+}
@@ -0,0 +1,220 @@
+import { SourceFile, Node, FunctionDeclaration, InterfaceDeclaration, TypeAliasDeclaration, VariableDeclaration, VariableDeclarationKind, Identifier, PropertySignature, EnumDeclaration, SyntaxKind } from "ts-morph";
+import { compileError, DiagnosticCode } from "./diagnostics";
+
+/**
+ * Resolution of the declarations shaders use across module boundaries:
+ * @device functions, structs, enums, constants and workgroup variables, declared locally or imported from other files of the project
+ */
+
+/**
+ * Check if a function is marked with @device
+ */
+export function isDeviceFunction(func: FunctionDeclaration): boolean {
+    return func.getJsDocs().some(doc => doc.getTags().some(tag => tag.getTagName() === "device"));
+}
+
+/**
+ * Check if a source file is part of the compiled program, as opposed to declaration files
+ * such as the runtime's ambient globals and libraries
+ */
+export function isProgramFile(sourceFile: SourceFile): boolean {
+    return !sourceFile.isDeclarationFile() && !sourceFile.isInNodeModules();
+}
+
+/**
+ * Find the top-level declaration a name refers to in a source file, following named imports
+ * (and re-exports) into other program files
+ */
+export function resolveDeclaration(sourceFile: SourceFile, name: string): Node | undefined {
+    const local = sourceFile.getFunction(name) ?? sourceFile.getInterface(name) ?? sourceFile.getTypeAlias(name) ?? sourceFile.getVariableDeclaration(name);
+    if (local) return local;
+
+    for (const importDecl of sourceFile.getImportDeclarations()) {
+        const specifier = importDecl.getNamedImports().find(s => (s.getAliasNode()?.getText() ?? s.getName()) === name);
+        if (!specifier) continue;
+
+        const target = importDecl.getModuleSpecifierSourceFile();
+        if (!target || !isProgramFile(target)) return undefined;
+        return target.getExportedDeclarations().get(specifier.getName())?.[0];
+    }
+    return undefined;
+}
+
+/**
+ * Find the declaration an identifier refers to, looking through import aliases
+ */
+export function resolveIdentifier(node: Identifier): Node | undefined {
+    let symbol = node.getSymbol();
+    if (symbol?.isAlias()) symbol = symbol.getAliasedSymbol();
+    return symbol?.getDeclarations()[0];
+}
+
+/**
+ * Find the @device function a name refers to in a source file
+ */
+export function resolveDeviceFunction(sourceFile: SourceFile, name: string): FunctionDeclaration | undefined {
+    const decl = resolveDeclaration(sourceFile, name);
+    return decl && Node.isFunctionDeclaration(decl) && isDeviceFunction(decl) ? decl : undefined;
+}
+
+/**
+ * Find the interface or object type alias declaring a struct. Structs can reach a module through
+ * the signatures of imported functions without being imported themselves, so the modules it
+ * imports from are searched as well
+ */
+export function resolveStruct(sourceFile: SourceFile, name: string, visited = new Set<SourceFile>()): InterfaceDeclaration | TypeAliasDeclaration | undefined {
+    if (visited.has(sourceFile)) return undefined;
+    visited.add(sourceFile);
+
+    const decl = resolveDeclaration(sourceFile, name);
+    if (decl && (Node.isInterfaceDeclaration(decl) || Node.isTypeAliasDeclaration(decl))) return decl;
+
+    for (const importDecl of sourceFile.getImportDeclarations()) {
+        const target = importDecl.getModuleSpecifierSourceFile();
+        if (!target || !isProgramFile(target)) continue;
+        const found = resolveStruct(target, name, visited);
+        if (found) return found;
+    }
+    return undefined;
+}
+
+/**
+ * Get the fields of a struct declared as an interface or object type alias
+ */
+export function getStructMembers(structName: string, struct: InterfaceDeclaration | TypeAliasDeclaration): PropertySignature[] {
+    if (Node.isInterfaceDeclaration(struct)) {
+        const members = struct.getProperties();
+        if (members.length === 0) {
+            throw compileError(struct, DiagnosticCode.EmptyStruct, `Struct '${structName}' has no properties`);
+        }
+        return members;
+    }
+
+    const typeNode = struct.getTypeNode();
+    if (!typeNode || !Node.isTypeLiteral(typeNode)) {
+        throw compileError(struct, DiagnosticCode.UnknownType, `Type alias '${structName}' is not an object literal type`);
+    }
+    const members = typeNode.getProperties();
+    if (members.length === 0) {
+        throw compileError(struct, DiagnosticCode.EmptyStruct, `Type alias '${structName}' has no properties`);
+    }
+    return members;
+}
+
+/**
+ * Check if a declaration is a module-scope const
+ */
+export function isModuleConstant(decl: VariableDeclaration): boolean {
+    const statement = decl.getVariableStatement();
+    return statement !== undefined && Node.isSourceFile(statement.getParent()) && statement.getDeclarationKind() === VariableDeclarationKind.Const;
+}
+
+/**
+ * Check if a declaration is a module-scope const marked with @override: a WGSL `override` constant,
+ * whose value a pipeline can set
+ */
+export function isOverrideConstant(decl: VariableDeclaration): boolean {
+    return isModuleConstant(decl) && decl.getVariableStatementOrThrow().getJsDocs().some(doc => doc.getTags().some(tag => tag.getTagName() === "override"));
+}
+
+/**
+ * The @workgroup_size of a kernel without parentheses, e.g. "8, 8, 1" or "BLOCK"
+ */
+export function getWorkgroupSize(func: FunctionDeclaration): string | undefined {
+    const tag = func.getJsDocs().flatMap(doc => doc.getTags()).find(tag => tag.getTagName() === "workgroup_size");
+    const comment = tag?.getComment();
+    return comment ? comment.toString().trim().replace(/^\((.*)\)$/, '$1') : undefined;
+}
+
+/**
+ * Check if a declaration is a module-scope variable marked with @workgroup, shared by the invocations of a workgroup
+ */
+export function isWorkgroupVariable(decl: VariableDeclaration): boolean {
+    const statement = decl.getVariableStatement();
+    return statement !== undefined && Node.isSourceFile(statement.getParent())
+        && statement.getJsDocs().some(doc => doc.getTags().some(tag => tag.getTagName() === "workgroup"));
+}
+
+/**
+ * A numeric enum, or a module-scope `as const` object of numbers: shaders see their members as WGSL constants
+ */
+export type EnumLike = EnumDeclaration | VariableDeclaration;
+
+// Object literal of an `as const` module constant
+function constObjectLiteral(decl: VariableDeclaration) {
+    const init = decl.getInitializer();
+    if (!init || !Node.isAsExpression(init) || init.getTypeNode()?.getText() !== "const" || !isModuleConstant(decl)) return undefined;
+    return init.getExpression().asKind(SyntaxKind.ObjectLiteralExpression);
+}
+
+// Value of a numeric literal, possibly negated
+function numericValue(node: Node | undefined): number | undefined {
+    if (node && Node.isNumericLiteral(node)) return node.getLiteralValue();
+    if (node && Node.isPrefixUnaryExpression(node) && node.getOperatorToken() === SyntaxKind.MinusToken) {
+        const value = numericValue(node.getOperand());
+        return value === undefined ? undefined : -value;
+    }
+    return undefined;
+}
+
+/**
+ * Check if a declaration is an enum, or an `as const` object whose properties are all numbers
+ */
+export function isEnumLike(decl: Node): decl is EnumLike {
+    if (Node.isEnumDeclaration(decl)) return true;
+    if (!Node.isVariableDeclaration(decl)) return false;
+    const literal = constObjectLiteral(decl);
+    return literal !== undefined && literal.getProperties().every(p => Node.isPropertyAssignment(p) && numericValue(p.getInitializer()) !== undefined);
+}
+
+/**
+ * Members of an enum or `as const` object with their numeric values, in declaration order
+ */
+export function getEnumMembers(decl: EnumLike): { name: string, value: number, node: Node }[] {
+    if (Node.isEnumDeclaration(decl)) {
+        return decl.getMembers().map(member => {
+            const value = member.getValue();
+            if (typeof value !== "number") {
+                throw compileError(member, DiagnosticCode.UnknownType, `Enum member '${decl.getName()}.${member.getName()}' is not a number`);
+            }
+            return { name: member.getName(), value, node: member };
+        });
+    }
+    return constObjectLiteral(decl)!.getProperties().map(property => {
+        const assignment = property.asKindOrThrow(SyntaxKind.PropertyAssignment);
+        return { name: assignment.getName(), value: numericValue(assignment.getInitializer())!, node: assignment };
+    });
+}
+
+/**
+ * WGSL type of the members of an enum: u32 when every value is a non-negative integer, i32 for other integers, f32 otherwise
+ */
+export function enumType(decl: EnumLike): string {
+    const values = getEnumMembers(decl).map(m => m.value);
+    if (!values.every(Number.isInteger)) return "f32";
+    return values.every(v => v >= 0) ? "u32" : "i32";
+}
+
+/**
+ * Name of the WGSL constant of an enum member, e.g. `Material_Metal`
+ */
+export function enumMemberName(decl: EnumLike, member: string): string {
+    return `${decl.getName()}_${member}`;
+}
+
+/**
+ * Find the enum or `as const` object a name refers to in a source file, following named imports,
+ * including imports from declaration files such as the runtime's
+ */
+export function resolveEnum(sourceFile: SourceFile, name: string): EnumLike | undefined {
+    const local = sourceFile.getEnum(name) ?? sourceFile.getVariableDeclaration(name);
+    if (local) return isEnumLike(local) ? local : undefined;
+
+    for (const importDecl of sourceFile.getImportDeclarations()) {
+        const specifier = importDecl.getNamedImports().find(s => (s.getAliasNode()?.getText() ?? s.getName()) === name);
+        if (!specifier) continue;
+        const decl = resolveIdentifier(specifier.getAliasNode() ?? specifier.getNameNode().asKindOrThrow(SyntaxKind.Identifier));
+        return decl && isEnumLike(decl) ? decl : undefined;
+    }
+    return undefined;
+}
@@ -0,0 +1,527 @@
+import { FunctionDeclaration, JSDocTag, Node, ParameterDeclaration, SyntaxKind, VariableDeclaration, ts } from "ts-morph";
+import { ShaderDependencies } from "./dependencies";
+import { compileError, DiagnosticCode } from "./diagnostics";
+import { getStructMembers, isDeviceFunction, isOverrideConstant, isProgramFile, resolveDeviceFunction } from "./modules";
+import { mapType, isScalarOrStructType, isTextureOrSampler, elementType, componentType, isScalar, vectorSize, matrixShape, isRuntimeArray } from "./wgsl-types";
+import { StructLayout, structLayout, typeLayout } from "./layout";
+import { isAssignmentOperator } from "./type-inference";
+
+/**
+ * Description of the resources a shader binds, emitted next to its WGSL as `<name>_wgsl_reflection`
+ * so that the runtime can create explicit bind group layouts
+ */
+export interface ShaderReflection {
+    entryPoint: string;
+    stage: "compute" | "vertex" | "fragment";
+    bindings: BindingReflection[];
+    // Vertex buffer inputs of a vertex shader, by location
+    attributes?: AttributeReflection[];
+    // @override constants the shader uses, which pipelines can set
+    overrides?: OverrideReflection[];
+    // Layouts of the structs the shader uses, by name
+    structs: Record<string, StructLayout>;
+}
+
+export interface AttributeReflection {
+    name: string;
+    location: number;
+    // GPUVertexFormat of the attribute, e.g. "float32x3"
+    format: string;
+    // Bytes between consecutive elements of the vertex buffer, as in a SharedArray of the type
+    stride: number;
+    // WGSL type of the parameter
+    type: string;
+}
+
+export interface OverrideReflection {
+    name: string;
+    // WGSL scalar type of the constant
+    type: string;
+    // The constant has no default: pipelines must set it
+    required?: boolean;
+}
+
+export interface BindingReflection {
+    name: string;
+    group: number;
+    binding: number;
+    access: "read" | "read_write" | "write";
+    // WGSL type of the variable
+    type: string;
+    // Kind of resource: exactly one of buffer, texture, storageTexture and sampler is set
+    buffer?: "uniform" | "storage" | "read-only-storage";
+    // Minimum size of the bound buffer in bytes: the size of the type, or the stride of one element for runtime-sized arrays
+    size?: number;
+    texture?: { sampleType: "float" | "sint" | "uint" };
+    storageTexture?: { format: string };
+    sampler?: { type: "filtering" };
+    // Storage arrays folded into the binding: their SharedArrays are passed as one array and copied into one buffer
+    folded?: string[];
+    // Storage arrays of every folded binding, whose offsets and lengths the `<kernel>_folds` uniform holds
+    folds?: string[][];
+}
+
+export interface ShaderBinding {
+    parameter: ParameterDeclaration;
+    name: string;
+    group: number;
+    binding: number;
+    // WGSL address space and access mode, as written in `var<...>`. Textures and samplers are handles:
+    // sampled textures are read, storage textures written
+    addressSpace: "uniform" | "storage" | "handle";
+    access: "read" | "read_write" | "write";
+    type: string;
+    // Parameters packed into the binding, the fields of a `<kernel>_Uniforms` struct
+    fields?: { parameter: ParameterDeclaration, name: string, type: string }[];
+    // Storage arrays folded into the binding, with the index of their offset and length in `<kernel>_folds`
+    folded?: { parameter: ParameterDeclaration, name: string, index: number }[];
+    // Folded bindings whose offsets and lengths the binding holds
+    folds?: ShaderBinding[];
+}
+
+function parameterReferences(func: FunctionDeclaration, parameter: ParameterDeclaration) {
+    return func.getDescendantsOfKind(SyntaxKind.Identifier)
+        .filter(id => id.getText() === parameter.getName() && id.getSymbol()?.getDeclarations()[0] === parameter);
+}
+
+/**
+ * Whether a function writes a buffer parameter itself: it assigns or increments an element, uses it in an atomic
+ * operation, holds atomics or names it in `@writeonly`
+ */
+function writesBuffer(func: FunctionDeclaration, parameter: ParameterDeclaration): boolean {
+    const typeNode = parameter.getTypeNode();
+    if (typeNode && mapType(typeNode.getText(), typeNode).includes("atomic<")) return true;
+    if (accessTags(func).get(parameter.getName())?.getTagName() === "writeonly") return true;
+
+    return parameterReferences(func, parameter).some(id => {
+        // Climb to the accessed element or field: out[i].x
+        let node: Node = id;
+        let parent = node.getParentOrThrow();
+        while ((Node.isElementAccessExpression(parent) || Node.isPropertyAccessExpression(parent) || Node.isParenthesizedExpression(parent))
+            && parent.getExpression() === node) {
+            node = parent;
+            parent = node.getParentOrThrow();
+        }
+
+        if (Node.isBinaryExpression(parent)) {
+            return parent.getLeft() === node && isAssignmentOperator(parent.getOperatorToken().getKind());
+        }
+        if (Node.isPrefixUnaryExpression(parent) || Node.isPostfixUnaryExpression(parent)) {
+            const operator = parent.getOperatorToken();
+            return operator === SyntaxKind.PlusPlusToken || operator === SyntaxKind.MinusMinusToken;
+        }
+        if (Node.isCallExpression(parent) && parent.getExpression().getText().startsWith("atomic")) {
+            return parent.getArguments()[0] === node;
+        }
+        return false;
+    });
+}
+
+/**
+ * Buffer parameters passed whole to or from a buffer parameter: the parameters of the device functions
+ * the function passes it to and, for a device function, the parameters its callers pass
+ */
+function linkedBufferParameters(parameter: ParameterDeclaration): ParameterDeclaration[] {
+    const func = parameter.getParentIfKindOrThrow(SyntaxKind.FunctionDeclaration);
+    const linked: ParameterDeclaration[] = [];
+    for (const id of parameterReferences(func, parameter)) {
+        const call = id.getParentOrThrow();
+        if (!Node.isCallExpression(call)) continue;
+        const index = call.getArguments().indexOf(id);
+        const callee = index >= 0 ? resolveDeviceFunction(call.getSourceFile(), call.getExpression().getText()) : undefined;
+        const calleeParameter = callee?.getParameters()[index];
+        if (calleeParameter) linked.push(calleeParameter);
+    }
+
+    if (isDeviceFunction(func)) {
+        const index = func.getParameters().indexOf(parameter);
+        const calls = func.getProject().getSourceFiles().filter(isProgramFile)
+            .flatMap(sourceFile => sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression));
+        for (const call of calls) {
+            const argument = call.getArguments()[index];
+            if (!argument || !Node.isIdentifier(argument)) continue;
+            if (resolveDeviceFunction(call.getSourceFile(), call.getExpression().getText()) !== func) continue;
+            const declaration = argument.getSymbol()?.getDeclarations()[0];
+            if (declaration && Node.isParameterDeclaration(declaration)) linked.push(declaration);
+        }
+    }
+    return linked;
+}
+
+/**
+ * Whether a buffer parameter of a shader or device function is written, by the function or by the device functions
+ * it is passed to, through any depth of calls. Device functions take buffers by pointer, whose access mode must be
+ * that of the argument: the buffers linked by calls share one access mode, so passing a buffer that is written
+ * elsewhere to a device function also makes the pointer parameter read_write
+ */
+export function isBufferWritten(parameter: ParameterDeclaration): boolean {
+    const visited = new Set([parameter]);
+    for (const current of visited) {
+        if (writesBuffer(current.getParentIfKindOrThrow(SyntaxKind.FunctionDeclaration), current)) return true;
+        for (const linked of linkedBufferParameters(current)) {
+            visited.add(linked);
+        }
+    }
+    return false;
+}
+
+/**
+ * `@readonly name` and `@writeonly name` tags of a shader, by parameter name
+ */
+function accessTags(func: FunctionDeclaration): Map<string, JSDocTag> {
+    const tags = new Map<string, JSDocTag>();
+    for (const tag of func.getJsDocs().flatMap(doc => doc.getTags())) {
+        if (tag.getTagName() !== "readonly" && tag.getTagName() !== "writeonly") continue;
+        for (const name of (tag.getCommentText() ?? "").split(/[\s,]+/).filter(Boolean)) {
+            if (!func.getParameter(name)) {
+                throw compileError(tag, DiagnosticCode.InvalidAccessMode, `@${tag.getTagName()} names '${name}', which is not a parameter of '${func.getName()}'`);
+            }
+            tags.set(name, tag);
+        }
+    }
+    return tags;
+}
+
+/**
+ * Access mode of a storage buffer: read-only unless the shader, or a device function it passes the buffer to,
+ * writes it or its elements are atomics.
+ * `@readonly` asserts that the shader does not write the buffer; WGSL has no write-only buffers,
+ * so `@writeonly` binds it read_write and the runtime downloads it after each dispatch even when no write is seen
+ */
+function storageAccess(func: FunctionDeclaration, parameter: ParameterDeclaration, type: string, tag: JSDocTag | undefined): ShaderBinding["access"] {
+    const written = type.includes("atomic<") || isBufferWritten(parameter);
+    if (tag?.getTagName() === "readonly") {
+        if (written) {
+            throw compileError(tag, DiagnosticCode.InvalidAccessMode, `Parameter '${parameter.getName()}' is marked @readonly, but '${func.getName()}' writes it`);
+        }
+        return "read";
+    }
+    return written || tag?.getTagName() === "writeonly" ? "read_write" : "read";
+}
+
+function hasShaderTag(func: FunctionDeclaration, name: string): boolean {
+    return func.getJsDocs().some(doc => doc.getTags().some(tag => tag.getTagName() === name));
+}
+
+/**
+ * The parameter of a fragment shader that receives the outputs of the vertex stage:
+ * a struct that a @vertex function of the same module returns
+ */
+export function getVaryingsParameter(func: FunctionDeclaration): ParameterDeclaration | undefined {
+    if (!hasShaderTag(func, "fragment")) return undefined;
+    const vertexOutputs = func.getSourceFile().getFunctions()
+        .filter(f => hasShaderTag(f, "vertex"))
+        .map(f => f.getReturnTypeNode()?.getText());
+    return func.getParameters().find(parameter => vertexOutputs.includes(parameter.getTypeNode()?.getText()));
+}
+
+export interface VertexAttribute {
+    parameter: ParameterDeclaration;
+    name: string;
+    location: number;
+    type: string;
+}
+
+/**
+ * Parameters of a vertex shader with an `@attribute` doc comment, read from vertex buffers at consecutive locations.
+ * They hold numeric scalars or vectors
+ */
+export function getVertexAttributes(func: FunctionDeclaration): VertexAttribute[] {
+    const parameters = func.getParameters().filter(parameter => ts.getJSDocTags(parameter.compilerNode).some(tag => tag.tagName.text === "attribute"));
+    if (parameters.length > 0 && !hasShaderTag(func, "vertex")) {
+        throw compileError(parameters[0], DiagnosticCode.InvalidStageInterface, `Parameter '${parameters[0].getName()}' is an @attribute, which only vertex shaders take`);
+    }
+    return parameters.map((parameter, location) => {
+        const typeNode = parameter.getTypeNode();
+        const type = mapType(typeNode ? typeNode.getText() : parameter.getType().getText(), typeNode ?? parameter);
+        const component = componentType(type);
+        if (!component || component === "bool" || !(isScalar(type) || vectorSize(type))) {
+            throw compileError(parameter, DiagnosticCode.InvalidStageInterface,
+                `Attribute '${parameter.getName()}' is ${type}, but vertex buffers hold numeric scalars and vectors`);
+        }
+        return { parameter, name: parameter.getName(), location, type };
+    });
+}
+
+/**
+ * WGSL type of a @override constant, which must be a scalar given by its type annotation
+ */
+export function overrideType(decl: VariableDeclaration): string {
+    const typeNode = decl.getTypeNode();
+    const type = typeNode && mapType(typeNode.getText(), typeNode);
+    if (!type || !isScalar(type)) {
+        throw compileError(typeNode ?? decl, DiagnosticCode.ExplicitTypeRequired,
+            `Override constant '${decl.getName()}' needs a scalar type annotation, e.g. const ${decl.getName()}: u32 = 64`);
+    }
+    return type;
+}
+
+/**
+ * GPUVertexFormat of an attribute type: float32x3 for vec3<f32>
+ */
+function vertexFormat(type: string): string {
+    const format = { f32: "float32", i32: "sint32", u32: "uint32" }[componentType(type)!];
+    const size = vectorSize(type);
+    return size ? `${format}x${size}` : format!;
+}
+
+/**
+ * Resource variables of a shader, bound in group 0 in parameter order. Storage buffers the shader never writes
+ * are bound read-only, and textures and samplers as handles. The scalar, vector and matrix parameters of a kernel
+ * are packed into one `<kernel>_Uniforms` struct, bound where the first of them is, so that they take a single uniform buffer.
+ * The varyings a fragment shader receives from the vertex stage and the attributes of a vertex shader are not bound.
+ * Kernels over the storage buffer limit fold their storage arrays into fewer bindings
+ */
+export function getShaderBindings(func: FunctionDeclaration): ShaderBinding[] {
+    const tags = accessTags(func);
+    const isKernel = hasShaderTag(func, "kernel");
+    const varyings = getVaryingsParameter(func);
+    const attributes = getVertexAttributes(func).map(attribute => attribute.parameter);
+    const bindings: ShaderBinding[] = [];
+    let uniforms: ShaderBinding | undefined;
+    func.getParameters().forEach(parameter => {
+        const name = parameter.getName();
+        if (name === "workgroup_count" || parameter === varyings || attributes.includes(parameter)) return;
+
+        const typeNode = parameter.getTypeNode();
+        const typeText = typeNode ? typeNode.getText() : parameter.getType().getText();
+        const type = mapType(typeText, typeNode ?? parameter);
+
+        const uniform = isScalarOrStructType(type);
+        const tag = tags.get(name);
+        if (uniform && tag?.getTagName() === "writeonly") {
+            throw compileError(tag, DiagnosticCode.InvalidAccessMode, `Parameter '${name}' is a uniform, which shaders cannot write`);
+        }
+
+        if (isTextureOrSampler(type)) {
+            if (tag) {
+                throw compileError(tag, DiagnosticCode.InvalidAccessMode, `Parameter '${name}' is a ${type === "sampler" ? "sampler" : "texture"}, whose access follows from its type`);
+            }
+            bindings.push({
+                parameter, name, group: 0, binding: bindings.length, type,
+                addressSpace: "handle", access: type.startsWith("texture_storage") ? "write" : "read",
+            });
+            return;
+        }
+
+        if (isKernel && (isScalar(type) || vectorSize(type) || matrixShape(type))) {
+            if (!uniforms) {
+                uniforms = {
+                    parameter, name: `${func.getName()}_uniforms`, group: 0, binding: bindings.length, type: `${func.getName()}_Uniforms`,
+                    addressSpace: "uniform", access: "read", fields: [],
+                };
+                bindings.push(uniforms);
+            }
+            uniforms.fields!.push({ parameter, name, type });
+            return;
+        }
+
+        bindings.push({
+            parameter, name, group: 0, binding: bindings.length, type,
+            addressSpace: uniform ? "uniform" : "storage",
+            access: uniform ? "read" : storageAccess(func, parameter, type, tag),
+        });
+    });
+    return isKernel ? foldStorageArrays(func, bindings) : bindings;
+}
+
+/**
+ * Whether a shader only indexes a buffer parameter or takes its length, so that the buffer can be part of a larger one
+ */
+function isOnlyIndexed(func: FunctionDeclaration, parameter: ParameterDeclaration): boolean {
+    return parameterReferences(func, parameter).every(id => {
+        if (id === parameter.getNameNode()) return true;
+        const parent = id.getParentOrThrow();
+        if (Node.isElementAccessExpression(parent)) return parent.getExpression() === id;
+        return Node.isPropertyAccessExpression(parent) && parent.getName() === "length";
+    });
+}
+
+// Storage buffers per shader stage that every WebGPU device supports
+const MAX_STORAGE_BUFFERS = 8;
+
+/**
+ * Fold the storage arrays of a kernel that binds more storage buffers than every device supports. The arrays
+ * of one type and access mode that the kernel only indexes follow each other in one `<kernel>_folded<n>` binding,
+ * bound where the first of them is. Their offsets and lengths in elements are the x and y of their entry in
+ * the `<kernel>_folds` uniform, bound last, which the runtime fills when it copies the arrays in and out
+ */
+function foldStorageArrays(func: FunctionDeclaration, bindings: ShaderBinding[]): ShaderBinding[] {
+    if (bindings.filter(b => b.addressSpace === "storage").length <= MAX_STORAGE_BUFFERS) return bindings;
+
+    const groups = new Map<string, ShaderBinding[]>();
+    for (const binding of bindings) {
+        if (binding.addressSpace !== "storage" || !isRuntimeArray(binding.type) || !isOnlyIndexed(func, binding.parameter)) continue;
+        const key = `${binding.type} ${binding.access}`;
+        groups.set(key, [...(groups.get(key) ?? []), binding]);
+    }
+    const foldedGroups = [...groups.values()].filter(group => group.length > 1);
+    if (foldedGroups.length === 0) return bindings;
+
+    let index = 0;
+    const folds = foldedGroups.map((group, n): ShaderBinding => ({
+        ...group[0],
+        name: `${func.getName()}_folded${n}`,
+        folded: group.map(({ parameter, name }) => ({ parameter, name, index: index++ })),
+    }));
+    const folded = bindings.flatMap(binding => {
+        const group = foldedGroups.findIndex(g => g.includes(binding));
+        if (group < 0) return [binding];
+        return foldedGroups[group][0] === binding ? [folds[group]] : [];
+    });
+    folded.push({
+        parameter: folds[0].parameter, name: `${func.getName()}_folds`, group: 0, binding: 0, type: `array<vec4<u32>, ${index}>`,
+        addressSpace: "uniform", access: "read", folds,
+    });
+    folded.forEach((binding, i) => binding.binding = i);
+    return folded;
+}
+
+/**
+ * Compute the layouts of structs given in dependency order
+ */
+export function getStructLayouts(declarations: ShaderDependencies["structs"]): Record<string, StructLayout> {
+    const structs: Record<string, StructLayout> = {};
+    for (const [structName, struct] of declarations) {
+        const fields = getStructMembers(structName, struct).map(member => {
+            const memberTypeNode = member.getTypeNode();
+            return { name: member.getName(), type: mapType(memberTypeNode ? memberTypeNode.getText() : "f32", memberTypeNode ?? member) };
+        });
+        structs[structName] = structLayout(fields, structs);
+    }
+    return structs;
+}
+
+function roundUp16(n: number): number {
+    return Math.ceil(n / 16) * 16;
+}
+
+/**
+ * Check the additional layout rules of uniform buffers: arrays need a stride that is a multiple of 16 bytes,
+ * and struct-typed fields start at a multiple of 16 bytes and are padded to a multiple of 16 bytes
+ */
+function checkUniformLayout(binding: ShaderBinding, declarations: ShaderDependencies["structs"], structs: Record<string, StructLayout>) {
+    const checked = new Set<string>();
+    const check = (type: string, node: Node, description: string) => {
+        const element = type.startsWith("array<") ? elementType(type)! : undefined;
+        if (element) {
+            if (!/, \d+>$/.test(type)) {
+                throw compileError(node, DiagnosticCode.InvalidLayout, `${description} is a runtime-sized array, which uniform buffers cannot hold`);
+            }
+            const layout = typeLayout(element, structs);
+            const stride = Math.ceil(layout.size / layout.align) * layout.align;
+            if (stride % 16 !== 0) {
+                throw compileError(node, DiagnosticCode.InvalidLayout,
+                    `${description} has an array stride of ${stride} bytes, but arrays in uniform buffers need a multiple of 16 bytes: use 16-byte elements such as vec4f`);
+            }
+            check(element, node, description);
+            return;
+        }
+
+        const layout = structs[type];
+        const declaration = declarations.get(type);
+        if (!layout || !declaration || checked.has(type)) return;
+        checked.add(type);
+
+        const members = getStructMembers(type, declaration);
+        layout.fields.forEach((field, i) => {
+            const member = members[i];
+            const fieldDescription = `Field '${field.name}' of struct '${type}'`;
+            if (structs[field.type]) {
+                const next = layout.fields[i + 1];
+                if (field.offset % 16 !== 0) {
+                    throw compileError(member, DiagnosticCode.InvalidLayout,
+                        `${fieldDescription} is a struct at offset ${field.offset}, but struct fields of uniform buffers must start at a multiple of 16 bytes: add padding before it`);
+                }
+                if (next && next.offset - field.offset < roundUp16(field.size)) {
+                    throw compileError(member, DiagnosticCode.InvalidLayout,
+                        `${fieldDescription} is a struct of ${field.size} bytes, but uniform buffers need ${roundUp16(field.size)} bytes before the next field: add padding after it`);
+                }
+            }
+            check(field.type, member.getTypeNode() ?? member, fieldDescription);
+        });
+    };
+    check(binding.type, binding.parameter.getTypeNode() ?? binding.parameter, `Uniform '${binding.name}'`);
+}
+
+/**
+ * Binding limits every WebGPU device supports. The runtime requests the higher limits of the adapter when it has them.
+ * Bindings are not split across groups, since the per-stage limits count the bindings of all groups: kernels fold storage arrays instead
+ */
+const DEFAULT_BINDING_LIMITS: [limit: string, max: number, description: string, kind: (binding: BindingReflection) => unknown][] = [
+    ["maxStorageBuffersPerShaderStage", MAX_STORAGE_BUFFERS, "storage buffers", b => b.buffer && b.buffer !== "uniform"],
+    ["maxUniformBuffersPerShaderStage", 12, "uniform buffers", b => b.buffer === "uniform"],
+    ["maxSampledTexturesPerShaderStage", 16, "textures", b => b.texture],
+    ["maxStorageTexturesPerShaderStage", 4, "storage textures", b => b.storageTexture],
+    ["maxSamplersPerShaderStage", 16, "samplers", b => b.sampler],
+];
+
+/**
+ * Describe the default binding limits a shader exceeds, if any, once its storage arrays are folded:
+ * it only runs on devices with higher limits
+ */
+export function exceededBindingLimits(reflection: ShaderReflection): string[] {
+    const isKernel = reflection.stage === "compute";
+    const shader = isKernel ? `Kernel '${reflection.entryPoint}'`
+        : `${reflection.stage === "vertex" ? "Vertex" : "Fragment"} shader '${reflection.entryPoint}'`;
+    return DEFAULT_BINDING_LIMITS.flatMap(([limit, max, description, kind]) => {
+        const used = reflection.bindings.filter(kind).length;
+        if (used <= max) return [];
+        const folded = isKernel && limit === "maxStorageBuffersPerShaderStage" ? " after folding the arrays of one type that it only indexes" : "";
+        return [`${shader} binds ${used} ${description}${folded}, but only ${max} are guaranteed (${limit}): it fails on devices without a higher limit, so pack arrays into a struct array to bind fewer`];
+    });
+}
+
+/**
+ * Describe the bindings of a kernel, vertex or fragment shader
+ */
+export function reflectShader(func: FunctionDeclaration, dependencies: ShaderDependencies): ShaderReflection {
+    const jsDocs = func.getJsDocs();
+    const isVertex = jsDocs.some(doc => doc.getTags().some(tag => tag.getTagName() === "vertex"));
+    const isFragment = jsDocs.some(doc => doc.getTags().some(tag => tag.getTagName() === "fragment"));
+
+    const structs = getStructLayouts(dependencies.structs);
+    const shaderBindings = getShaderBindings(func);
+    for (const { type, fields } of shaderBindings) {
+        if (fields) structs[type] = structLayout(fields, structs);
+    }
+    for (const binding of shaderBindings.filter(b => b.addressSpace === "uniform")) {
+        checkUniformLayout(binding, dependencies.structs, structs);
+    }
+    const bindings = shaderBindings.map(({ name, group, binding, addressSpace, access, type, folded, folds }): BindingReflection => {
+        const reflection = {
+            name, group, binding, access, type,
+            ...(folded ? { folded: folded.map(member => member.name) } : {}),
+            ...(folds ? { folds: folds.map(fold => fold.folded!.map(member => member.name)) } : {}),
+        };
+        if (type === "sampler") return { ...reflection, sampler: { type: "filtering" } };
+        const storageTexture = type.match(/^texture_storage_2d<(\w+), write>$/);
+        if (storageTexture) return { ...reflection, storageTexture: { format: storageTexture[1] } };
+        const texture = type.match(/^texture_2d<(\w+)>$/);
+        if (texture) return { ...reflection, texture: { sampleType: texture[1] === "f32" ? "float" : texture[1] === "i32" ? "sint" : "uint" } };
+        return {
+            ...reflection,
+            buffer: addressSpace === "uniform" ? "uniform" : access === "read" ? "read-only-storage" : "storage",
+            size: typeLayout(type, structs).size,
+        };
+    });
+
+    const attributes = getVertexAttributes(func).map(({ name, location, type }) => ({
+        name, location, format: vertexFormat(type), stride: typeLayout(`array<${type}>`, structs).size, type,
+    }));
+
+    const overrides = dependencies.constants.filter(isOverrideConstant).map((decl): OverrideReflection => ({
+        name: decl.getName(),
+        type: overrideType(decl),
+        ...(decl.hasInitializer() ? {} : { required: true }),
+    }));
+
+    return {
+        entryPoint: func.getName()!,
+        stage: isVertex ? "vertex" : isFragment ? "fragment" : "compute",
+        bindings,
+        ...(isVertex ? { attributes } : {}),
+        ...(overrides.length > 0 ? { overrides } : {}),
+        structs,
+    };
+}
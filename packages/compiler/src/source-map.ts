@@ -0,0 +1,78 @@
+import { Node } from "ts-morph";
+import * as path from "path";
+
+/**
+ * Maps generated WGSL back to the TypeScript it was generated from.
+ * `mappings[i]` holds the segments of WGSL line i + 1 as [wgslColumn, fileIndex, tsLine, tsColumn],
+ * sorted by column; `files` holds the names of the TS files, and `sources` holds, per file,
+ * the text of every TS line referenced by a segment. Lines and columns are 1-based
+ */
+export interface ShaderSourceMap {
+    files: string[];
+    mappings: [number, number, number, number][][];
+    sources: Record<number, string>[];
+}
+
+/**
+ * Lines of a TS file as they were when the marks were created
+ */
+export type SourceLines = (filePath: string) => string[];
+
+// Control characters never appear in generated WGSL, so they can delimit inline marks
+const MARK_START = "\u0001";
+const MARK_END = "\u0002";
+const MARK_PATTERN = /\u0001(.*?):(\d+):(\d+)\u0002/g;
+
+/**
+ * Prefix generated text with a mark recording the TS position of `node`.
+ * The mark goes after any indentation so that it points at the first WGSL token
+ */
+export function markNode(node: Node, text: string): string {
+    const sourceFile = node.getSourceFile();
+    const { line, column } = sourceFile.getLineAndColumnAtPos(node.getStart());
+    const indent = text.length - text.trimStart().length;
+    return `${text.slice(0, indent)}${MARK_START}${sourceFile.getFilePath()}:${line}:${column}${MARK_END}${text.slice(indent)}`;
+}
+
+/**
+ * Remove all marks from generated text and build the source map they describe
+ * @param text Marked WGSL
+ * @param sourceLines Lines of the marked TS files, quoted by the source map
+ */
+export function extractSourceMap(text: string, sourceLines: SourceLines): { code: string, sourceMap: ShaderSourceMap } {
+    const sourceMap: ShaderSourceMap = { files: [], mappings: [], sources: [] };
+    const fileIndices = new Map<string, number>();
+    const fileIndex = (filePath: string) => {
+        if (!fileIndices.has(filePath)) {
+            fileIndices.set(filePath, sourceMap.files.length);
+            sourceMap.files.push(path.basename(filePath));
+            sourceMap.sources.push({});
+        }
+        return fileIndices.get(filePath)!;
+    };
+
+    const code = text.split("\n").map(markedLine => {
+        const segments: [number, number, number, number][] = [];
+        let line = "";
+        let last = 0;
+        for (const match of markedLine.matchAll(MARK_PATTERN)) {
+            line += markedLine.slice(last, match.index);
+            last = match.index! + match[0].length;
+
+            const file = fileIndex(match[1]);
+            const tsLine = Number(match[2]);
+            const segment: [number, number, number, number] = [line.length + 1, file, tsLine, Number(match[3])];
+            // Nested nodes starting at the same column are more specific than their parents
+            if (segments.length > 0 && segments[segments.length - 1][0] === segment[0]) {
+                segments[segments.length - 1] = segment;
+            } else {
+                segments.push(segment);
+            }
+            sourceMap.sources[file][tsLine] = sourceLines(match[1])[tsLine - 1] ?? "";
+        }
+        sourceMap.mappings.push(segments);
+        return line + markedLine.slice(last);
+    }).join("\n");
+
+    return { code, sourceMap };
+}
@@ -0,0 +1,407 @@
+import { FunctionDeclaration, Node, SyntaxKind, VariableDeclaration, VariableDeclarationKind, ParameterDeclaration, CallExpression, BinaryExpression, PropertyAccessExpression, ElementAccessExpression, Identifier, ObjectLiteralExpression, ArrayLiteralExpression, NewExpression } from "ts-morph";
+import { BUILTIN_FUNCTIONS, BUILTIN_VARIABLES, TYPE_CONSTRUCTORS, BuiltinFunction } from "./builtins";
+import { EnumLike, enumType, isEnumLike, isProgramFile, resolveDeviceFunction, resolveIdentifier, resolveStruct } from "./modules";
+import { ABSTRACT_FLOAT, ABSTRACT_INT, mapType, concretize, componentType, elementType, vectorSize, matrixShape, withComponent, promote, unify, isAbstract, arrayCount } from "./wgsl-types";
+
+// Element types of the typed arrays that can be allocated in shaders with `new Float32Array(N)`
+const TYPED_ARRAY_ELEMENTS: Record<string, string> = {
+    Float32Array: "f32",
+    Int32Array: "i32",
+    Uint32Array: "u32",
+};
+
+const ASSIGNMENT_OPERATORS = new Set([
+    SyntaxKind.EqualsToken,
+    SyntaxKind.PlusEqualsToken,
+    SyntaxKind.MinusEqualsToken,
+    SyntaxKind.AsteriskEqualsToken,
+    SyntaxKind.SlashEqualsToken,
+    SyntaxKind.PercentEqualsToken,
+    SyntaxKind.AmpersandEqualsToken,
+    SyntaxKind.BarEqualsToken,
+    SyntaxKind.CaretEqualsToken,
+    SyntaxKind.LessThanLessThanEqualsToken,
+    SyntaxKind.GreaterThanGreaterThanEqualsToken,
+]);
+
+const COMPARISON_OPERATORS = new Set([
+    SyntaxKind.LessThanToken,
+    SyntaxKind.LessThanEqualsToken,
+    SyntaxKind.GreaterThanToken,
+    SyntaxKind.GreaterThanEqualsToken,
+    SyntaxKind.EqualsEqualsToken,
+    SyntaxKind.EqualsEqualsEqualsToken,
+    SyntaxKind.ExclamationEqualsToken,
+    SyntaxKind.ExclamationEqualsEqualsToken,
+]);
+
+const LOGICAL_OPERATORS = new Set([
+    SyntaxKind.AmpersandAmpersandToken,
+    SyntaxKind.BarBarToken,
+]);
+
+const SHIFT_OPERATORS = new Set([
+    SyntaxKind.LessThanLessThanToken,
+    SyntaxKind.GreaterThanGreaterThanToken,
+]);
+
+export function isAssignmentOperator(kind: SyntaxKind): boolean {
+    return ASSIGNMENT_OPERATORS.has(kind);
+}
+
+export function isComparisonOperator(kind: SyntaxKind): boolean {
+    return COMPARISON_OPERATORS.has(kind);
+}
+
+export function isLogicalOperator(kind: SyntaxKind): boolean {
+    return LOGICAL_OPERATORS.has(kind);
+}
+
+export function isShiftOperator(kind: SyntaxKind): boolean {
+    return SHIFT_OPERATORS.has(kind);
+}
+
+/**
+ * Infers WGSL types for the expressions of a kernel, shader or @device function body.
+ * Types are the WGSL type strings produced by mapType; numeric literals get the abstract
+ * types ABSTRACT_INT / ABSTRACT_FLOAT until a context pins them. Unknown types are undefined.
+ */
+export class TypeInferrer {
+    private cache = new Map<Node, string | undefined>();
+    // Variables whose type is being inferred from their assignments
+    private pending = new Set<VariableDeclaration>();
+
+    constructor(private func: FunctionDeclaration) { }
+
+    public typeOf(node: Node): string | undefined {
+        if (this.cache.has(node)) return this.cache.get(node);
+        const type = this.infer(node);
+        // Types computed while a variable is pending may rely on its provisional type
+        if (this.pending.size === 0) {
+            this.cache.set(node, type);
+        }
+        return type;
+    }
+
+    /**
+     * Find a @device function by name in the function's module, including imported ones
+     */
+    public getDeviceFunction(name: string): FunctionDeclaration | undefined {
+        return resolveDeviceFunction(this.func.getSourceFile(), name);
+    }
+
+    public parameterType(param: ParameterDeclaration): string | undefined {
+        const typeNode = param.getTypeNode();
+        return typeNode ? mapType(typeNode.getText(), typeNode) : undefined;
+    }
+
+    /**
+     * Declared WGSL return type of a function, or undefined when it returns nothing or is not annotated
+     */
+    public returnType(func: FunctionDeclaration = this.func): string | undefined {
+        const typeNode = func.getReturnTypeNode();
+        if (!typeNode || typeNode.getText() === "void") return undefined;
+        return mapType(typeNode.getText(), typeNode);
+    }
+
+    public variableType(decl: VariableDeclaration): string | undefined {
+        const typeNode = decl.getTypeNode();
+        if (typeNode) return mapType(typeNode.getText(), typeNode);
+
+        const init = decl.getInitializer();
+        if (!init) return undefined;
+
+        // Module-scope consts stay abstract in WGSL, function-local let/var are pinned to a concrete type
+        const type = this.typeOf(init);
+        const owner = decl.getFirstAncestor(a => Node.isFunctionDeclaration(a));
+        if (!owner) return type;
+
+        // A mutable local initialized from a literal takes the type of the values later assigned to it,
+        // so `let sum = 0; sum += x * 0.5;` becomes an f32 accumulator
+        if (!isAbstract(type) || this.pending.has(decl) || decl.getVariableStatement()?.getDeclarationKind() === VariableDeclarationKind.Const) {
+            return concretize(type);
+        }
+
+        this.pending.add(decl);
+        try {
+            const assigned = owner.getDescendantsOfKind(SyntaxKind.BinaryExpression)
+                .filter(b => isAssignmentOperator(b.getOperatorToken().getKind()))
+                .filter(b => Node.isIdentifier(b.getLeft()) && b.getLeft().getSymbol()?.getDeclarations()[0] === decl)
+                .map(b => componentType(this.typeOf(b.getRight())));
+            return concretize(assigned.reduce(unify, type));
+        } finally {
+            this.pending.delete(decl);
+        }
+    }
+
+    /**
+     * Component type the arguments of a built-in call are converted to
+     */
+    public builtinArgumentComponent(builtin: BuiltinFunction, argTypes: (string | undefined)[]): string | undefined {
+        switch (builtin.args) {
+            case "float":
+                return "f32";
+            case "numeric":
+                return argTypes.map(componentType).reduce(unify, undefined);
+            case "atomic":
+                return elementType(argTypes[0]);
+            default:
+                return undefined;
+        }
+    }
+
+    public fieldType(structName: string, fieldName: string): string | undefined {
+        const struct = resolveStruct(this.func.getSourceFile(), structName);
+
+        if (Node.isInterfaceDeclaration(struct)) {
+            const typeNode = struct.getProperty(fieldName)?.getTypeNode();
+            return typeNode ? mapType(typeNode.getText(), typeNode) : undefined;
+        }
+
+        const typeNode = struct?.getTypeNode();
+        if (typeNode && Node.isTypeLiteral(typeNode)) {
+            const memberType = typeNode.getProperty(fieldName)?.getTypeNode();
+            return memberType ? mapType(memberType.getText(), memberType) : undefined;
+        }
+
+        return undefined;
+    }
+
+    private infer(node: Node): string | undefined {
+        if (Node.isNumericLiteral(node)) {
+            const text = node.getText();
+            return !/^0[xob]/i.test(text) && /[.eE]/.test(text) ? ABSTRACT_FLOAT : ABSTRACT_INT;
+        }
+        if (node.getKind() === SyntaxKind.TrueKeyword || node.getKind() === SyntaxKind.FalseKeyword) return "bool";
+        if (Node.isIdentifier(node)) return this.identifierType(node);
+        if (Node.isParenthesizedExpression(node)) return this.typeOf(node.getExpression());
+        if (Node.isAsExpression(node)) {
+            const typeNode = node.getTypeNode();
+            return typeNode && typeNode.getText() !== "any" ? mapType(typeNode.getText(), typeNode) : this.typeOf(node.getExpression());
+        }
+        if (Node.isPropertyAccessExpression(node)) return this.propertyAccessType(node);
+        if (Node.isElementAccessExpression(node)) return this.elementAccessType(node);
+        if (Node.isCallExpression(node)) return this.callType(node);
+        if (Node.isBinaryExpression(node)) return this.binaryType(node);
+        if (Node.isPrefixUnaryExpression(node)) {
+            return node.getOperatorToken() === SyntaxKind.ExclamationToken ? "bool" : this.typeOf(node.getOperand());
+        }
+        if (Node.isPostfixUnaryExpression(node)) return this.typeOf(node.getOperand());
+        if (Node.isConditionalExpression(node)) {
+            return this.combine(this.typeOf(node.getWhenTrue()), this.typeOf(node.getWhenFalse()));
+        }
+        if (Node.isObjectLiteralExpression(node)) return this.objectLiteralType(node);
+        if (Node.isArrayLiteralExpression(node)) return this.arrayLiteralType(node);
+        if (Node.isNewExpression(node)) return this.newArrayType(node);
+        return undefined;
+    }
+
+    /**
+     * Fixed-size array an array literal constructs: the type its context expects, or else an array of its elements,
+     * with literals pinned to a concrete type
+     */
+    private arrayLiteralType(node: ArrayLiteralExpression): string | undefined {
+        const contextual = this.contextualType(node);
+        if (contextual?.startsWith("array<")) return contextual;
+
+        const elements = node.getElements().map(e => this.typeOf(e));
+        if (elements.length === 0 || elements.includes(undefined)) return undefined;
+        const element = elements.every(e => e === elements[0]) ? elements[0] : elements.reduce((a, b) => this.combine(a, b));
+        return element === undefined ? undefined : `array<${concretize(element)}, ${elements.length}>`;
+    }
+
+    /**
+     * Type of `new Array<T>(N)`, `new Float32Array(N)` or `new WorkgroupArray(T, N)`, whose length must be a literal or a constant
+     */
+    private newArrayType(node: NewExpression): string | undefined {
+        const name = node.getExpression().getText();
+        const typeArg = node.getTypeArguments()[0];
+        let args = node.getArguments();
+        let element: string | undefined;
+        if (name === "WorkgroupArray") {
+            // The element type is given by its runtime type, or by the type argument for types without one, e.g. Atomic<u32>
+            const type = typeArg ?? args[0];
+            element = type && mapType(type.getText(), type);
+            args = args.slice(1);
+        } else {
+            element = TYPED_ARRAY_ELEMENTS[name]
+                ?? (name !== "Array" ? undefined : typeArg ? mapType(typeArg.getText(), typeArg) : elementType(this.contextualType(node)));
+        }
+        const count = args[0];
+        if (!element || args.length !== 1 || !(Node.isIdentifier(count) || (Node.isNumericLiteral(count) && /^[1-9]\d*$/.test(count.getText())))) {
+            return undefined;
+        }
+        return `array<${element}, ${count.getText()}>`;
+    }
+
+    /**
+     * Struct an object literal constructs: the type its context expects, or else the type of the object it spreads
+     */
+    private objectLiteralType(node: ObjectLiteralExpression): string | undefined {
+        const contextual = this.contextualType(node);
+        if (contextual) return contextual;
+        const spread = node.getProperties().find(p => Node.isSpreadAssignment(p));
+        return spread && Node.isSpreadAssignment(spread) ? this.typeOf(spread.getExpression()) : undefined;
+    }
+
+    /**
+     * Type the context of an expression expects: the declared type of the variable it initializes,
+     * the return type, the assigned target, the device function parameter, the struct field or the `as` type
+     */
+    private contextualType(node: Node): string | undefined {
+        const parent = node.getParent();
+        if (!parent) return undefined;
+
+        if (Node.isParenthesizedExpression(parent)) return this.contextualType(parent);
+        if (Node.isConditionalExpression(parent) && parent.getCondition() !== node) return this.contextualType(parent);
+        if (Node.isAsExpression(parent)) return this.typeOf(parent);
+        if (Node.isVariableDeclaration(parent)) {
+            const typeNode = parent.getTypeNode();
+            return typeNode ? mapType(typeNode.getText(), typeNode) : undefined;
+        }
+        if (Node.isReturnStatement(parent)) return this.returnType();
+        if (Node.isBinaryExpression(parent) && parent.getRight() === node && parent.getOperatorToken().getKind() === SyntaxKind.EqualsToken) {
+            return this.typeOf(parent.getLeft());
+        }
+        if (Node.isCallExpression(parent)) {
+            const deviceFunc = this.getDeviceFunction(parent.getExpression().getText());
+            const param = deviceFunc?.getParameters()[parent.getArguments().indexOf(node)];
+            return param ? this.parameterType(param) : undefined;
+        }
+        if (Node.isArrayLiteralExpression(parent)) return elementType(this.contextualType(parent));
+        if (Node.isPropertyAssignment(parent)) {
+            const struct = this.typeOf(parent.getParentOrThrow());
+            return struct ? this.fieldType(struct, parent.getName()) : undefined;
+        }
+        return undefined;
+    }
+
+    private identifierType(node: Identifier): string | undefined {
+        const decl = resolveIdentifier(node);
+        // Declarations outside the program are the runtime's ambient globals or library symbols
+        if (!decl || !isProgramFile(decl.getSourceFile())) return BUILTIN_VARIABLES[node.getText()];
+        if (Node.isParameterDeclaration(decl)) return this.parameterType(decl);
+        if (Node.isVariableDeclaration(decl)) return this.variableType(decl);
+        return undefined;
+    }
+
+    /**
+     * The enum or `as const` object an expression names, if any
+     */
+    public enumOf(node: Node): EnumLike | undefined {
+        if (!Node.isIdentifier(node)) return undefined;
+        const decl = resolveIdentifier(node);
+        return decl && isEnumLike(decl) ? decl : undefined;
+    }
+
+    private propertyAccessType(node: PropertyAccessExpression): string | undefined {
+        const enumLike = this.enumOf(node.getExpression());
+        if (enumLike) return enumType(enumLike);
+
+        const base = this.typeOf(node.getExpression());
+        if (base === undefined) return undefined;
+
+        const name = node.getName();
+        const size = vectorSize(base);
+        if (size) {
+            if (!/^([xyzw]{1,4}|[rgba]{1,4})$/.test(name)) return undefined;
+            const component = componentType(base)!;
+            return name.length === 1 ? component : `vec${name.length}<${component}>`;
+        }
+
+        if (name === "length" && base.startsWith("array<")) {
+            // The length of a fixed-size array is a constant, runtime-sized arrays use arrayLength()
+            return arrayCount(base) ? ABSTRACT_INT : "u32";
+        }
+
+        return this.fieldType(base, name);
+    }
+
+    private elementAccessType(node: ElementAccessExpression): string | undefined {
+        const base = this.typeOf(node.getExpression());
+        if (base === undefined) return undefined;
+
+        if (vectorSize(base)) return componentType(base);
+        const shape = matrixShape(base);
+        if (shape) return `vec${shape.rows}<${componentType(base)}>`;
+        return elementType(base);
+    }
+
+    private callType(node: CallExpression): string | undefined {
+        const name = node.getExpression().getText();
+
+        if (TYPE_CONSTRUCTORS[name]) return TYPE_CONSTRUCTORS[name];
+
+        const deviceFunc = this.getDeviceFunction(name);
+        if (deviceFunc) return this.returnType(deviceFunc);
+
+        const builtin = BUILTIN_FUNCTIONS[name];
+        if (!builtin) return undefined;
+
+        const argTypes = node.getArguments().map(a => this.typeOf(a));
+        const component = this.builtinArgumentComponent(builtin, argTypes);
+        // The widest argument decides the shape, e.g. max(0.0, v) is a vector
+        const shaped = argTypes.reduce((a, b) => (vectorSize(b) ?? 0) > (vectorSize(a) ?? 0) ? b : a, argTypes[0]);
+
+        switch (builtin.result) {
+            case "arg":
+                if (shaped === undefined) return undefined;
+                return component && !matrixShape(shaped) ? withComponent(concretize(shaped)!, component) : shaped;
+            case "component":
+                return component ?? componentType(shaped);
+            case "atomic":
+                return component;
+            case "texel": {
+                const texel = argTypes[0]?.match(/^texture_2d<(\w+)>$/)?.[1];
+                return texel && `vec4<${texel}>`;
+            }
+            case "void":
+                return undefined;
+            default:
+                return builtin.result;
+        }
+    }
+
+    private binaryType(node: BinaryExpression): string | undefined {
+        const op = node.getOperatorToken().getKind();
+        const left = this.typeOf(node.getLeft());
+
+        if (isAssignmentOperator(op) || isShiftOperator(op)) return left;
+        if (isLogicalOperator(op)) return "bool";
+
+        const right = this.typeOf(node.getRight());
+        if (isComparisonOperator(op)) {
+            const size = vectorSize(left) ?? vectorSize(right);
+            return size ? `vec${size}<bool>` : "bool";
+        }
+
+        // Matrix products change shape
+        const leftMatrix = matrixShape(left);
+        const rightMatrix = matrixShape(right);
+        if (op === SyntaxKind.AsteriskToken) {
+            if (leftMatrix && vectorSize(right)) return `vec${leftMatrix.rows}<${componentType(left)}>`;
+            if (rightMatrix && vectorSize(left)) return `vec${rightMatrix.columns}<${componentType(right)}>`;
+            if (leftMatrix && rightMatrix) return `mat${rightMatrix.columns}x${leftMatrix.rows}<${componentType(left)}>`;
+        }
+
+        return this.combine(left, right);
+    }
+
+    /**
+     * Result type of an arithmetic operation or a ternary: promoted component type, widest shape
+     */
+    private combine(left: string | undefined, right: string | undefined): string | undefined {
+        if (left === undefined || right === undefined) return left ?? right;
+        if (matrixShape(left)) return left;
+        if (matrixShape(right)) return right;
+
+        const leftComponent = componentType(left);
+        const rightComponent = componentType(right);
+        const component = promote(leftComponent, rightComponent)
+            ?? (leftComponent === ABSTRACT_FLOAT || rightComponent === ABSTRACT_FLOAT ? ABSTRACT_FLOAT : leftComponent);
+        if (component === undefined) return undefined;
+
+        const shaped = vectorSize(left) ? left : right;
+        return withComponent(shaped, component);
+    }
+}
@@ -1,41 +1,111 @@
-import { FunctionDeclaration, SyntaxKind, Node, BinaryExpression, Identifier, NumericLiteral, ReturnStatement, Block, VariableStatement, CallExpression, ElementAccessExpression, VariableDeclarationKind, InterfaceDeclaration, TypeAliasDeclaration, SourceFile, IfStatement, ForStatement, WhileStatement, DoStatement, SwitchStatement, VariableDeclarationList, ExpressionStatement, PrefixUnaryExpression, BreakStatement, ContinueStatement, PropertyAccessExpression, ParenthesizedExpression, ConditionalExpression, PostfixUnaryExpression, AsExpression } from "ts-morph";
+import { FunctionDeclaration, ParameterDeclaration, SyntaxKind, Node, BinaryExpression, Identifier, NumericLiteral, ReturnStatement, Block, VariableStatement, CallExpression, ElementAccessExpression, VariableDeclarationKind, InterfaceDeclaration, TypeAliasDeclaration, SourceFile, IfStatement, ForStatement, WhileStatement, DoStatement, SwitchStatement, VariableDeclarationList, ExpressionStatement, PrefixUnaryExpression, BreakStatement, ContinueStatement, PropertyAccessExpression, ParenthesizedExpression, ConditionalExpression, PostfixUnaryExpression, AsExpression, PropertySignature, ObjectLiteralExpression, ArrayLiteralExpression, NewExpression } from "ts-morph";
+import { TypeInferrer, isAssignmentOperator, isComparisonOperator, isShiftOperator } from "./type-inference";
+import { BUILTIN_FUNCTIONS, BUILTIN_VARIABLES, BUILTIN_VARIABLE_STAGES, TYPE_CONSTRUCTORS, ShaderStage } from "./builtins";
+import { compileError, DiagnosticCode } from "./diagnostics";
+import { markNode } from "./source-map";
+import { collectDependencies, ShaderDependencies } from "./dependencies";
+import { getStructMembers, resolveStruct, resolveIdentifier, isDeviceFunction, isProgramFile, isOverrideConstant, getEnumMembers, enumType, enumMemberName, getWorkgroupSize } from "./modules";
+import { getShaderBindings, getVaryingsParameter, getVertexAttributes, isBufferWritten, overrideType, ShaderBinding } from "./reflection";
+import { mapType, componentType, conversionKind, castTo, promote, concretize, isAbstract, isScalar, ABSTRACT_FLOAT, elementType, arrayCount, isRuntimeArray } from "./wgsl-types";
 
 // Constants
 const DEFAULT_WORKGROUP_SIZE = "64";
 
-export function generateWGSL(func: FunctionDeclaration): string {
-    const generator = new WGSLGenerator(func);
+// Built-in inputs of each stage in signature order, and the WGSL built-in they read.
+// global_invocation_id and vertex_index are always passed, the others only to shaders that use them
+const STAGE_INPUTS: Record<ShaderStage, Record<string, string>> = {
+    compute: {
+        global_invocation_id: "global_invocation_id",
+        local_invocation_id: "local_invocation_id",
+        local_invocation_index: "local_invocation_index",
+        workgroup_id: "workgroup_id",
+        num_workgroups: "num_workgroups",
+    },
+    vertex: { vertex_index: "vertex_index", instance_index: "instance_index" },
+    fragment: { frag_coord: "position", front_facing: "front_facing", sample_index: "sample_index" },
+};
+const ALWAYS_PASSED = ["global_invocation_id", "vertex_index"];
+
+const STAGE_NAMES: Record<ShaderStage, string> = { compute: "kernel", vertex: "vertex shader", fragment: "fragment shader" };
+
+// TypeScript operators spelled differently in WGSL
+const WGSL_OPERATORS: Partial<Record<SyntaxKind, string>> = {
+    [SyntaxKind.EqualsEqualsEqualsToken]: "==",
+    [SyntaxKind.ExclamationEqualsEqualsToken]: "!=",
+};
+
+/**
+ * Generate the WGSL for a shader function
+ * @param sourceMarks Embed source position marks for extractSourceMap
+ */
+export function generateWGSL(func: FunctionDeclaration, sourceMarks = false): string {
+    const generator = new WGSLGenerator(func, sourceMarks);
     return generator.generate();
 }
 
-export function generateDeviceFunction(func: FunctionDeclaration): string {
-    const generator = new WGSLGenerator(func);
+/**
+ * Generate the WGSL for a device function
+ * @param sourceMarks Embed source position marks for extractSourceMap
+ */
+export function generateDeviceFunction(func: FunctionDeclaration, sourceMarks = false): string {
+    const generator = new WGSLGenerator(func, sourceMarks);
     return generator.generateDeviceFunction();
 }
 
 class WGSLGenerator {
-    constructor(private func: FunctionDeclaration) { }
+    private types: TypeInferrer;
+    // Kernel parameters packed into the `<kernel>_Uniforms` struct, and the name of its variable
+    private packedParameters = new Map<ParameterDeclaration, string>();
+    // Kernel parameters folded into a larger storage array: its variable, and their entry in the `<kernel>_folds` uniform
+    private foldedParameters = new Map<ParameterDeclaration, { name: string, entry: string }>();
+    // Struct passed from the vertex to the fragment stage: returned by a vertex shader, or received by a fragment shader
+    private varyings: string | undefined;
+    // Built-in variables the shader uses
+    private builtins = new Set<string>();
+
+    constructor(private func: FunctionDeclaration, private sourceMarks: boolean) {
+        this.types = new TypeInferrer(func);
+    }
+
+    /**
+     * Record the TS position of a node on the text generated for it, when source marks are enabled
+     */
+    private mark(node: Node, text: string): string {
+        return this.sourceMarks ? markNode(node, text) : text;
+    }
 
     public generate(): string {
         const name = this.func.getName();
         if (!name) {
-            throw new Error("Function must have a name");
+            throw compileError(this.func, DiagnosticCode.UnnamedFunction, "Function must have a name");
         }
 
-        const structDefs = this.generateStructDefinitions();
-        const bindings = this.generateBindings();
-        const constants = this.generateGlobalConstants();
-
-        let body = "";
+        const dependencies = collectDependencies(this.func);
+        const stage = this.stage();
+        if (stage) this.checkStageBuiltins(stage, dependencies);
+        this.builtins = new Set(this.usedBuiltins(Object.keys(BUILTIN_VARIABLES)));
+        // frag_depth starts at the depth of the fragment
+        if (this.builtins.has("frag_depth")) this.builtins.add("frag_coord");
+
+        const varyingsParameter = getVaryingsParameter(this.func);
+        const vertexOutput = this.hasTag("vertex") ? this.types.returnType() : undefined;
+        this.varyings = varyingsParameter ? varyingsParameter.getTypeNode()!.getText()
+            : vertexOutput && dependencies.structs.has(vertexOutput) ? vertexOutput : undefined;
+        const structDefs = this.generateStructDefinitions(dependencies) + this.generateFragmentOutput();
+        const bindings = this.generateBindings(getShaderBindings(this.func));
+        const constants = this.generateGlobalConstants(dependencies);
+        const workgroupVariables = this.generateWorkgroupVariables(dependencies);
+
+        let body = this.fragmentLocals();
         const bodyBlock = this.func.getBody();
         if (bodyBlock && Node.isBlock(bodyBlock)) {
-            body = this.visitBlock(bodyBlock);
+            body += this.visitBlock(bodyBlock);
         }
 
         const { prefix, signature, returnType } = this.getShaderSignature();
 
-        return `${structDefs}${bindings}${constants}
-${prefix}
+        return `${structDefs}${bindings}${constants}${workgroupVariables}
+${this.mark(this.func, prefix)}
 fn ${name}(${signature}) ${returnType} {
 ${body}
 }
@@ -45,7 +115,7 @@ ${body}
     public generateDeviceFunction(): string {
         const name = this.func.getName();
         if (!name) {
-            throw new Error("Function must have a name");
+            throw compileError(this.func, DiagnosticCode.UnnamedFunction, "Function must have a name");
         }
 
         // Generate signature
@@ -55,12 +125,12 @@ ${body}
             const typeText = typeNode ? typeNode.getText() : p.getType().getText();
 
             if (typeText === "number") {
-                throw new Error(`Device function '${name}' parameter '${n}' must have explicit type (e.g. f32, i32, u32), not 'number'`);
+                throw compileError(p, DiagnosticCode.ExplicitTypeRequired, `Device function '${name}' parameter '${n}' must have explicit type (e.g. f32, i32, u32), not 'number'`);
             }
 
-            let type = this.mapType(typeText);
-            if (type.startsWith("array<")) {
-                type = `ptr<storage, ${type}, read_write>`;
+            let type = mapType(typeText, typeNode ?? p);
+            if (isRuntimeArray(type)) {
+                type = `ptr<storage, ${type}, ${isBufferWritten(p) ? "read_write" : "read"}>`;
             }
             return `${n} : ${type}`;
         }).join(", ");
@@ -69,10 +139,10 @@ ${body}
         const returnTypeText = returnTypeNode ? returnTypeNode.getText() : this.func.getReturnType().getText();
 
         if (returnTypeText === "number") {
-            throw new Error(`Device function '${name}' return type must have explicit type (e.g. f32, i32, u32), not 'number'`);
+            throw compileError(returnTypeNode ?? this.func, DiagnosticCode.ExplicitTypeRequired, `Device function '${name}' return type must have explicit type (e.g. f32, i32, u32), not 'number'`);
         }
 
-        const returnType = returnTypeText === "void" ? "" : `-> ${this.mapType(returnTypeText)}`;
+        const returnType = returnTypeText === "void" ? "" : `-> ${mapType(returnTypeText, returnTypeNode ?? this.func)}`;
 
         let body = "";
         const bodyBlock = this.func.getBody();
@@ -80,101 +150,185 @@ ${body}
             body = this.visitBlock(bodyBlock);
         }
 
-        return `fn ${name}(${params}) ${returnType} {
+        return `${this.mark(this.func, `fn ${name}(${params}) ${returnType} {`)}
 ${body}
 }`;
     }
 
-    private generateStructDefinitions(): string {
-        const sourceFile = this.func.getSourceFile();
-        const structTypes = new Set<string>();
-        this.func.getParameters().forEach(p => {
-            if (p.getName() === "workgroup_count") return;
-            const typeNode = p.getTypeNode();
-            const typeText = typeNode ? typeNode.getText() : p.getType().getText();
-            if (this.isStructType(typeText)) {
-                structTypes.add(typeText);
+    private generateStructDefinitions(dependencies: ShaderDependencies): string {
+        let structDefs = "";
+        for (const [structName, struct] of dependencies.structs) {
+            structDefs += this.generateStructDefinition(structName, struct) + "\n";
+        }
+        return structDefs;
+    }
+
+    private generateBindings(shaderBindings: ShaderBinding[]): string {
+        let bindings = "";
+        for (const { parameter, name, group, binding, addressSpace, access, type, fields, folded } of shaderBindings) {
+            // References to the folded parameters index the folded array from their offset
+            for (const member of folded ?? []) {
+                this.foldedParameters.set(member.parameter, { name, entry: `${this.func.getName()}_folds[${member.index}]` });
             }
-        });
+            if (fields) {
+                // References to the packed parameters read the fields of the uniform struct
+                const members = fields.map(field => {
+                    this.packedParameters.set(field.parameter, name);
+                    return this.mark(field.parameter, `    ${field.name} : ${field.type}`);
+                });
+                bindings += `struct ${type} {\n${members.join(",\n")}\n}\n`;
+            }
+            // Textures and samplers are in the handle address space, which is not written
+            const variable = addressSpace === "handle" ? "var" : addressSpace === "uniform" ? "var<uniform>" : `var<storage, ${access}>`;
+            bindings += this.mark(parameter, `@group(${group}) @binding(${binding}) ${variable} ${name} : ${type};`) + "\n";
+        }
+        return bindings;
+    }
+
+    private generateGlobalConstants(dependencies: ShaderDependencies): string {
+        let constants = "";
+
+        // One constant per member of the enums and `as const` objects used by the shader
+        for (const enumLike of dependencies.enums) {
+            const type = enumType(enumLike);
+            for (const { name, value, node } of getEnumMembers(enumLike)) {
+                const text = `const ${enumMemberName(enumLike, name)}: ${type} = ${this.formatConstant(value, type)};`;
+                constants += (isProgramFile(node.getSourceFile()) ? this.mark(node, text) : text) + "\n";
+            }
+        }
 
-        // Scan device functions for struct usage
-        const deviceFuncs = sourceFile.getFunctions().filter(f =>
-            f.getJsDocs().some(doc => doc.getTags().some(tag => tag.getTagName() === "device"))
-        );
-
-        deviceFuncs.forEach(df => {
-            // Scan parameters
-            df.getParameters().forEach(p => {
-                const typeNode = p.getTypeNode();
-                const typeText = typeNode ? typeNode.getText() : p.getType().getText();
-                if (this.isStructType(typeText)) {
-                    structTypes.add(typeText);
+        // Module-scope consts used by the shader, from this module or imported
+        dependencies.constants.forEach(decl => {
+            const name = decl.getName();
+            const init = decl.getInitializer();
+            // @override constants default to their initializer, and are required by the pipeline without one
+            if (isOverrideConstant(decl)) {
+                const type = overrideType(decl);
+                const value = init ? ` = ${this.visitConverted(init, type, `initializer of '${name}'`)}` : "";
+                constants += this.mark(decl, `override ${name}: ${type}${value};`) + "\n";
+                return;
+            }
+            // Only emit if it has an initializer
+            if (init) {
+                // Ignore objects; arrays become lookup tables
+                const value = Node.isAsExpression(init) ? init.getExpression() : init;
+                if (value.getKind() === SyntaxKind.ObjectLiteralExpression) {
+                    return;
                 }
-            });
 
-            // Scan return type
-            const returnTypeNode = df.getReturnTypeNode();
-            const returnTypeText = returnTypeNode ? returnTypeNode.getText() : df.getReturnType().getText();
-            if (this.isStructType(returnTypeText)) {
-                structTypes.add(returnTypeText);
+                const typeNode = decl.getTypeNode();
+                const declaredType = typeNode ? mapType(typeNode.getText(), typeNode) : undefined;
+                const typeAnnotation = declaredType ? `: ${declaredType}` : '';
+                constants += this.mark(decl, `const ${name}${typeAnnotation} = ${this.visitConverted(init, declaredType, `initializer of '${name}'`)};`) + "\n";
             }
         });
 
-        let structDefs = "";
-        for (const structName of structTypes) {
-            const structDef = this.generateStructDefinition(sourceFile, structName);
-            if (structDef) {
-                structDefs += structDef + "\n";
-            } else {
-                console.warn(`Warning: Could not generate struct definition for '${structName}'`);
+        return constants;
+    }
+
+    /**
+     * Declare the @workgroup variables the kernel uses. They cannot be initialized: their type comes from
+     * `new WorkgroupArray(type, length)` or from the type annotation
+     */
+    private generateWorkgroupVariables(dependencies: ShaderDependencies): string {
+        let variables = "";
+        for (const decl of dependencies.workgroupVariables) {
+            const name = decl.getName();
+            if (!this.hasTag("kernel")) {
+                throw compileError(decl, DiagnosticCode.UnsupportedNode, `Workgroup variable '${name}' can only be used by kernels`);
+            }
+            const init = decl.getInitializer();
+            if (init && !(Node.isNewExpression(init) && init.getExpression().getText() === "WorkgroupArray")) {
+                throw compileError(init, DiagnosticCode.UnsupportedNode, `Workgroup variable '${name}' cannot be initialized: declare it as new WorkgroupArray(type, length) or with a type annotation`);
+            }
+            const type = init ? this.types.typeOf(init) : this.types.variableType(decl);
+            if (!type) {
+                throw compileError(decl, DiagnosticCode.ExplicitTypeRequired, `Workgroup variable '${name}' needs an element type and a constant length, e.g. new WorkgroupArray(f32, 256)`);
+            }
+            if (isRuntimeArray(type)) {
+                throw compileError(decl, DiagnosticCode.InvalidLayout, `Workgroup variable '${name}' must have a constant length`);
             }
+            variables += this.mark(decl, `var<workgroup> ${name} : ${type};`) + "\n";
         }
-        return structDefs;
+        return variables;
     }
 
-    private generateBindings(): string {
-        let bindings = "";
-        this.func.getParameters().forEach((p, index) => {
-            const n = p.getName();
-            if (n === "workgroup_count") return;
-
-            const typeNode = p.getTypeNode();
-            const typeText = typeNode ? typeNode.getText() : p.getType().getText();
-            const type = this.mapType(typeText);
+    private hasTag(name: string): boolean {
+        return this.func.getJsDocs().some(doc => doc.getTags().some(tag => tag.getTagName() === name));
+    }
 
-            const bindingType = this.isScalarOrStructType(type) ? "uniform" : "storage, read_write";
-            bindings += `@group(0) @binding(${index}) var<${bindingType}> ${n} : ${type};\n`;
-        });
-        return bindings;
+    private stage(): ShaderStage | undefined {
+        return this.hasTag("kernel") ? "compute" : this.hasTag("vertex") ? "vertex" : this.hasTag("fragment") ? "fragment" : undefined;
     }
 
-    private generateGlobalConstants(): string {
-        const sourceFile = this.func.getSourceFile();
-        let constants = "";
+    /**
+     * Built-ins the shader reads, besides the runtime's ambient globals shadowed by local declarations
+     */
+    private usedBuiltins(names: string[]): string[] {
+        const used = new Set(this.func.getDescendantsOfKind(SyntaxKind.Identifier)
+            .filter(id => names.includes(id.getText()))
+            .filter(isRuntimeGlobal)
+            .map(id => id.getText()));
+        return names.filter(name => used.has(name));
+    }
 
-        sourceFile.getVariableStatements().forEach(stmt => {
-            const declList = stmt.getDeclarationList();
-            if (declList.getDeclarationKind() === VariableDeclarationKind.Const) {
-                declList.getDeclarations().forEach(decl => {
-                    const name = decl.getName();
-                    const init = decl.getInitializer();
-                    // Only emit if it has an initializer and is top-level (which getVariableStatements returns)
-                    if (init) {
-                        const kind = init.getKind();
-                        // Ignore objects and arrays
-                        if (kind === SyntaxKind.ObjectLiteralExpression || kind === SyntaxKind.ArrayLiteralExpression) {
-                            return;
-                        }
-
-                        const typeNode = decl.getTypeNode();
-                        const typeAnnotation = typeNode ? `: ${this.mapType(typeNode.getText())}` : '';
-                        constants += `const ${name}${typeAnnotation} = ${this.visitNode(init)};\n`;
-                    }
-                });
+    /**
+     * Reject the built-in variables and functions of other stages, in the shader and in the device functions it calls
+     */
+    private checkStageBuiltins(stage: ShaderStage, dependencies: ShaderDependencies) {
+        for (const func of [this.func, ...dependencies.deviceFunctions]) {
+            for (const id of func.getDescendantsOfKind(SyntaxKind.Identifier)) {
+                const name = id.getText();
+                const isCallee = id.getParentIfKind(SyntaxKind.CallExpression)?.getExpression() === id;
+                const required = Object.hasOwn(BUILTIN_VARIABLE_STAGES, name) ? BUILTIN_VARIABLE_STAGES[name]
+                    : isCallee && Object.hasOwn(BUILTIN_FUNCTIONS, name) ? BUILTIN_FUNCTIONS[name].stage : undefined;
+                if (!required || required === stage || !isRuntimeGlobal(id)) continue;
+                throw compileError(id, DiagnosticCode.InvalidStageBuiltin,
+                    `'${name}' is only available in ${STAGE_NAMES[required]}s, but '${this.func.getName()}' is a ${STAGE_NAMES[stage]}`);
             }
-        });
+        }
+    }
 
-        return constants;
+    /**
+     * Built-in inputs of the stage that the shader uses, as entry point parameters
+     * @param skip Inputs the shader receives another way
+     */
+    private builtinInputs(stage: ShaderStage, skip: string[] = []): string[] {
+        return Object.entries(STAGE_INPUTS[stage])
+            .filter(([name]) => (ALWAYS_PASSED.includes(name) || this.builtins.has(name)) && !skip.includes(name))
+            .map(([name, builtin]) => `@builtin(${builtin}) ${name} : ${BUILTIN_VARIABLES[name]}`);
+    }
+
+    /**
+     * Struct returned by a fragment shader writing frag_depth: the color and the depth
+     */
+    private generateFragmentOutput(): string {
+        if (!this.builtins.has("frag_depth")) return "";
+        return `struct ${this.func.getName()}_Output {\n    @location(0) color : vec4<f32>,\n    @builtin(frag_depth) frag_depth : f32\n}\n`;
+    }
+
+    /**
+     * Locals declared at the start of a fragment shader: frag_coord, when the varyings carry the position, and frag_depth
+     */
+    private fragmentLocals(): string {
+        let locals = "";
+        const varyings = getVaryingsParameter(this.func);
+        if (varyings && this.builtins.has("frag_coord")) {
+            locals += `    let frag_coord = ${varyings.getName()}.position;\n`;
+        }
+        if (this.builtins.has("frag_depth")) {
+            locals += "    var frag_depth = frag_coord.z;\n";
+        }
+        return locals;
+    }
+
+    /**
+     * Format a constant value as a literal of the given scalar type
+     */
+    private formatConstant(value: number, type: string): string {
+        if (type === "u32") return `${value}u`;
+        if (type === "i32") return `${value}`;
+        return Number.isInteger(value) ? `${value}.0` : `${value}`;
     }
 
     private getShaderSignature(): { prefix: string, signature: string, returnType: string } {
@@ -185,37 +339,31 @@ ${body}
         const name = this.func.getName();
 
         if (!isKernel && !isVertex && !isFragment) {
-            throw new Error(`Function '${name}' must have @kernel, @vertex, or @fragment annotation`);
+            throw compileError(this.func, DiagnosticCode.MissingShaderAnnotation, `Function '${name}' must have @kernel, @vertex, or @fragment annotation`);
         }
 
         let prefix = "";
         let signature = "";
         let returnType = "";
 
-        const workgroupSizeTag = jsDocs
-            .flatMap(doc => doc.getTags())
-            .find(tag => tag.getTagName() === "workgroup_size");
-
-        let workgroupSize = DEFAULT_WORKGROUP_SIZE;
-        if (workgroupSizeTag) {
-            const comment = workgroupSizeTag.getComment();
-            if (comment) {
-                const cleanComment = comment.toString().trim().replace(/^\((.*)\)$/, '$1');
-                workgroupSize = cleanComment;
-            }
-        }
+        const workgroupSize = getWorkgroupSize(this.func) ?? DEFAULT_WORKGROUP_SIZE;
 
         if (isKernel) {
             prefix = `@compute @workgroup_size(${workgroupSize})`;
-            signature = "@builtin(global_invocation_id) global_invocation_id : vec3<u32>";
+            signature = this.builtinInputs("compute").join(", ");
         } else if (isVertex) {
             prefix = "@vertex";
-            signature = "@builtin(vertex_index) vertex_index : u32";
-            returnType = "-> @builtin(position) vec4<f32>";
+            signature = [...this.builtinInputs("vertex"), ...getVertexAttributes(this.func)
+                .map(({ name, location, type }) => `@location(${location}) ${name} : ${type}`)]
+                .join(", ");
+            returnType = this.varyings ? `-> ${this.varyings}` : "-> @builtin(position) vec4<f32>";
         } else if (isFragment) {
             prefix = "@fragment";
-            signature = "@builtin(position) pos : vec4<f32>";
-            returnType = "-> @location(0) vec4<f32>";
+            // The varyings carry the position, which an entry point can only receive once: frag_coord is read from them
+            const varyings = getVaryingsParameter(this.func);
+            signature = [...(varyings ? [`${varyings.getName()} : ${this.varyings}`] : []), ...this.builtinInputs("fragment", varyings ? ["frag_coord"] : [])]
+                .join(", ");
+            returnType = this.builtins.has("frag_depth") ? `-> ${name}_Output` : "-> @location(0) vec4<f32>";
         }
 
         return { prefix, signature, returnType };
@@ -225,12 +373,26 @@ ${body}
         return block.getStatements().map(s => this.visitNode(s)).join("\n");
     }
 
-    private visitNode(node: Node): string {
+    /**
+     * Visit a node. `expected` is the scalar type the surrounding context wants,
+     * used to emit numeric literals in the right form (e.g. 0.0, 0u)
+     */
+    private visitNode(node: Node, expected?: string): string {
+        const text = this.generateNode(node, expected);
+        // Leaves and wrappers share their position with the node around or inside them
+        if (Node.isIdentifier(node) || Node.isLiteralExpression(node) || Node.isBlock(node) ||
+            Node.isParenthesizedExpression(node) || Node.isAsExpression(node) || Node.isTrueLiteral(node) || Node.isFalseLiteral(node)) {
+            return text;
+        }
+        return this.mark(node, text);
+    }
+
+    private generateNode(node: Node, expected?: string): string {
         if (Node.isVariableStatement(node)) return this.visitVariableStatement(node);
         if (Node.isExpressionStatement(node)) return this.visitExpressionStatement(node);
-        if (Node.isBinaryExpression(node)) return this.visitBinaryExpression(node);
+        if (Node.isBinaryExpression(node)) return this.visitBinaryExpression(node, expected);
         if (Node.isIdentifier(node)) return this.visitIdentifier(node);
-        if (Node.isNumericLiteral(node)) return this.visitNumericLiteral(node);
+        if (Node.isNumericLiteral(node)) return this.visitNumericLiteral(node, expected);
         if (node.getKind() === SyntaxKind.TrueKeyword) return 'true';
         if (node.getKind() === SyntaxKind.FalseKeyword) return 'false';
         if (Node.isIfStatement(node)) return this.visitIfStatement(node);
@@ -238,22 +400,24 @@ ${body}
         if (Node.isWhileStatement(node)) return this.visitWhileStatement(node);
         if (Node.isDoStatement(node)) return this.visitDoStatement(node);
         if (Node.isSwitchStatement(node)) return this.visitSwitchStatement(node);
-        if (Node.isPrefixUnaryExpression(node)) return this.visitPrefixUnaryExpression(node);
+        if (Node.isPrefixUnaryExpression(node)) return this.visitPrefixUnaryExpression(node, expected);
         if (Node.isBlock(node)) return `{\n${this.visitBlock(node)}\n    }`;
         if (Node.isReturnStatement(node)) return this.visitReturnStatement(node);
         if (Node.isBreakStatement(node)) return `        break;`;
         if (Node.isContinueStatement(node)) return `        continue;`;
-        if (Node.isCallExpression(node)) return this.visitCallExpression(node);
+        if (Node.isCallExpression(node)) return this.visitCallExpression(node, expected);
         if (Node.isElementAccessExpression(node)) return this.visitElementAccessExpression(node);
         if (Node.isPropertyAccessExpression(node)) return this.visitPropertyAccessExpression(node);
-        if (Node.isParenthesizedExpression(node)) return `(${this.visitNode(node.getExpression())})`;
-        if (Node.isConditionalExpression(node)) return this.visitConditionalExpression(node);
+        if (Node.isParenthesizedExpression(node)) return `(${this.visitNode(node.getExpression(), expected)})`;
+        if (Node.isConditionalExpression(node)) return this.visitConditionalExpression(node, expected);
         if (Node.isVariableDeclarationList(node)) return this.visitVariableDeclarationList(node);
         if (Node.isPostfixUnaryExpression(node)) return this.visitPostfixUnaryExpression(node);
-        if (Node.isAsExpression(node)) return this.visitNode(node.getExpression());
+        if (Node.isAsExpression(node)) return this.visitNode(node.getExpression(), expected);
+        if (Node.isObjectLiteralExpression(node)) return this.visitObjectLiteral(node);
+        if (Node.isArrayLiteralExpression(node)) return this.visitArrayLiteral(node);
+        if (Node.isNewExpression(node)) return this.visitNewExpression(node);
 
-        console.warn(`Warning: Unsupported node type '${node.getKindName()}' at line ${node.getStartLineNumber()}`);
-        return `/* Unsupported node: ${node.getKindName()} */`;
+        throw compileError(node, DiagnosticCode.UnsupportedNode, `Unsupported syntax '${node.getKindName()}'`);
     }
 
     private visitVariableStatement(node: VariableStatement): string {
@@ -263,28 +427,231 @@ ${body}
         const name = decl.getName();
         const init = decl.getInitializer();
         const typeNode = decl.getTypeNode();
-        const typeAnnotation = typeNode ? `: ${this.mapType(typeNode.getText())}` : '';
-        const wgslKeyword = isConst ? "let" : "var";
-        const initializer = init ? ` = ${this.visitNode(init)}` : "";
+        const declaredType = typeNode ? mapType(typeNode.getText(), typeNode) : undefined;
+        const typeAnnotation = declaredType ? `: ${declaredType}` : '';
+        const wgslKeyword = this.declarationKeyword(isConst, this.types.variableType(decl), init);
+        const spreadLiteral = init && this.getSpreadLiteral(init);
+        if (spreadLiteral) return this.visitSpreadDeclaration(name, spreadLiteral);
+        const initializer = init ? ` = ${this.visitConverted(init, this.types.variableType(decl), `initializer of '${name}'`)}` : "";
         return `    ${wgslKeyword} ${name}${typeAnnotation}${initializer};`;
     }
 
+    /**
+     * WGSL keyword of a local declaration. Arrays are `var` so that they can be indexed with a runtime index,
+     * or `const` when a TS const is initialized with constant elements
+     */
+    private declarationKeyword(isConst: boolean, type: string | undefined, init: Node | undefined): string {
+        if (type?.startsWith("array<")) {
+            return isConst && init && Node.isArrayLiteralExpression(init) && this.isConstantExpression(init) ? "const" : "var";
+        }
+        return isConst ? "let" : "var";
+    }
+
+    /**
+     * Check if an expression is built from literals only, so that it can initialize a WGSL const
+     */
+    private isConstantExpression(node: Node): boolean {
+        if (this.isLiteral(node) || Node.isTrueLiteral(node) || Node.isFalseLiteral(node)) return true;
+        if (Node.isArrayLiteralExpression(node)) return node.getElements().every(e => this.isConstantExpression(e));
+        if (Node.isCallExpression(node)) {
+            return !!TYPE_CONSTRUCTORS[node.getExpression().getText()] && node.getArguments().every(a => this.isConstantExpression(a));
+        }
+        return false;
+    }
+
+    /**
+     * The object literal with a spread that an initializer is, if any
+     */
+    private getSpreadLiteral(node: Node): ObjectLiteralExpression | undefined {
+        if (Node.isParenthesizedExpression(node) || Node.isAsExpression(node)) return this.getSpreadLiteral(node.getExpression());
+        if (Node.isObjectLiteralExpression(node) && node.getProperties().some(p => Node.isSpreadAssignment(p))) return node;
+        return undefined;
+    }
+
+    /**
+     * Lower `const b: T = { ...a, f: v }` to a copy of `a` followed by assignments of the fields given
+     */
+    private visitSpreadDeclaration(name: string, literal: ObjectLiteralExpression): string {
+        const { structName, values, spread } = this.getStructLiteral(literal);
+        const lines = [`    var ${name}: ${structName} = ${this.visitNode(spread!)};`];
+        for (const [field, value] of values) {
+            lines.push(`    ${name}.${field} = ${this.visitConverted(value, this.types.fieldType(structName, field), `field '${field}' of '${structName}'`)};`);
+        }
+        return lines.join("\n");
+    }
+
+    /**
+     * Lower an object literal to a constructor call of its struct, with the fields in declaration order.
+     * Fields not given are read from the object it spreads
+     */
+    private visitObjectLiteral(node: ObjectLiteralExpression): string {
+        const { structName, members, values, spread } = this.getStructLiteral(node);
+        if (spread && !this.isReference(spread)) {
+            throw compileError(spread, DiagnosticCode.UnsupportedNode, `Spreading '${spread.getText()}' is only supported in a variable initializer: assign it to a variable first`);
+        }
+        const args = members.map(member => {
+            const field = member.getName();
+            const value = values.get(field);
+            if (!value) return `${this.visitNode(spread!)}.${field}`;
+            return this.visitConverted(value, this.types.fieldType(structName, field), `field '${field}' of '${structName}'`);
+        });
+        return `${structName}(${args.join(", ")})`;
+    }
+
+    /**
+     * Struct, field values and spread object of an object literal. Every field must exist,
+     * and every field of the struct must be given unless the literal spreads an object of the same struct
+     */
+    private getStructLiteral(node: ObjectLiteralExpression): { structName: string, members: PropertySignature[], values: Map<string, Node>, spread?: Node } {
+        const structName = this.types.typeOf(node);
+        const struct = structName ? resolveStruct(this.func.getSourceFile(), structName) : undefined;
+        if (!structName || !struct) {
+            throw compileError(node, DiagnosticCode.ExplicitTypeRequired, "Object literal needs a struct type: annotate the variable or use 'as <Struct>'");
+        }
+
+        const members = getStructMembers(structName, struct);
+        const values = new Map<string, Node>();
+        let spread: Node | undefined;
+        node.getProperties().forEach((property, index) => {
+            if (Node.isSpreadAssignment(property)) {
+                if (index > 0) {
+                    throw compileError(property, DiagnosticCode.UnsupportedNode, "Only a single spread, before the fields, is supported in object literals");
+                }
+                spread = property.getExpression();
+                const spreadType = this.types.typeOf(spread);
+                if (spreadType !== structName) {
+                    throw compileError(spread, DiagnosticCode.TypeMismatch, `Cannot spread ${spreadType ?? "an untyped value"} into struct '${structName}'`);
+                }
+            } else if (Node.isPropertyAssignment(property) || Node.isShorthandPropertyAssignment(property)) {
+                const field = property.getName();
+                if (!members.some(m => m.getName() === field)) {
+                    throw compileError(property, DiagnosticCode.TypeMismatch, `Struct '${structName}' has no field '${field}'`);
+                }
+                values.set(field, Node.isPropertyAssignment(property) ? property.getInitializerOrThrow() : property.getNameNode());
+            } else {
+                throw compileError(property, DiagnosticCode.UnsupportedNode, `Unsupported syntax '${property.getKindName()}' in object literal`);
+            }
+        });
+
+        const missing = spread ? [] : members.map(m => m.getName()).filter(field => !values.has(field));
+        if (missing.length > 0) {
+            const fields = missing.map(field => `'${field}'`).join(", ");
+            throw compileError(node, DiagnosticCode.TypeMismatch, `Missing ${missing.length > 1 ? "fields" : "field"} ${fields} in object literal of struct '${structName}'`);
+        }
+        return { structName, members, values, spread };
+    }
+
+    /**
+     * Check if an expression names a variable, field or element without side effects, so that it can be read more than once
+     */
+    private isReference(node: Node): boolean {
+        if (Node.isIdentifier(node)) return true;
+        if (Node.isParenthesizedExpression(node)) return this.isReference(node.getExpression());
+        if (Node.isPropertyAccessExpression(node)) return this.isReference(node.getExpression());
+        if (Node.isElementAccessExpression(node)) {
+            const index = node.getArgumentExpression();
+            return this.isReference(node.getExpression()) && !!index && (Node.isIdentifier(index) || Node.isNumericLiteral(index));
+        }
+        return false;
+    }
+
     private visitExpressionStatement(node: ExpressionStatement): string {
         return `    ${this.visitNode(node.getExpression())};`;
     }
 
-    private visitBinaryExpression(node: BinaryExpression): string {
-        return `${this.visitNode(node.getLeft())} ${node.getOperatorToken().getText()} ${this.visitNode(node.getRight())}`;
+    private visitBinaryExpression(node: BinaryExpression, expected?: string): string {
+        const op = node.getOperatorToken().getKind();
+        const opText = WGSL_OPERATORS[op] ?? node.getOperatorToken().getText();
+        const left = node.getLeft();
+        const right = node.getRight();
+
+        if (isAssignmentOperator(op)) {
+            const target = this.types.typeOf(left);
+            return `${this.visitNode(left)} ${opText} ${this.visitConverted(right, target, "assignment")}`;
+        }
+
+        if (isShiftOperator(op)) {
+            // WGSL shift amounts are always unsigned
+            return `${this.visitNode(left)} ${opText} ${this.visitConverted(right, "u32", "shift amount")}`;
+        }
+
+        if (op === SyntaxKind.AmpersandAmpersandToken || op === SyntaxKind.BarBarToken) {
+            return `${this.visitNode(left)} ${opText} ${this.visitNode(right)}`;
+        }
+
+        // Arithmetic, bitwise and comparison operands are promoted to a common component type.
+        // Literal-only arithmetic takes its type from the context instead
+        const promoted = promote(componentType(this.types.typeOf(left)), componentType(this.types.typeOf(right)));
+        const target = promoted ?? (isComparisonOperator(op) ? undefined : expected);
+        const context = `operand of '${node.getOperatorToken().getText()}'`;
+        return `${this.visitConverted(left, target, context)} ${opText} ${this.visitConverted(right, target, context)}`;
+    }
+
+    /**
+     * Visit an expression whose value must have the given type,
+     * inserting a conversion where that is safe and reporting an error where it is not
+     */
+    private visitConverted(node: Node, targetType: string | undefined, context: string): string {
+        const type = this.types.typeOf(node);
+        const to = componentType(targetType);
+        const text = this.visitNode(node, to);
+
+        switch (conversionKind(componentType(type), to)) {
+            case "cast":
+                return castTo(text, type!, to!);
+            case "error":
+                // Float literals were already checked for an integral value by visitNumericLiteral
+                if (isAbstract(type) && this.isLiteral(node)) break;
+                throw compileError(node, DiagnosticCode.TypeMismatch, `Cannot implicitly convert ${concretize(type)} to ${targetType} in ${context}; use an explicit ${to}(...) conversion`);
+        }
+        return text;
+    }
+
+    /**
+     * Check if an expression is a numeric literal, possibly negated or parenthesized
+     */
+    private isLiteral(node: Node): boolean {
+        if (Node.isNumericLiteral(node)) return true;
+        if (Node.isParenthesizedExpression(node)) return this.isLiteral(node.getExpression());
+        if (Node.isPrefixUnaryExpression(node)) return this.isLiteral(node.getOperand());
+        return false;
     }
 
     private visitIdentifier(node: Identifier): string {
         const text = node.getText();
         if (text === "global_id") return "global_invocation_id";
+        // Functions and constants of the program imported under another name keep their declared name in WGSL.
+        // Imports that do not resolve to the program, e.g. from a runtime that is not built yet, keep their text
+        const symbol = node.getSymbol();
+        if (symbol?.isAlias()) {
+            const aliased = resolveIdentifier(node);
+            return aliased && isProgramFile(aliased.getSourceFile()) ? symbol.getAliasedSymbol()!.getName() : text;
+        }
+        const decl = symbol?.getDeclarations()[0];
+        const uniforms = decl && Node.isParameterDeclaration(decl) ? this.packedParameters.get(decl) : undefined;
+        if (uniforms) return `${uniforms}.${text}`;
         return text;
     }
 
-    private visitNumericLiteral(node: NumericLiteral): string {
-        return node.getText();
+    private visitNumericLiteral(node: NumericLiteral, expected?: string): string {
+        const text = node.getText();
+        const value = Number(text);
+        const isFloatText = this.types.typeOf(node) === ABSTRACT_FLOAT;
+        const isDecimal = /^\d+$/.test(text);
+
+        switch (expected) {
+            case "f32":
+                if (isFloatText) return text;
+                return isDecimal ? `${text}.0` : `${value}.0`;
+            case "u32":
+            case "i32":
+                if (!Number.isInteger(value)) {
+                    throw compileError(node, DiagnosticCode.InvalidLiteral, `Literal ${text} is not a valid ${expected}`);
+                }
+                if (expected === "u32") return `${isFloatText ? value : text}u`;
+                return isFloatText ? `${value}i` : text;
+        }
+        return text;
     }
 
     private visitIfStatement(node: IfStatement): string {
@@ -336,7 +703,7 @@ ${body}
         let casesStr = '';
         for (const clause of clauses) {
             if (Node.isCaseClause(clause)) {
-                const caseExpr = this.visitNode(clause.getExpression());
+                const caseExpr = this.visitConverted(clause.getExpression(), this.types.typeOf(node.getExpression()), "case selector");
                 const statements = clause.getStatements();
                 const body = statements.map(s => this.visitNode(s)).join('\n');
                 casesStr += `        case ${caseExpr}: {\n${body}\n        }\n`;
@@ -350,21 +717,30 @@ ${body}
         return `    switch (${expr}) {\n${casesStr}    }`;
     }
 
-    private visitPrefixUnaryExpression(node: PrefixUnaryExpression): string {
+    private visitPrefixUnaryExpression(node: PrefixUnaryExpression, expected?: string): string {
         const op = node.getOperatorToken();
         const opText = op === SyntaxKind.MinusToken ? "-" : op === SyntaxKind.ExclamationToken ? "!" : "";
-        return `${opText}${this.visitNode(node.getOperand())}`;
+        if (op === SyntaxKind.MinusToken && expected === "u32" && this.isLiteral(node.getOperand())) {
+            throw compileError(node, DiagnosticCode.InvalidLiteral, `Negative literal ${node.getText()} is not a valid u32`);
+        }
+        return `${opText}${this.visitNode(node.getOperand(), expected)}`;
     }
 
     private visitReturnStatement(node: ReturnStatement): string {
-        return `    return ${node.getExpression() ? this.visitNode(node.getExpression()!) : ""};`;
+        const expr = node.getExpression();
+        const value = expr ? this.visitConverted(expr, this.types.returnType(), "return value") : "";
+        // Fragment shaders writing frag_depth return it with the color
+        if (this.builtins.has("frag_depth")) return `    return ${this.func.getName()}_Output(${value}, frag_depth);`;
+        return `    return ${value};`;
     }
 
-    private visitCallExpression(node: CallExpression): string {
+    private visitCallExpression(node: CallExpression, expected?: string): string {
         const expr = node.getExpression();
-        const args = node.getArguments().map(a => this.visitNode(a));
-
         const funcName = expr.getText();
+        // discard is a statement in WGSL
+        if (funcName === "discard" && Node.isIdentifier(expr) && isRuntimeGlobal(expr)) return "discard";
+        const args = this.visitArguments(funcName, node.getArguments(), expected);
+
         if (funcName.startsWith("atomic") && args.length > 0) {
             args[0] = `&${args[0]}`;
         }
@@ -372,20 +748,119 @@ ${body}
         return `${this.visitNode(expr)}(${args.join(", ")})`;
     }
 
+    /**
+     * Visit call arguments, converting them to the parameter types of the callee where it is known
+     */
+    private visitArguments(funcName: string, args: Node[], expected?: string): string[] {
+        // Vector and matrix constructors take components of their own scalar type;
+        // the constructor is an explicit conversion, so any numeric component is cast
+        const constructed = TYPE_CONSTRUCTORS[funcName];
+        if (constructed && (args.length > 1 || !isScalar(constructed))) {
+            const component = componentType(constructed)!;
+            return args.map(a => {
+                const type = this.types.typeOf(a);
+                const text = this.visitNode(a, component);
+                return conversionKind(componentType(type), component) === "none" || isAbstract(type) ? text : castTo(text, type!, component);
+            });
+        }
+
+        const deviceFunc = this.types.getDeviceFunction(funcName);
+        if (deviceFunc) {
+            const params = deviceFunc.getParameters();
+            return args.map((a, i) => {
+                const paramType = params[i] ? this.types.parameterType(params[i]) : undefined;
+                if (isRuntimeArray(paramType)) return `${this.isBufferPointer(a) ? "" : "&"}${this.visitNode(a)}`;
+                return this.visitConverted(a, paramType, `argument '${params[i]?.getName()}' of '${funcName}'`);
+            });
+        }
+
+        const builtin = BUILTIN_FUNCTIONS[funcName];
+        if (builtin) {
+            const inferred = this.types.builtinArgumentComponent(builtin, args.map(a => this.types.typeOf(a)));
+            const component = inferred === undefined || isAbstract(inferred) ? expected ?? inferred : inferred;
+            if (builtin.args === "texture") return args.map(a => this.visitNode(a));
+            return args.map((a, i) => {
+                if (builtin.args === "atomic" && i === 0) return this.visitNode(a);
+                return this.visitConverted(a, component, `argument ${i + 1} of '${funcName}'`);
+            });
+        }
+
+        return args.map(a => this.visitNode(a));
+    }
+
     private visitElementAccessExpression(node: ElementAccessExpression): string {
         const expr = node.getExpression();
         const arg = node.getArgumentExpression();
+        const folded = this.foldedArray(expr);
+        if (folded) {
+            const index = arg ? this.visitConverted(arg, "u32", `index of '${expr.getText()}'`) : "0u";
+            // WGSL does not mix + with shifts and bitwise operators without parentheses
+            return `${folded.name}[${folded.entry}.x + ${arg && Node.isBinaryExpression(arg) ? `(${index})` : index}]`;
+        }
         return `${this.visitNode(expr)}[${arg ? this.visitNode(arg) : "0"}]`;
     }
 
+    // The folded array and entry of a folded kernel parameter
+    private foldedArray(node: Node) {
+        const decl = Node.isIdentifier(node) ? resolveIdentifier(node) : undefined;
+        return decl && Node.isParameterDeclaration(decl) ? this.foldedParameters.get(decl) : undefined;
+    }
+
     private visitPropertyAccessExpression(node: PropertyAccessExpression): string {
-        return `${this.visitNode(node.getExpression())}.${node.getName()}`;
+        const base = node.getExpression();
+        const enumLike = this.types.enumOf(base);
+        if (enumLike) return enumMemberName(enumLike, node.getName());
+
+        const baseType = this.types.typeOf(base);
+        if (node.getName() === "length" && baseType?.startsWith("array<")) {
+            const count = arrayCount(baseType);
+            if (count) return count;
+            const folded = this.foldedArray(base);
+            if (folded) return `${folded.entry}.y`;
+            return `arrayLength(${this.isBufferPointer(base) ? "" : "&"}${this.visitNode(base)})`;
+        }
+        return `${this.visitNode(base)}.${node.getName()}`;
     }
 
-    private visitConditionalExpression(node: ConditionalExpression): string {
+    // Runtime-sized arrays are passed to device functions as pointers already
+    private isBufferPointer(node: Node): boolean {
+        const decl = Node.isIdentifier(node) ? resolveIdentifier(node) : undefined;
+        return decl !== undefined && Node.isParameterDeclaration(decl) && isDeviceFunction(this.func);
+    }
+
+    /**
+     * Lower an array literal to a constructor of its fixed-size array type
+     */
+    private visitArrayLiteral(node: ArrayLiteralExpression): string {
+        const type = this.types.typeOf(node);
+        if (!type) {
+            throw compileError(node, DiagnosticCode.ExplicitTypeRequired, "Cannot infer the element type of the array literal: annotate the variable, e.g. FixedArray<f32, 4>");
+        }
+        const elements = node.getElements();
+        const count = arrayCount(type);
+        if (count && /^\d+$/.test(count) && Number(count) !== elements.length) {
+            throw compileError(node, DiagnosticCode.TypeMismatch, `Array literal has ${elements.length} elements, but ${type} expects ${count}`);
+        }
+        const element = elementType(type);
+        return `${type}(${elements.map(e => this.visitConverted(e, element, "array element")).join(", ")})`;
+    }
+
+    /**
+     * Lower `new Array<T>(N)` to the zero value of array<T, N>
+     */
+    private visitNewExpression(node: NewExpression): string {
+        const type = this.types.typeOf(node);
+        if (!type) {
+            throw compileError(node, DiagnosticCode.UnsupportedNode, "Only arrays with an element type and a constant length can be allocated, e.g. new Array<f32>(16)");
+        }
+        return `${type}()`;
+    }
+
+    private visitConditionalExpression(node: ConditionalExpression, expected?: string): string {
         const condition = this.visitNode(node.getCondition());
-        const whenTrue = this.visitNode(node.getWhenTrue());
-        const whenFalse = this.visitNode(node.getWhenFalse());
+        const type = isAbstract(this.types.typeOf(node)) ? expected : this.types.typeOf(node);
+        const whenTrue = this.visitConverted(node.getWhenTrue(), type, "conditional expression");
+        const whenFalse = this.visitConverted(node.getWhenFalse(), type, "conditional expression");
         return `select(${whenFalse}, ${whenTrue}, ${condition})`;
     }
 
@@ -395,9 +870,10 @@ ${body}
         const name = decl.getName();
         const init = decl.getInitializer();
         const typeNode = decl.getTypeNode();
-        const typeAnnotation = typeNode ? `: ${typeNode.getText()}` : '';
+        const declaredType = typeNode ? mapType(typeNode.getText(), typeNode) : undefined;
+        const typeAnnotation = declaredType ? `: ${declaredType}` : '';
         const wgslKeyword = isConst ? "let" : "var";
-        return `${wgslKeyword} ${name}${typeAnnotation} = ${init ? this.visitNode(init) : "0.0"}`;
+        return `${wgslKeyword} ${name}${typeAnnotation} = ${init ? this.visitConverted(init, this.types.variableType(decl), `initializer of '${name}'`) : "0.0"}`;
     }
 
     private visitPostfixUnaryExpression(node: PostfixUnaryExpression): string {
@@ -406,121 +882,53 @@ ${body}
         return `${this.visitNode(node.getOperand())}${opText}`;
     }
 
-    private mapType(tsType: string): string {
-        const sharedArrayMatch = tsType.match(/^SharedArray<(.+)>$/);
-        if (sharedArrayMatch) {
-            const innerType = sharedArrayMatch[1];
-            return `array<${this.mapType(innerType)}>`;
-        }
-
-        const atomicMatch = tsType.match(/^Atomic<(.+)>$/);
-        if (atomicMatch) {
-            const innerType = atomicMatch[1];
-            return `atomic<${this.mapType(innerType)}>`;
-        }
-
-        if (tsType === "number") return "f32";
-        if (tsType === "boolean") return "bool";
-        if (tsType === "u32") return "u32";
-        if (tsType === "i32") return "i32";
-        if (tsType === "f32") return "f32";
-
-        if (tsType === "vec2" || tsType === "vec2f") return "vec2<f32>";
-        if (tsType === "vec3" || tsType === "vec3f") return "vec3<f32>";
-        if (tsType === "vec4" || tsType === "vec4f") return "vec4<f32>";
-        if (tsType === "vec2i") return "vec2<i32>";
-        if (tsType === "vec3i") return "vec3<i32>";
-        if (tsType === "vec4i") return "vec4<i32>";
-        if (tsType === "vec2u") return "vec2<u32>";
-        if (tsType === "vec3u") return "vec3<u32>";
-        if (tsType === "vec4u") return "vec4<u32>";
-
-        if (tsType === "mat2x2" || tsType === "mat2x2f") return "mat2x2<f32>";
-        if (tsType === "mat3x3" || tsType === "mat3x3f") return "mat3x3<f32>";
-        if (tsType === "mat4x4" || tsType === "mat4x4f") return "mat4x4<f32>";
-
-        if (this.isStructType(tsType)) return tsType;
-
-        console.warn(`Warning: Unknown type '${tsType}', defaulting to f32`);
-        return "f32";
-    }
-
-    private isScalarOrStructType(wgslType: string): boolean {
-        const scalarTypes = ["f32", "u32", "i32", "bool"];
-        if (scalarTypes.includes(wgslType)) return true;
-
-        if (wgslType.startsWith("vec2<") || wgslType.startsWith("vec3<") || wgslType.startsWith("vec4<")) {
-            return true;
-        }
-
-        if (wgslType.startsWith("mat2x2<") || wgslType.startsWith("mat3x3<") || wgslType.startsWith("mat4x4<")) {
-            return true;
-        }
-
-        if (!wgslType.startsWith("array<")) {
-            return true;
-        }
-
-        return false;
-    }
-
-    private isStructType(typeText: string): boolean {
-        const primitives = ["number", "boolean", "u32", "i32", "f32", "vec2", "vec3", "vec4", "mat2x2", "mat3x3", "mat4x4"];
-        if (primitives.includes(typeText)) return false;
-        if (typeText.includes("Array")) return false;
-        return /^[A-Z]/.test(typeText);
+    /**
+     * Generate the WGSL struct for an interface or object type alias
+     */
+    private generateStructDefinition(structName: string, struct: InterfaceDeclaration | TypeAliasDeclaration): string {
+        const members = getStructMembers(structName, struct);
+        const attributes = structName === this.varyings ? this.varyingAttributes(structName, struct, members) : undefined;
+        const fields = members.map((member, i) => {
+            const memberTypeNode = member.getTypeNode();
+            const memberType = memberTypeNode ? memberTypeNode.getText() : "f32";
+            return this.mark(member, `    ${attributes?.[i] ?? ""}${member.getName()} : ${mapType(memberType, memberTypeNode ?? member)}`);
+        });
+        return `struct ${structName} {\n${fields.join(",\n")}\n}`;
     }
 
-    private generateStructDefinition(sourceFile: SourceFile, structName: string): string | null {
-        const interfaceDecl = sourceFile.getInterface(structName);
-        if (interfaceDecl) {
-            let fields = "";
-            const members = interfaceDecl.getProperties();
-
-            if (members.length === 0) {
-                console.warn(`Warning: Struct '${structName}' has no properties`);
-                return null;
-            }
-
-            members.forEach((member, index) => {
-                const memberName = member.getName();
-                const memberTypeNode = member.getTypeNode();
-                const memberType = memberTypeNode ? memberTypeNode.getText() : "f32";
-                const wgslType = this.mapType(memberType);
-                const comma = index < members.length - 1 ? "," : "";
-                fields += `    ${memberName} : ${wgslType}${comma}\n`;
-            });
-            return `struct ${structName} {\n${fields}}`;
-        }
-
-        const typeAlias = sourceFile.getTypeAlias(structName);
-        if (typeAlias) {
-            const typeNode = typeAlias.getTypeNode();
-            if (typeNode && Node.isTypeLiteral(typeNode)) {
-                let fields = "";
-                const members = typeNode.getMembers();
-
-                if (members.length === 0) {
-                    console.warn(`Warning: Type alias '${structName}' has no properties`);
-                    return null;
+    /**
+     * IO attributes of the fields of the varyings struct: `position` is the clip-space position of the vertex,
+     * the other fields are numbered user-defined locations, interpolated unless they are integers
+     */
+    private varyingAttributes(structName: string, struct: InterfaceDeclaration | TypeAliasDeclaration, members: PropertySignature[]): string[] {
+        let location = 0;
+        const attributes = members.map(member => {
+            const memberTypeNode = member.getTypeNode();
+            const type = mapType(memberTypeNode ? memberTypeNode.getText() : "f32", memberTypeNode ?? member);
+            if (member.getName() === "position") {
+                if (type !== "vec4<f32>") {
+                    throw compileError(member, DiagnosticCode.InvalidStageInterface, `Field 'position' of varyings '${structName}' must be a vec4f, got ${type}`);
                 }
-
-                members.forEach((member, index) => {
-                    if (Node.isPropertySignature(member)) {
-                        const memberName = member.getName();
-                        const memberTypeNode = member.getTypeNode();
-                        const memberType = memberTypeNode ? memberTypeNode.getText() : "f32";
-                        const wgslType = this.mapType(memberType);
-                        const comma = index < members.length - 1 ? "," : "";
-                        fields += `    ${memberName} : ${wgslType}${comma}\n`;
-                    }
-                });
-                return `struct ${structName} {\n${fields}}`;
-            } else {
-                console.warn(`Warning: Type alias '${structName}' is not an object literal type`);
+                return "@builtin(position) ";
             }
+            const component = componentType(type);
+            if (!component || component === "bool" || !(isScalar(type) || type.startsWith("vec"))) {
+                throw compileError(member, DiagnosticCode.InvalidStageInterface,
+                    `Field '${member.getName()}' of varyings '${structName}' is ${type}, but stages can only pass numeric scalars and vectors`);
+            }
+            return `@location(${location++}) ${component === "f32" ? "" : "@interpolate(flat) "}`;
+        });
+        if (!members.some(member => member.getName() === "position")) {
+            throw compileError(struct, DiagnosticCode.InvalidStageInterface, `Varyings '${structName}' need a 'position: vec4f' field with the clip-space position of the vertex`);
         }
-
-        return null;
+        return attributes;
     }
 }
+
+/**
+ * Whether an identifier refers to a global of the runtime, such as a built-in, rather than to a declaration of the program
+ */
+function isRuntimeGlobal(id: Identifier): boolean {
+    const decl = resolveIdentifier(id);
+    return !decl || !isProgramFile(decl.getSourceFile());
+}
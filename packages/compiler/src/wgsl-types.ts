@@ -0,0 +1,295 @@
+import { Node } from "ts-morph";
+import { compileError, DiagnosticCode } from "./diagnostics";
+import { enumType, resolveEnum } from "./modules";
+
+/**
+ * Helpers for the WGSL type strings produced by mapType (e.g. "f32", "vec3<f32>", "array<u32>")
+ */
+
+// Types of numeric literals before they are pinned to a concrete type
+export const ABSTRACT_INT = "abstract-int";
+export const ABSTRACT_FLOAT = "abstract-float";
+
+const SCALAR_TYPES = ["f32", "i32", "u32", "bool"];
+
+// Texel formats of storage textures, as in WGSL
+const STORAGE_TEXTURE_FORMATS = [
+    "rgba8unorm", "rgba8snorm", "rgba8uint", "rgba8sint", "rgba16uint", "rgba16sint", "rgba16float",
+    "r32uint", "r32sint", "r32float", "rg32uint", "rg32sint", "rg32float", "rgba32uint", "rgba32sint", "rgba32float",
+];
+
+/**
+ * Map a TypeScript type annotation to its WGSL equivalent
+ * @param tsType Type text as written in the source
+ * @param node Node the type belongs to, used to locate the error for unknown types
+ */
+export function mapType(tsType: string, node: Node): string {
+    const sharedArrayMatch = tsType.match(/^SharedArray<(.+)>$/);
+    if (sharedArrayMatch) {
+        const innerType = sharedArrayMatch[1];
+        return `array<${mapType(innerType, node)}>`;
+    }
+
+    // Fixed-size arrays: FixedArray<f32, 8> or a tuple of a single element type, [f32, f32, f32, f32]
+    const fixedArrayMatch = tsType.match(/^FixedArray<(.+)>$/);
+    if (fixedArrayMatch) {
+        const typeArgs = splitTopLevel(fixedArrayMatch[1]);
+        const count = typeArgs[1];
+        if (typeArgs.length !== 2 || !/^[1-9]\d*$/.test(count)) {
+            throw compileError(node, DiagnosticCode.UnknownType, `FixedArray needs an element type and a positive integer length, got '${tsType}'`);
+        }
+        return `array<${mapType(typeArgs[0], node)}, ${count}>`;
+    }
+
+    const tupleMatch = tsType.match(/^\[(.+)\]$/s);
+    if (tupleMatch) {
+        const elements = splitTopLevel(tupleMatch[1]).map(element => mapType(element, node));
+        if (elements.some(element => element !== elements[0])) {
+            throw compileError(node, DiagnosticCode.UnknownType, `Tuple '${tsType}' mixes element types: arrays need a single element type`);
+        }
+        return `array<${elements[0]}, ${elements.length}>`;
+    }
+
+    // Textures and samplers, bound from SharedTextures and sampler descriptors
+    const textureMatch = tsType.match(/^Texture2D(?:<(.+)>)?$/);
+    if (textureMatch) {
+        const sampled = mapType(textureMatch[1] ?? "f32", node);
+        if (!["f32", "i32", "u32"].includes(sampled)) {
+            throw compileError(node, DiagnosticCode.UnknownType, `Textures hold f32, i32 or u32 texels, got '${tsType}'`);
+        }
+        return `texture_2d<${sampled}>`;
+    }
+
+    const storageTextureMatch = tsType.match(/^StorageTexture2D<["'](\w+)["']>$/);
+    if (storageTextureMatch || tsType.startsWith("StorageTexture2D")) {
+        const format = storageTextureMatch?.[1];
+        if (!format || !STORAGE_TEXTURE_FORMATS.includes(format)) {
+            throw compileError(node, DiagnosticCode.UnknownType,
+                `Storage textures need one of the formats ${STORAGE_TEXTURE_FORMATS.join(", ")}, e.g. StorageTexture2D<"rgba8unorm">, got '${tsType}'`);
+        }
+        return `texture_storage_2d<${format}, write>`;
+    }
+
+    if (tsType === "Sampler") return "sampler";
+
+    const atomicMatch = tsType.match(/^Atomic<(.+)>$/);
+    if (atomicMatch) {
+        const innerType = atomicMatch[1];
+        return `atomic<${mapType(innerType, node)}>`;
+    }
+
+    if (tsType === "Float32Array") return "array<f32>";
+    if (tsType === "Int32Array") return "array<i32>";
+    if (tsType === "Uint32Array") return "array<u32>";
+
+    if (tsType === "number") return "f32";
+    if (tsType === "boolean") return "bool";
+    if (tsType === "u32") return "u32";
+    if (tsType === "i32") return "i32";
+    if (tsType === "f32") return "f32";
+
+    if (tsType === "vec2" || tsType === "vec2f") return "vec2<f32>";
+    if (tsType === "vec3" || tsType === "vec3f") return "vec3<f32>";
+    if (tsType === "vec4" || tsType === "vec4f") return "vec4<f32>";
+    if (tsType === "vec2i") return "vec2<i32>";
+    if (tsType === "vec3i") return "vec3<i32>";
+    if (tsType === "vec4i") return "vec4<i32>";
+    if (tsType === "vec2u") return "vec2<u32>";
+    if (tsType === "vec3u") return "vec3<u32>";
+    if (tsType === "vec4u") return "vec4<u32>";
+
+    if (tsType === "mat2x2" || tsType === "mat2x2f") return "mat2x2<f32>";
+    if (tsType === "mat3x3" || tsType === "mat3x3f") return "mat3x3<f32>";
+    if (tsType === "mat4x4" || tsType === "mat4x4f") return "mat4x4<f32>";
+
+    if (isStructType(tsType)) {
+        // Enums are typed by the values of their members
+        const enumLike = resolveEnum(node.getSourceFile(), tsType);
+        return enumLike ? enumType(enumLike) : tsType;
+    }
+
+    throw compileError(node, DiagnosticCode.UnknownType, `Unknown type '${tsType}'`);
+}
+
+/**
+ * Split a list of type arguments or tuple elements at its top-level commas
+ */
+function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (c === "<" || c === "[" || c === "(" || c === "{") depth++;
+        else if (c === ">" || c === "]" || c === ")" || c === "}") depth--;
+        else if (c === "," && depth === 0) {
+            parts.push(text.slice(start, i).trim());
+            start = i + 1;
+        }
+    }
+    parts.push(text.slice(start).trim());
+    return parts;
+}
+
+export function isStructType(typeText: string): boolean {
+    const primitives = ["number", "boolean", "u32", "i32", "f32", "vec2", "vec3", "vec4", "mat2x2", "mat3x3", "mat4x4", "Texture2D", "Sampler"];
+    if (primitives.includes(typeText)) return false;
+    // Typed arrays map to arrays, and generic types such as SharedArray<Particle> are not structs themselves
+    if (/^(Float32|Int32|Uint32)Array$/.test(typeText)) return false;
+    return /^[A-Z]\w*$/.test(typeText);
+}
+
+export function isScalarOrStructType(wgslType: string): boolean {
+    if (SCALAR_TYPES.includes(wgslType)) return true;
+
+    if (isTextureOrSampler(wgslType)) return false;
+
+    if (wgslType.startsWith("vec2<") || wgslType.startsWith("vec3<") || wgslType.startsWith("vec4<")) {
+        return true;
+    }
+
+    if (wgslType.startsWith("mat2x2<") || wgslType.startsWith("mat3x3<") || wgslType.startsWith("mat4x4<")) {
+        return true;
+    }
+
+    if (!wgslType.startsWith("array<")) {
+        return true;
+    }
+
+    return false;
+}
+
+/**
+ * Whether a WGSL type is a texture or a sampler, which live in the handle address space
+ */
+export function isTextureOrSampler(type: string | undefined): boolean {
+    return type !== undefined && (type.startsWith("texture_") || type === "sampler");
+}
+
+export function isAbstract(type: string | undefined): boolean {
+    return type === ABSTRACT_INT || type === ABSTRACT_FLOAT;
+}
+
+/**
+ * Pin an abstract literal type to the type WGSL would give it in a `let` or `var`
+ */
+export function concretize(type: string | undefined): string | undefined {
+    if (type === ABSTRACT_INT) return "i32";
+    if (type === ABSTRACT_FLOAT) return "f32";
+    return type;
+}
+
+export function isScalar(type: string | undefined): boolean {
+    return type !== undefined && (SCALAR_TYPES.includes(type) || isAbstract(type));
+}
+
+export function isFloat(type: string | undefined): boolean {
+    return type === "f32" || type === ABSTRACT_FLOAT;
+}
+
+export function isInteger(type: string | undefined): boolean {
+    return type === "i32" || type === "u32" || type === ABSTRACT_INT;
+}
+
+/**
+ * Number of components of a vecN<T> type, or undefined for anything else
+ */
+export function vectorSize(type: string | undefined): number | undefined {
+    const match = type?.match(/^vec([234])<(.+)>$/);
+    return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Columns and rows of a matCxR<T> type, or undefined for anything else
+ */
+export function matrixShape(type: string | undefined): { columns: number, rows: number } | undefined {
+    const match = type?.match(/^mat([234])x([234])<(.+)>$/);
+    return match ? { columns: Number(match[1]), rows: Number(match[2]) } : undefined;
+}
+
+/**
+ * Scalar component type of a scalar, vector or matrix type
+ */
+export function componentType(type: string | undefined): string | undefined {
+    if (type === undefined) return undefined;
+    if (isScalar(type)) return type;
+    const match = type.match(/^(?:vec[234]|mat[234]x[234])<(.+)>$/);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * Element type of array<T>, atomic<T> or a pointer to either
+ */
+export function elementType(type: string | undefined): string | undefined {
+    if (type === undefined) return undefined;
+    const ptrMatch = type.match(/^ptr<\w+, (.+), \w+>$/);
+    if (ptrMatch) return elementType(ptrMatch[1]);
+    const match = type.match(/^(?:array|atomic)<(.+?)(?:, \w+)?>$/);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * Element count of a fixed-size array<T, N>, a number or the name of a constant.
+ * Undefined for runtime-sized arrays and anything else
+ */
+export function arrayCount(type: string | undefined): string | undefined {
+    const match = type?.match(/^array<.+, (\w+)>$/);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * Check if a type is a runtime-sized array<T>, the type of storage buffer bindings
+ */
+export function isRuntimeArray(type: string | undefined): boolean {
+    return type !== undefined && type.startsWith("array<") && arrayCount(type) === undefined;
+}
+
+/**
+ * Replace the component type of a scalar or vector type
+ */
+export function withComponent(type: string, component: string): string {
+    const size = vectorSize(type);
+    return size ? `vec${size}<${component}>` : component;
+}
+
+/**
+ * Common component type two numeric operands are promoted to: f32 wins over u32, which wins over i32.
+ * Returns undefined when neither side pins a concrete type.
+ */
+export function promote(a: string | undefined, b: string | undefined): string | undefined {
+    const concrete = [a, b].filter(t => t !== undefined && !isAbstract(t));
+    if (concrete.length === 0) return undefined;
+    if (isFloat(a) || isFloat(b)) return "f32";
+    if (concrete.includes("u32")) return "u32";
+    return concrete[0];
+}
+
+/**
+ * Like promote, but two abstract types unify to the wider abstract type instead of undefined
+ */
+export function unify(a: string | undefined, b: string | undefined): string | undefined {
+    return promote(a, b) ?? (a === ABSTRACT_FLOAT ? a : b ?? a);
+}
+
+/**
+ * How a value whose component type is `from` converts to the component type `to`:
+ * "none" when WGSL accepts it as is, "cast" when an explicit conversion is safe to insert,
+ * and "error" when it would lose information (f32 to integer) or mixes bool with numbers.
+ */
+export function conversionKind(from: string | undefined, to: string | undefined): "none" | "cast" | "error" {
+    if (from === undefined || to === undefined || from === to) return "none";
+    if (!isScalar(from) || !isScalar(to) || isAbstract(to)) return "none";
+    if (from === "bool" || to === "bool") return "error";
+    if (from === ABSTRACT_INT) return "none";
+    if (from === ABSTRACT_FLOAT) return to === "f32" ? "none" : "error";
+    if (to === "f32") return "cast";
+    if (from === "f32") return "error";
+    return "cast";
+}
+
+/**
+ * Wrap an expression in a conversion to the given component type, keeping its vector shape
+ */
+export function castTo(text: string, type: string, component: string): string {
+    return `${withComponent(concretize(type)!, component)}(${text})`;
+}
@@ -1,5 +1,5 @@
 import React, { useEffect, useRef } from 'react';
-import { runtime, SharedArray, vec3f, vec4f, vec4i, f32, i32, u32, Camera, SyncMode } from "@accelscript/runtime";
+import { runtime, SharedArray, vec3f, vec4f, vec4i, f32, i32, u32, Camera } from "@accelscript/runtime";
 import { useCanvas } from '../hooks/useCanvas';
 import { useUniforms, UniformControls } from '../hooks/useUniforms';
 import { useFps } from '../hooks/useFps';
@@ -337,11 +337,11 @@ export default function Fluid3D() {
 
         const init = async () => {
             const NUM_PARTICLES = 100000;
-            const pos = new SharedArray(vec3f, NUM_PARTICLES, SyncMode.None);
-            const vel = new SharedArray(vec3f, NUM_PARTICLES, SyncMode.None);
-            const force = new SharedArray(vec3f, NUM_PARTICLES, SyncMode.None);
-            const density = new SharedArray(f32, NUM_PARTICLES, SyncMode.None);
-            const pressure = new SharedArray(f32, NUM_PARTICLES, SyncMode.None);
+            const pos = new SharedArray(vec3f, NUM_PARTICLES);
+            const vel = new SharedArray(vec3f, NUM_PARTICLES);
+            const force = new SharedArray(vec3f, NUM_PARTICLES);
+            const density = new SharedArray(f32, NUM_PARTICLES);
+            const pressure = new SharedArray(f32, NUM_PARTICLES);
             const sizes = new SharedArray(vec3f, NUM_PARTICLES);
             const colors = new SharedArray(vec3f, NUM_PARTICLES);
 
@@ -356,8 +356,8 @@ export default function Fluid3D() {
             const NUM_CELLS = GRID_RES_X * GRID_RES_Y * GRID_RES_Z;
 
             // Atomic<i32> for grid head, initialized to -1
-            const gridHead = new SharedArray(i32, NUM_CELLS, SyncMode.None);
-            const gridNext = new SharedArray(i32, NUM_PARTICLES, SyncMode.None);
+            const gridHead = new SharedArray(i32, NUM_CELLS);
+            const gridNext = new SharedArray(i32, NUM_PARTICLES);
 
             // Initialize gridHead to -1
             for (let i = 0; i < NUM_CELLS; i++) {
@@ -405,15 +405,6 @@ export default function Fluid3D() {
                 gridNext.set(i, [-1]);
             }
 
-            // Manually sync to device since we used SyncMode.None
-            if (runtime.device) {
-                await pos.syncToDevice(runtime.device);
-                await vel.syncToDevice(runtime.device);
-                await force.syncToDevice(runtime.device);
-                await gridHead.syncToDevice(runtime.device);
-                await gridNext.syncToDevice(runtime.device);
-            }
-
             let currentPlateAngle = 0.0;
 
             const animate = async () => {
@@ -450,22 +441,25 @@ export default function Fluid3D() {
                 const groupCountY: u32 = Math.ceil(GRID_RES_Y / 4);
                 const groupCountZ: u32 = Math.ceil(GRID_RES_Z / 4);
 
-                await resetGrid<[groupCountX, groupCountY, groupCountZ]>(gridHead, currentParams);
-                await updateGrid<[groupCountParticles, 1, 1]>(pos, gridHead, gridNext, currentParams);
-                await computeDensityPressure<[groupCountParticles, 1, 1]>(pos, gridHead, gridNext, density, pressure, currentParams);
-                await computeForces<[groupCountParticles, 1, 1]>(pos, vel, gridHead, gridNext, density, pressure, force, currentParams);
-                await integrate<[groupCountParticles, 1, 1]>(pos, vel, force, density, currentParams);
-
-                runtime.clear([0.1, 0.1, 0.1, 1.0], 1.0);
-                runtime.spheres(pos, sizes, colors, { camera });
-
-                // Render Plate
-                runtime.box(
-                    [0, 0, 0],
-                    [uniforms.current.plateWidth, uniforms.current.plateThickness, boundsZ * 2.0],
-                    [0.8, 0.8, 0.8, 1.0],
-                    { camera, rotation: [0, 0, currentPlateAngle] }
-                );
+                // One submit for the whole simulation step and its rendering
+                await runtime.batch(async () => {
+                    await resetGrid<[groupCountX, groupCountY, groupCountZ]>(gridHead, currentParams);
+                    await updateGrid<[groupCountParticles, 1, 1]>(pos, gridHead, gridNext, currentParams);
+                    await computeDensityPressure<[groupCountParticles, 1, 1]>(pos, gridHead, gridNext, density, pressure, currentParams);
+                    await computeForces<[groupCountParticles, 1, 1]>(pos, vel, gridHead, gridNext, density, pressure, force, currentParams);
+                    await integrate<[groupCountParticles, 1, 1]>(pos, vel, force, density, currentParams);
+
+                    await runtime.clear([0.1, 0.1, 0.1, 1.0], 1.0);
+                    await runtime.spheres(pos, sizes, colors, { camera });
+
+                    // Render Plate
+                    await runtime.box(
+                        [0, 0, 0],
+                        [uniforms.current.plateWidth, uniforms.current.plateThickness, boundsZ * 2.0],
+                        [0.8, 0.8, 0.8, 1.0],
+                        { camera, rotation: [0, 0, currentPlateAngle] }
+                    );
+                });
 
                 requestAnimationFrame(animate);
             };
@@ -42,10 +42,12 @@ function intersectSphere(ro: vec3, rd: vec3, spherePos: vec3, radius: f32): f32
     return h >= 0.0 ? -b - sqrt(h) : -1.0;
 }
 
+enum Material { None, Diffuse, Metal, Emissive }
+
 interface HitResult {
     t: f32;
     normal: vec3;
-    matType: f32;
+    matType: Material;
     albedo: vec3;
     emissive: vec3;
     roughness: f32;
@@ -54,14 +56,15 @@ interface HitResult {
 
 /** @device */
 function intersectScene(ro: vec3, rd: vec3): HitResult {
-    let result: HitResult;
-    result.t = -1.0;
-    result.normal = vec3(0.0, 0.0, 0.0);
-    result.matType = -1.0;
-    result.albedo = vec3(0.0, 0.0, 0.0);
-    result.emissive = vec3(0.0, 0.0, 0.0);
-    result.roughness = 0.0;
-    result.pos = vec3(0.0, 0.0, 0.0);
+    let result: HitResult = {
+        t: -1.0,
+        normal: vec3(0.0, 0.0, 0.0),
+        matType: Material.None,
+        albedo: vec3(0.0, 0.0, 0.0),
+        emissive: vec3(0.0, 0.0, 0.0),
+        roughness: 0.0,
+        pos: vec3(0.0, 0.0, 0.0),
+    };
 
     // Sphere 1 (Center, Diffuse)
     let center = vec3(0.0, 0.0, 1.0); // Moved slightly back to be visible
@@ -70,7 +73,7 @@ function intersectScene(ro: vec3, rd: vec3): HitResult {
         result.t = t;
         result.pos = ro + rd * t;
         result.normal = normalize(result.pos - center);
-        result.matType = 0.0; // Diffuse
+        result.matType = Material.Diffuse;
         result.albedo = vec3(0.8, 0.3, 0.3);
     }
 
@@ -81,7 +84,7 @@ function intersectScene(ro: vec3, rd: vec3): HitResult {
         result.t = t;
         result.pos = ro + rd * t;
         result.normal = normalize(result.pos - center);
-        result.matType = 0.0; // Diffuse
+        result.matType = Material.Diffuse;
         result.albedo = vec3(0.8, 0.8, 0.0);
     }
 
@@ -92,7 +95,7 @@ function intersectScene(ro: vec3, rd: vec3): HitResult {
         result.t = t;
         result.pos = ro + rd * t;
         result.normal = normalize(result.pos - center);
-        result.matType = 1.0; // Metal
+        result.matType = Material.Metal;
         result.albedo = vec3(0.8, 0.8, 0.8);
         result.roughness = 0.3;
     }
@@ -104,7 +107,7 @@ function intersectScene(ro: vec3, rd: vec3): HitResult {
         result.t = t;
         result.pos = ro + rd * t;
         result.normal = normalize(result.pos - center);
-        result.matType = 2.0; // Emissive
+        result.matType = Material.Emissive;
         result.albedo = vec3(1.0, 1.0, 1.0);
         result.emissive = vec3(1.0, 1.0, 1.0);
     }
@@ -159,16 +162,16 @@ async function compute(image: SharedArray<vec4f>, params: Params) {
             break;
         }
 
-        if (hitResult.matType == 2.0) { // Emissive
+        if (hitResult.matType == Material.Emissive) {
             col = col + curAtten * hitResult.emissive;
             break;
         }
 
         let scatterDir = vec3(0.0, 0.0, 0.0);
-        if (hitResult.matType == 0.0) { // Diffuse
+        if (hitResult.matType == Material.Diffuse) {
             scatterDir = hitResult.normal + randomInUnitSphere(seed + vec2(f32(i), f32(i)));
             if (length(scatterDir) < 0.001) scatterDir = hitResult.normal;
-        } else if (hitResult.matType == 1.0) { // Metal
+        } else if (hitResult.matType == Material.Metal) {
             let reflected = reflect(curRd, hitResult.normal);
             scatterDir = reflected + hitResult.roughness * randomInUnitSphere(seed + vec2(f32(i), f32(i)));
         }
@@ -233,8 +236,8 @@ export default function RayTracing() {
             const render = async () => {
                 if (!animating) return;
 
-                params.cameraPos = camera.pos;
-                params.cameraDir = camera.dir;
+                params.cameraPos = vec4f(camera.pos[0], camera.pos[1], camera.pos[2], 0);
+                params.cameraDir = vec4f(camera.dir[0], camera.dir[1], camera.dir[2], 0);
                 params.frame = u32(frameCount);
 
                 // Dispatch kernel
@@ -5,20 +5,28 @@ import { useUniforms, UniformControls } from '../hooks/useUniforms';
 
 // Mock types removed as they are now in runtime
 
+// Passed from the vertex to the fragment stage, the color interpolated across the triangle
+interface VSOut {
+    position: vec4f;
+    color: vec4f;
+}
 
 /** @vertex */
-function vert(time: number, scale: number) {
+function vert(time: number, scale: number): VSOut {
     // Hardcoded triangle
     let pos = vec2(0.0, 0.0);
+    let color = vec4(1.0, 0.0, 0.0, 1.0);
 
     if (vertex_index == 0) {
         pos = vec2(0.0, 0.5);
     }
     if (vertex_index == 1) {
         pos = vec2(-0.5, -0.5);
+        color = vec4(0.0, 1.0, 0.0, 1.0);
     }
     if (vertex_index == 2) {
         pos = vec2(0.5, -0.5);
+        color = vec4(0.0, 0.0, 1.0, 1.0);
     }
 
     // Apply scale
@@ -34,12 +42,12 @@ function vert(time: number, scale: number) {
     const rot = mat2x2(c, s, -s, c);
     const rotatedPos = (rot * pos) as any;
 
-    return vec4(rotatedPos.x, rotatedPos.y, 0.0, 1.0);
+    return { position: vec4(rotatedPos.x, rotatedPos.y, 0.0, 1.0), color };
 }
 
 /** @fragment */
-function frag() {
-    return vec4(1.0, 0.0, 0.0, 1.0); // Red
+function frag(input: VSOut) {
+    return input.color;
 }
 
 export default function Triangle() {
@@ -56,13 +64,17 @@ export default function Triangle() {
         const init = async () => {
             // Get shader info (transformed by compiler)
             const v = vert(0, 1.0) as any;
-            const f = frag() as any;
+            const f = frag(null as any) as any;
 
             const pipeline = await runtime.createRenderPipeline({
                 vertex: v.code,
                 vertexEntryPoint: v.entryPoint,
                 fragment: f.code,
-                fragmentEntryPoint: f.entryPoint
+                fragmentEntryPoint: f.entryPoint,
+                vertexSourceMap: v.sourceMap,
+                fragmentSourceMap: f.sourceMap,
+                vertexReflection: v.reflection,
+                fragmentReflection: f.reflection
             });
 
             const startTime = performance.now();
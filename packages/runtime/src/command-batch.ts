@@ -0,0 +1,95 @@
+import { SharedArray } from './shared-array';
+import { SharedTexture } from './shared-texture';
+
+/**
+ * Commands recorded into one command encoder and submitted together.
+ * Temporary buffers are destroyed and host readbacks run once the commands are submitted
+ */
+export class CommandBatch {
+    private device: GPUDevice;
+    private commandEncoder: GPUCommandEncoder;
+    // SharedArrays and SharedTextures bound by the recorded commands, and the ones they may write
+    private usedArrays: Set<SharedArray | SharedTexture> = new Set();
+    private writtenArrays: Set<SharedArray | SharedTexture> = new Set();
+    private buffersToDestroy: GPUBuffer[] = [];
+    private callbacks: (() => Promise<void> | void)[] = [];
+
+    constructor(device: GPUDevice) {
+        this.device = device;
+        this.commandEncoder = device.createCommandEncoder();
+    }
+
+    get encoder(): GPUCommandEncoder {
+        return this.commandEncoder;
+    }
+
+    /**
+     * Get the buffer of a SharedArray for a recorded command, uploading host changes if any.
+     * Uploads go through the queue, ahead of the recorded commands: when a command of the batch
+     * already uses the array, those commands are submitted first so they keep seeing the previous data
+     */
+    async use(array: SharedArray): Promise<GPUBuffer> {
+        if (array.isHostDirty && this.usedArrays.has(array)) {
+            await this.submit();
+        }
+        this.usedArrays.add(array);
+        return array.ensureBuffer(this.device);
+    }
+
+    /**
+     * Get the texture of a SharedTexture for a recorded command, uploading host changes if any, like `use`
+     */
+    async useTexture(texture: SharedTexture): Promise<GPUTexture> {
+        if (texture.isHostDirty && this.usedArrays.has(texture)) {
+            await this.submit();
+        }
+        this.usedArrays.add(texture);
+        return texture.ensureTexture(this.device);
+    }
+
+    /**
+     * Record that a command may write a SharedArray or SharedTexture. Reading it on the host submits the batch first
+     */
+    write(array: SharedArray | SharedTexture) {
+        this.writtenArrays.add(array);
+        array.markDeviceDirty(() => this.submit());
+    }
+
+    /**
+     * Destroy temporary buffers once the commands using them are submitted
+     */
+    destroyAfterSubmit(...buffers: GPUBuffer[]) {
+        this.buffersToDestroy.push(...buffers);
+    }
+
+    /**
+     * Run a callback, e.g. a readback, once the commands are submitted
+     */
+    afterSubmit(callback: () => Promise<void> | void) {
+        this.callbacks.push(callback);
+    }
+
+    /**
+     * Submit the commands recorded so far. Recording can go on afterwards with a new encoder
+     */
+    async submit() {
+        this.device.queue.submit([this.commandEncoder.finish()]);
+        this.commandEncoder = this.device.createCommandEncoder();
+
+        const buffers = this.buffersToDestroy;
+        const callbacks = this.callbacks;
+        const written = this.writtenArrays;
+        this.usedArrays = new Set();
+        this.writtenArrays = new Set();
+        this.buffersToDestroy = [];
+        this.callbacks = [];
+
+        for (const array of written) {
+            array.markDeviceDirty();
+        }
+        for (const buffer of buffers) {
+            buffer.destroy();
+        }
+        await Promise.all(callbacks.map(callback => callback()));
+    }
+}
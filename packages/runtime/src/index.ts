@@ -1,7 +1,14 @@
 export * from './types';
 export * from './shared-array';
 export { SyncMode } from './shared-array';
+export * from './shared-texture';
 export * from './runtime';
+export * from './source-map';
+export * from './pipeline-cache';
+export * from './reflection';
+export { packData, packValue, structType } from './struct-packing';
+export type { StructSpec } from './struct-packing';
+export { PrimitiveType } from './renderer/primitive-renderer';
 export * from './camera';
 
 import { Runtime } from './runtime';
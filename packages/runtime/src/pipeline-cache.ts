@@ -0,0 +1,166 @@
+import { ShaderSourceMap, formatCompilationMessage } from './source-map';
+import { ShaderReflection, createPipelineLayout } from './reflection';
+
+/**
+ * Values of the @override constants of a pipeline, by name
+ */
+export type PipelineConstants = Record<string, number>;
+
+export interface PipelineCacheEntry {
+    /** `<hash of the WGSL>:<entry point>`, followed by `:<name>=<value>,...` for a pipeline with constants */
+    key: string;
+    entryPoint: string;
+    /** Values of the @override constants the pipeline was created with */
+    constants?: PipelineConstants;
+    /** Number of dispatches that reused the pipeline */
+    hits: number;
+    /** Whether pipeline creation has finished */
+    ready: boolean;
+}
+
+interface CachedPipeline extends PipelineCacheEntry {
+    code: string;
+    pipeline: Promise<GPUComputePipeline>;
+}
+
+/**
+ * FNV-1a hash of a WGSL module, as 8 hex digits
+ */
+export function hashWGSL(code: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < code.length; i++) {
+        hash ^= code.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Shader modules and compute pipelines, created once per WGSL module, entry point and set of @override constants.
+ * Pipelines are created with `createComputePipelineAsync`, so `warmUp` can start compiling a kernel
+ * at module load, before its first dispatch
+ */
+export class PipelineCache {
+    // Shader modules that compiled without errors, by WGSL code
+    private shaderModules: Map<string, Promise<GPUShaderModule>> = new Map();
+    private pipelines: Map<string, CachedPipeline> = new Map();
+
+    constructor(private getDevice: () => Promise<GPUDevice>) {}
+
+    get size(): number {
+        return this.pipelines.size;
+    }
+
+    /**
+     * The cached pipelines, in creation order
+     */
+    entries(): PipelineCacheEntry[] {
+        return [...this.pipelines.values()].map(({ key, entryPoint, constants, hits, ready }) => ({ key, entryPoint, ...(constants ? { constants } : {}), hits, ready }));
+    }
+
+    has(code: string, entryPoint: string, constants?: PipelineConstants): boolean {
+        return this.pipelines.get(this.key(code, entryPoint, constants))?.code === code;
+    }
+
+    /**
+     * Drop the pipelines of an entry point, whatever their constants, or every cached pipeline and shader module
+     * when called without arguments
+     */
+    clear(code?: string, entryPoint?: string) {
+        if (code === undefined) {
+            this.pipelines.clear();
+            this.shaderModules.clear();
+        } else if (entryPoint === undefined) {
+            for (const [key, cached] of this.pipelines) {
+                if (cached.code === code) this.pipelines.delete(key);
+            }
+            this.shaderModules.delete(code);
+        } else {
+            for (const [key, cached] of this.pipelines) {
+                if (cached.code === code && cached.entryPoint === entryPoint) this.pipelines.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Create a shader module, or reuse the one already created for the same code.
+     * Compilation errors are thrown with their locations mapped to the TS source through `sourceMap`
+     */
+    getShaderModule(code: string, entryPoint: string, sourceMap?: ShaderSourceMap): Promise<GPUShaderModule> {
+        let module = this.shaderModules.get(code);
+        if (!module) {
+            module = this.compileShaderModule(code, entryPoint, sourceMap);
+            this.shaderModules.set(code, module);
+            // Failed modules are not cached, so that the error is reported again on the next use
+            module.catch(() => this.shaderModules.delete(code));
+        }
+        return module;
+    }
+
+    /**
+     * Get the compute pipeline of an entry point, creating it on first use.
+     * Its layout is created from `reflection` when given, and inferred from the WGSL otherwise
+     * @param constants Values of @override constants: each set of values has its own pipeline
+     */
+    getComputePipeline(code: string, entryPoint: string, sourceMap?: ShaderSourceMap, reflection?: ShaderReflection, constants?: PipelineConstants): Promise<GPUComputePipeline> {
+        const key = this.key(code, entryPoint, constants);
+        const cached = this.pipelines.get(key);
+        if (cached && cached.code === code) {
+            cached.hits++;
+            return cached.pipeline;
+        }
+
+        const entry: CachedPipeline = {
+            key, entryPoint, ...(constants ? { constants } : {}), hits: 0, ready: false, code,
+            pipeline: this.createComputePipeline(code, entryPoint, sourceMap, reflection, constants),
+        };
+        this.pipelines.set(key, entry);
+        entry.pipeline.then(() => entry.ready = true, () => {
+            if (this.pipelines.get(key) === entry) this.pipelines.delete(key);
+        });
+        return entry.pipeline;
+    }
+
+    /**
+     * Start creating the pipeline of an entry point and set of @override constants without waiting for it.
+     * Errors are not reported here: the failed pipeline is dropped, and the error is thrown by the first dispatch of the kernel.
+     * Nothing is created when the constants miss one without a default, as the pipeline could not be created
+     */
+    warmUp(code: string, entryPoint: string, sourceMap?: ShaderSourceMap, reflection?: ShaderReflection, constants?: PipelineConstants) {
+        if (reflection?.overrides?.some(override => override.required && constants?.[override.name] === undefined)) return;
+        if (!this.has(code, entryPoint, constants)) {
+            this.getComputePipeline(code, entryPoint, sourceMap, reflection, constants).catch(() => {});
+        }
+    }
+
+    private key(code: string, entryPoint: string, constants: PipelineConstants = {}): string {
+        const key = `${hashWGSL(code)}:${entryPoint}`;
+        // Sorted, so that the same values given in another order reuse the pipeline
+        const values = Object.keys(constants).sort().map(name => `${name}=${constants[name]}`);
+        return values.length > 0 ? `${key}:${values.join(",")}` : key;
+    }
+
+    private async compileShaderModule(code: string, entryPoint: string, sourceMap?: ShaderSourceMap): Promise<GPUShaderModule> {
+        const device = await this.getDevice();
+        const module = device.createShaderModule({ code, label: entryPoint });
+        const info = await module.getCompilationInfo();
+        const errors = info.messages.filter(m => m.type === "error");
+        for (const warning of info.messages.filter(m => m.type !== "error")) {
+            console.warn(formatCompilationMessage(warning, sourceMap));
+        }
+        if (errors.length > 0) {
+            throw new Error(`Shader compilation failed for '${entryPoint}':\n${errors.map(m => formatCompilationMessage(m, sourceMap)).join("\n")}`);
+        }
+        return module;
+    }
+
+    private async createComputePipeline(code: string, entryPoint: string, sourceMap?: ShaderSourceMap, reflection?: ShaderReflection, constants?: PipelineConstants): Promise<GPUComputePipeline> {
+        const module = await this.getShaderModule(code, entryPoint, sourceMap);
+        const device = await this.getDevice();
+        return device.createComputePipelineAsync({
+            layout: reflection ? createPipelineLayout(device, [reflection], entryPoint) : "auto",
+            label: entryPoint,
+            compute: { module, entryPoint, ...(constants ? { constants } : {}) }
+        });
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * Description of the resources a shader binds. Emitted by the compiler next to each shader as `<name>_wgsl_reflection`
+ */
+export interface ShaderReflection {
+    entryPoint: string;
+    stage: "compute" | "vertex" | "fragment";
+    bindings: BindingReflection[];
+    // Vertex buffer inputs of a vertex shader, by location
+    attributes?: AttributeReflection[];
+    // @override constants the shader uses, which pipelines can set
+    overrides?: OverrideReflection[];
+    // Layouts of the structs the shader uses, by name
+    structs: Record<string, StructLayout>;
+}
+
+export interface BindingReflection {
+    name: string;
+    group: number;
+    binding: number;
+    access: "read" | "read_write" | "write";
+    // WGSL type of the variable
+    type: string;
+    // Kind of resource: exactly one of buffer, texture, storageTexture and sampler is set
+    buffer?: GPUBufferBindingType;
+    // Minimum size of the bound buffer in bytes
+    size?: number;
+    texture?: { sampleType: GPUTextureSampleType };
+    storageTexture?: { format: GPUTextureFormat };
+    sampler?: { type: GPUSamplerBindingType };
+    // Storage arrays folded into the binding: their SharedArrays are passed as one array and copied into one buffer
+    folded?: string[];
+    // Storage arrays of every folded binding, whose offsets and lengths the `<kernel>_folds` uniform holds
+    folds?: string[][];
+}
+
+export interface AttributeReflection {
+    name: string;
+    location: number;
+    format: GPUVertexFormat;
+    // Bytes between consecutive elements of the vertex buffer, as in a SharedArray of the type
+    stride: number;
+    // WGSL type of the parameter
+    type: string;
+}
+
+export interface OverrideReflection {
+    name: string;
+    // WGSL scalar type of the constant
+    type: string;
+    // The constant has no default: pipelines must set it
+    required?: boolean;
+}
+
+export interface StructLayout {
+    size: number;
+    align: number;
+    fields: { name: string, type: string, offset: number, size: number, align: number }[];
+}
+
+function stageVisibility(stage: ShaderReflection["stage"]): GPUShaderStageFlags {
+    switch (stage) {
+        case "compute": return GPUShaderStage.COMPUTE;
+        case "vertex": return GPUShaderStage.VERTEX;
+        case "fragment": return GPUShaderStage.FRAGMENT;
+    }
+}
+
+/**
+ * Vertex buffer layouts of a vertex shader: one buffer per attribute, as each attribute is passed as its own SharedArray
+ */
+export function vertexBufferLayouts(reflection: ShaderReflection): GPUVertexBufferLayout[] {
+    return (reflection.attributes ?? []).map(attribute => ({
+        arrayStride: attribute.stride,
+        stepMode: "vertex",
+        attributes: [{ shaderLocation: attribute.location, offset: 0, format: attribute.format }],
+    }));
+}
+
+function describeShader(reflection: ShaderReflection): string {
+    switch (reflection.stage) {
+        case "compute": return `Kernel '${reflection.entryPoint}'`;
+        case "vertex": return `Vertex shader '${reflection.entryPoint}'`;
+        case "fragment": return `Fragment shader '${reflection.entryPoint}'`;
+    }
+}
+
+/**
+ * Check that the constants given to a pipeline are @override constants of the shader, with values of their type
+ */
+export function checkConstants(reflection: ShaderReflection, constants: Record<string, number>) {
+    const overrides = reflection.overrides ?? [];
+    for (const [name, value] of Object.entries(constants)) {
+        const override = overrides.find(o => o.name === name);
+        if (!override) {
+            const known = overrides.length > 0 ? `: it has ${overrides.map(o => `'${o.name}'`).join(", ")}` : "";
+            throw new Error(`${describeShader(reflection)} has no @override constant '${name}'${known}`);
+        }
+        const valid = override.type === "u32" ? Number.isInteger(value) && value >= 0
+            : override.type === "i32" ? Number.isInteger(value) : true;
+        if (!valid) {
+            throw new Error(`Invalid value for the @override constant '${name}': expected ${override.type}, got ${value}`);
+        }
+    }
+}
+
+/**
+ * Check the bindings of a shader against the limits of the device, so that a shader binding too many buffers
+ * fails with the limit it exceeds rather than with a validation error of the pipeline layout
+ */
+export function checkBindingLimits(limits: GPUSupportedLimits, reflection: ShaderReflection) {
+    const count = (kind: (binding: BindingReflection) => unknown) => reflection.bindings.filter(kind).length;
+    const checks: [number, keyof GPUSupportedLimits, string][] = [
+        [count(b => b.buffer && b.buffer !== "uniform"), "maxStorageBuffersPerShaderStage", "storage buffers"],
+        [count(b => b.buffer === "uniform"), "maxUniformBuffersPerShaderStage", "uniform buffers"],
+        [count(b => b.texture), "maxSampledTexturesPerShaderStage", "textures"],
+        [count(b => b.storageTexture), "maxStorageTexturesPerShaderStage", "storage textures"],
+        [count(b => b.sampler), "maxSamplersPerShaderStage", "samplers"],
+    ];
+    for (const [used, limit, description] of checks) {
+        const max = limits[limit] as number;
+        if (used > max) {
+            throw new Error(`${describeShader(reflection)} binds ${used} ${description}, but the device supports at most ${max} (${limit}): pack arrays into a struct array to bind fewer`);
+        }
+    }
+}
+
+function resourceLayout(binding: BindingReflection): Partial<GPUBindGroupLayoutEntry> {
+    if (binding.texture) return { texture: { sampleType: binding.texture.sampleType, viewDimension: "2d" } };
+    if (binding.storageTexture) return { storageTexture: { access: "write-only", format: binding.storageTexture.format, viewDimension: "2d" } };
+    if (binding.sampler) return { sampler: { type: binding.sampler.type } };
+    return { buffer: { type: binding.buffer, minBindingSize: binding.size } };
+}
+
+/**
+ * Create the pipeline layout of the given shader stages, with one bind group layout per group they use.
+ * A binding used by several stages is visible to all of them
+ */
+export function createPipelineLayout(device: GPUDevice, reflections: ShaderReflection[], label?: string): GPUPipelineLayout {
+    for (const reflection of reflections) {
+        checkBindingLimits(device.limits, reflection);
+    }
+    const groups: Map<number, GPUBindGroupLayoutEntry>[] = [];
+    for (const reflection of reflections) {
+        for (const binding of reflection.bindings) {
+            const entries = groups[binding.group] ??= new Map();
+            const entry = entries.get(binding.binding);
+            if (entry) {
+                entry.visibility |= stageVisibility(reflection.stage);
+            } else {
+                entries.set(binding.binding, {
+                    binding: binding.binding,
+                    visibility: stageVisibility(reflection.stage),
+                    ...resourceLayout(binding),
+                });
+            }
+        }
+    }
+
+    // Groups are numbered from 0: unused groups get an empty layout
+    const bindGroupLayouts = Array.from(groups, (entries, group) => device.createBindGroupLayout({
+        label: label && `${label} group ${group}`,
+        entries: [...(entries?.values() ?? [])],
+    }));
+    return device.createPipelineLayout({ label, bindGroupLayouts });
+}
@@ -1,4 +1,5 @@
 import { SharedArray } from '../shared-array';
+import { CommandBatch } from '../command-batch';
 
 export class CircleRenderer {
     private pipeline: GPURenderPipeline | null = null;
@@ -115,26 +116,31 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
     }
 
     async draw(
+        batch: CommandBatch,
         context: GPUCanvasContext,
         centers: SharedArray,
         radii: SharedArray,
         colors: SharedArray,
         options: { aspect?: number } = {}
     ) {
-        const numCircles = radii.data.length;
+        // Kernels may have written the arrays: download them if needed
+        const centerData = await centers.read();
+        const radiusData = await radii.read();
+        const colorData = await colors.read();
+        const numCircles = radiusData.length;
 
         // Pack circle data: [center.x, center.y, radius, padding, color.r, color.g, color.b, color.a]
         // Each circle is 8 floats (32 bytes) for alignment
         const circleData = new Float32Array(numCircles * 8);
         for (let i = 0; i < numCircles; i++) {
-            circleData[i * 8 + 0] = centers.data[i * 2 + 0];
-            circleData[i * 8 + 1] = centers.data[i * 2 + 1];
-            circleData[i * 8 + 2] = radii.data[i];
+            circleData[i * 8 + 0] = centerData[i * 2 + 0];
+            circleData[i * 8 + 1] = centerData[i * 2 + 1];
+            circleData[i * 8 + 2] = radiusData[i];
             circleData[i * 8 + 3] = 0; // padding
-            circleData[i * 8 + 4] = colors.data[i * 4 + 0];
-            circleData[i * 8 + 5] = colors.data[i * 4 + 1];
-            circleData[i * 8 + 6] = colors.data[i * 4 + 2];
-            circleData[i * 8 + 7] = colors.data[i * 4 + 3];
+            circleData[i * 8 + 4] = colorData[i * 4 + 0];
+            circleData[i * 8 + 5] = colorData[i * 4 + 1];
+            circleData[i * 8 + 6] = colorData[i * 4 + 2];
+            circleData[i * 8 + 7] = colorData[i * 4 + 3];
         }
 
         const circleBuffer = this.device.createBuffer({
@@ -172,7 +178,7 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
             ],
         });
 
-        const commandEncoder = this.device.createCommandEncoder();
+        const commandEncoder = batch.encoder;
         const textureView = context.getCurrentTexture().createView();
 
         const renderPassDescriptor: GPURenderPassDescriptor = {
@@ -190,9 +196,6 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
         passEncoder.draw(6, numCircles); // 6 vertices per quad, numCircles instances
         passEncoder.end();
 
-        this.device.queue.submit([commandEncoder.finish()]);
-
-        circleBuffer.destroy();
-        uniformBuffer.destroy();
+        batch.destroyAfterSubmit(circleBuffer, uniformBuffer);
     }
 }
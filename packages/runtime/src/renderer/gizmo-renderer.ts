@@ -1,5 +1,6 @@
 import { Camera } from '../camera';
 import { lookAt, perspective } from '../math';
+import { CommandBatch } from '../command-batch';
 
 export class GizmoRenderer {
     private pipeline: GPURenderPipeline | null = null;
@@ -130,6 +131,7 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
     }
 
     async draw(
+        batch: CommandBatch,
         context: GPUCanvasContext,
         camera: Camera,
         depthTexture: GPUTexture
@@ -192,7 +194,7 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
             ],
         });
 
-        const commandEncoder = this.device.createCommandEncoder();
+        const commandEncoder = batch.encoder;
         const textureView = context.getCurrentTexture().createView();
 
         const renderPassDescriptor: GPURenderPassDescriptor = {
@@ -217,8 +219,6 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
         passEncoder.draw(6);
         passEncoder.end();
 
-        this.device.queue.submit([commandEncoder.finish()]);
-
-        uniformBuffer.destroy();
+        batch.destroyAfterSubmit(uniformBuffer);
     }
 }
@@ -1,4 +1,5 @@
 import { SharedArray } from '../shared-array';
+import { CommandBatch } from '../command-batch';
 
 export class ImageRenderer {
     private device: GPUDevice;
@@ -9,7 +10,7 @@ export class ImageRenderer {
         this.presentationFormat = presentationFormat;
     }
 
-    async draw(context: GPUCanvasContext, array: SharedArray) {
+    async draw(batch: CommandBatch, context: GPUCanvasContext, array: SharedArray) {
         let width, height, channels;
 
         if (array.ndim === 3) {
@@ -35,6 +36,7 @@ export class ImageRenderer {
         });
 
         // Convert array data to RGBA8 format
+        const data = await array.read();
         const rgbaData = new Uint8Array(width * height * 4);
         for (let y = 0; y < height; y++) {
             for (let x = 0; x < width; x++) {
@@ -42,10 +44,10 @@ export class ImageRenderer {
                 const dstIdx = (y * width + x) * 4;
 
                 // Copy RGB channels
-                rgbaData[dstIdx + 0] = Math.floor(Math.min(255, Math.max(0.0, array.data[srcIdx + 0]) * 255));
-                rgbaData[dstIdx + 1] = Math.floor(Math.min(255, Math.max(0.0, array.data[srcIdx + 1]) * 255));
-                rgbaData[dstIdx + 2] = Math.floor(Math.min(255, Math.max(0.0, array.data[srcIdx + 2]) * 255));
-                rgbaData[dstIdx + 3] = channels === 4 ? Math.floor(Math.min(255, Math.max(0.0, array.data[srcIdx + 3]) * 255)) : 255;
+                rgbaData[dstIdx + 0] = Math.floor(Math.min(255, Math.max(0.0, data[srcIdx + 0]) * 255));
+                rgbaData[dstIdx + 1] = Math.floor(Math.min(255, Math.max(0.0, data[srcIdx + 1]) * 255));
+                rgbaData[dstIdx + 2] = Math.floor(Math.min(255, Math.max(0.0, data[srcIdx + 2]) * 255));
+                rgbaData[dstIdx + 3] = channels === 4 ? Math.floor(Math.min(255, Math.max(0.0, data[srcIdx + 3]) * 255)) : 255;
             }
         }
 
@@ -119,7 +121,7 @@ fn fs_main(@builtin(position) pos: vec4<f32>) -> @location(0) vec4<f32> {
             ]
         });
 
-        const commandEncoder = this.device.createCommandEncoder();
+        const commandEncoder = batch.encoder;
         const textureView = context.getCurrentTexture().createView();
 
         const renderPassDescriptor: GPURenderPassDescriptor = {
@@ -136,7 +138,5 @@ fn fs_main(@builtin(position) pos: vec4<f32>) -> @location(0) vec4<f32> {
         passEncoder.setBindGroup(0, bindGroup);
         passEncoder.draw(6);
         passEncoder.end();
-
-        this.device.queue.submit([commandEncoder.finish()]);
     }
 }
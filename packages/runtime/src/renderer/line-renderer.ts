@@ -1,4 +1,5 @@
 import { SharedArray } from '../shared-array';
+import { CommandBatch } from '../command-batch';
 
 export class LineRenderer {
     private pipeline: GPURenderPipeline | null = null;
@@ -133,6 +134,7 @@ fn fs_main(input: LineVertexOutput) -> @location(0) vec4<f32> {
     }
 
     async draw(
+        batch: CommandBatch,
         context: GPUCanvasContext,
         begin: SharedArray,
         end: SharedArray,
@@ -140,10 +142,10 @@ fn fs_main(input: LineVertexOutput) -> @location(0) vec4<f32> {
         color: SharedArray,
         options: { aspect?: number } = {}
     ) {
-        const beginArray = begin.data;
-        const endArray = end.data;
-        const widthArray = width.data;
-        const colorArray = color.data;
+        const beginArray = await begin.read();
+        const endArray = await end.read();
+        const widthArray = await width.read();
+        const colorArray = await color.read();
 
         const numLines = widthArray.length;
 
@@ -232,7 +234,7 @@ fn fs_main(input: LineVertexOutput) -> @location(0) vec4<f32> {
             ],
         });
 
-        const commandEncoder = this.device.createCommandEncoder();
+        const commandEncoder = batch.encoder;
         const textureView = context.getCurrentTexture().createView();
 
         const renderPassDescriptor: GPURenderPassDescriptor = {
@@ -250,9 +252,6 @@ fn fs_main(input: LineVertexOutput) -> @location(0) vec4<f32> {
         passEncoder.draw(6, numLines); // 6 vertices per quad, numLines instances
         passEncoder.end();
 
-        this.device.queue.submit([commandEncoder.finish()]);
-
-        lineBuffer.destroy();
-        uniformBuffer.destroy();
+        batch.destroyAfterSubmit(lineBuffer, uniformBuffer);
     }
 }
@@ -1,7 +1,8 @@
-import { SharedArray, SyncMode } from '../shared-array';
+import { SharedArray } from '../shared-array';
 import { Camera } from '../camera';
 import { lookAt, perspective } from '../math';
 import { vec3f } from '../types';
+import { CommandBatch } from '../command-batch';
 
 export enum PrimitiveType {
     Sphere = 0,
@@ -375,6 +376,7 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
     }
 
     async draw(
+        batch: CommandBatch,
         context: GPUCanvasContext,
         centers: SharedArray<vec3f>,
         sizes: SharedArray<vec3f>,
@@ -387,32 +389,18 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
         const rotations = options.rotations;
         const numPrims = centers.size;
 
-        // Ensure buffers exist
-        const centerBuffer = await centers.ensureBuffer(this.device);
-        if (centers.syncMode !== SyncMode.GpuToCpu && centers.syncMode !== SyncMode.None) {
-            await centers.syncToDevice(this.device);
-        }
-
-        const sizeBuffer = await sizes.ensureBuffer(this.device);
-        if (sizes.syncMode !== SyncMode.GpuToCpu && sizes.syncMode !== SyncMode.None) {
-            await sizes.syncToDevice(this.device);
-        }
-
-        const colorBuffer = await colors.ensureBuffer(this.device);
-        if (colors.syncMode !== SyncMode.GpuToCpu && colors.syncMode !== SyncMode.None) {
-            await colors.syncToDevice(this.device);
-        }
+        // Ensure buffers exist and hold the latest host data
+        const centerBuffer = await batch.use(centers);
+        const sizeBuffer = await batch.use(sizes);
+        const colorBuffer = await batch.use(colors);
 
         let rotationBuffer: GPUBuffer;
         if (rotations) {
-            rotationBuffer = await rotations.ensureBuffer(this.device);
-            if (rotations.syncMode !== SyncMode.GpuToCpu && rotations.syncMode !== SyncMode.None) {
-                await rotations.syncToDevice(this.device);
-            }
+            rotationBuffer = await batch.use(rotations);
         } else {
             // Create a default zero buffer if not present
             if (!this.defaultRotationBuffer || this.defaultRotationBuffer.size < numPrims * 4 * 4) {
-                if (this.defaultRotationBuffer) this.defaultRotationBuffer.destroy();
+                if (this.defaultRotationBuffer) batch.destroyAfterSubmit(this.defaultRotationBuffer);
                 this.defaultRotationBuffer = this.device.createBuffer({
                     size: Math.max(16, numPrims * 4 * 4), // Ensure at least 16 bytes
                     usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
@@ -462,7 +450,7 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
             ],
         });
 
-        const commandEncoder = this.device.createCommandEncoder();
+        const commandEncoder = batch.encoder;
         const textureView = context.getCurrentTexture().createView();
 
         const renderPassDescriptor: GPURenderPassDescriptor = {
@@ -509,8 +497,6 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
 
         passEncoder.end();
 
-        this.device.queue.submit([commandEncoder.finish()]);
-
-        uniformBuffer.destroy();
+        batch.destroyAfterSubmit(uniformBuffer);
     }
 }
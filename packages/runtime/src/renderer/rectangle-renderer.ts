@@ -1,4 +1,5 @@
 import { SharedArray } from '../shared-array';
+import { CommandBatch } from '../command-batch';
 
 export class RectangleRenderer {
     private pipeline: GPURenderPipeline | null = null;
@@ -114,33 +115,37 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
     }
 
     async draw(
+        batch: CommandBatch,
         context: GPUCanvasContext,
         centers: SharedArray,
         sizes: SharedArray,
         colors: SharedArray,
         options: { aspect?: number } = {}
     ) {
-        const numRects = centers.data.length / 2; // centers is vec2
+        const centerData = await centers.read();
+        const sizeData = await sizes.read();
+        const colorData = await colors.read();
+        const numRects = centerData.length / 2; // centers is vec2
 
-        if (sizes.data.length !== numRects * 2) {
-            throw new Error(`sizes length (${sizes.data.length}) must be 2 * numRects (${numRects})`);
+        if (sizeData.length !== numRects * 2) {
+            throw new Error(`sizes length (${sizeData.length}) must be 2 * numRects (${numRects})`);
         }
-        if (colors.data.length !== numRects * 4) {
-            throw new Error(`colors length (${colors.data.length}) must be 4 * numRects (${numRects})`);
+        if (colorData.length !== numRects * 4) {
+            throw new Error(`colors length (${colorData.length}) must be 4 * numRects (${numRects})`);
         }
 
         // Pack rectangle data: [center.x, center.y, size.x, size.y, color.r, color.g, color.b, color.a]
         // 8 floats (32 bytes)
         const rectData = new Float32Array(numRects * 8);
         for (let i = 0; i < numRects; i++) {
-            rectData[i * 8 + 0] = centers.data[i * 2 + 0];
-            rectData[i * 8 + 1] = centers.data[i * 2 + 1];
-            rectData[i * 8 + 2] = sizes.data[i * 2 + 0];
-            rectData[i * 8 + 3] = sizes.data[i * 2 + 1];
-            rectData[i * 8 + 4] = colors.data[i * 4 + 0];
-            rectData[i * 8 + 5] = colors.data[i * 4 + 1];
-            rectData[i * 8 + 6] = colors.data[i * 4 + 2];
-            rectData[i * 8 + 7] = colors.data[i * 4 + 3];
+            rectData[i * 8 + 0] = centerData[i * 2 + 0];
+            rectData[i * 8 + 1] = centerData[i * 2 + 1];
+            rectData[i * 8 + 2] = sizeData[i * 2 + 0];
+            rectData[i * 8 + 3] = sizeData[i * 2 + 1];
+            rectData[i * 8 + 4] = colorData[i * 4 + 0];
+            rectData[i * 8 + 5] = colorData[i * 4 + 1];
+            rectData[i * 8 + 6] = colorData[i * 4 + 2];
+            rectData[i * 8 + 7] = colorData[i * 4 + 3];
         }
 
         const rectBuffer = this.device.createBuffer({
@@ -178,7 +183,7 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
             ],
         });
 
-        const commandEncoder = this.device.createCommandEncoder();
+        const commandEncoder = batch.encoder;
         const textureView = context.getCurrentTexture().createView();
 
         const renderPassDescriptor: GPURenderPassDescriptor = {
@@ -196,9 +201,6 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
         passEncoder.draw(6, numRects); // 6 vertices per quad, numRects instances
         passEncoder.end();
 
-        this.device.queue.submit([commandEncoder.finish()]);
-
-        rectBuffer.destroy();
-        uniformBuffer.destroy();
+        batch.destroyAfterSubmit(rectBuffer, uniformBuffer);
     }
 }
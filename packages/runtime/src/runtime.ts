@@ -1,4 +1,5 @@
-import { SharedArray, SyncMode } from './shared-array';
+import { SharedArray } from './shared-array';
+import { SharedTexture } from './shared-texture';
 import { CircleRenderer } from './renderer/circle-renderer';
 import { LineRenderer } from './renderer/line-renderer';
 import { ImageRenderer } from './renderer/image-renderer';
@@ -6,16 +7,53 @@ import { RectangleRenderer } from './renderer/rectangle-renderer';
 import { PrimitiveRenderer, PrimitiveType } from './renderer/primitive-renderer';
 import { GizmoRenderer } from './renderer/gizmo-renderer';
 import { Camera } from './camera';
+import { ShaderSourceMap } from './source-map';
+import { PipelineCache, PipelineConstants } from './pipeline-cache';
+import { CommandBatch } from './command-batch';
+import { ShaderReflection, StructLayout, checkConstants, createPipelineLayout, vertexBufferLayouts } from './reflection';
+import { packData, structType, StructSpec } from './struct-packing';
+
+/**
+ * Options of a kernel call, given after its arguments: `simulate<[64, 1, 1]>(particles, { constants: { BLOCK: 128 } })`
+ */
+export interface DispatchOptions {
+    // Values of the @override constants of the kernel, by name
+    constants?: PipelineConstants;
+}
 
 export class Runtime {
     device: GPUDevice | null = null;
+    private initializing: Promise<void> | null = null;
+
+    // Compute pipelines and shader modules, shared by all dispatches
+    readonly pipelineCache = new PipelineCache(async () => {
+        await this.init();
+        return this.device!;
+    });
 
     async init() {
         if (this.device) return;
+        // Concurrent calls (e.g. pipeline warm-up at module load and canvas setup) share one device
+        if (!this.initializing) {
+            this.initializing = this.requestDevice();
+            this.initializing.catch(() => this.initializing = null);
+        }
+        await this.initializing;
+    }
+
+    private async requestDevice() {
         if (!navigator.gpu) throw new Error("WebGPU not supported");
         const adapter = await navigator.gpu.requestAdapter();
         if (!adapter) throw new Error("No adapter found");
-        this.device = await adapter.requestDevice();
+        // Ask for the binding limits of the adapter rather than the WebGPU defaults (e.g. 8 storage buffers per stage),
+        // so that kernels binding many buffers run wherever the hardware allows it
+        this.device = await adapter.requestDevice({
+            requiredLimits: {
+                maxStorageBuffersPerShaderStage: adapter.limits.maxStorageBuffersPerShaderStage,
+                maxUniformBuffersPerShaderStage: adapter.limits.maxUniformBuffersPerShaderStage,
+                maxBindingsPerBindGroup: adapter.limits.maxBindingsPerBindGroup,
+            },
+        });
     }
 
     context: GPUCanvasContext | null = null;
@@ -84,10 +122,8 @@ export class Runtime {
 
     async clear(color: [number, number, number, number], depth?: number) {
         if (!this.context) throw new Error("Canvas not setup");
-        const device = this.device!;
         const [r, g, b, a] = color;
 
-        const commandEncoder = device.createCommandEncoder();
         const textureView = this.context.getCurrentTexture().createView();
 
         const renderPassDescriptor: GPURenderPassDescriptor = {
@@ -113,24 +149,91 @@ export class Runtime {
             }
         }
 
-        const passEncoder = commandEncoder.beginRenderPass(renderPassDescriptor);
-        passEncoder.end();
+        await this.record(batch => {
+            batch.encoder.beginRenderPass(renderPassDescriptor).end();
+        });
+    }
+
+    // Batch recording the commands issued inside `batch()`
+    private currentBatch: CommandBatch | null = null;
+
+    /**
+     * Record every kernel dispatch, draw and clear issued by `commands` into one command encoder,
+     * submitted once when `commands` completes. Plain array readbacks are deferred to the end of the batch,
+     * and SharedArrays written by a kernel of the batch submit it when read on the host.
+     * Nested batches are part of the outer batch
+     *
+     *     await runtime.batch(async () => {
+     *         await resetGrid(gridHead, params);
+     *         await updateGrid(pos, gridHead, gridNext, params);
+     *         await runtime.spheres(pos, sizes, colors, { camera });
+     *     });
+     */
+    async batch<T>(commands: () => Promise<T>): Promise<T> {
+        if (this.currentBatch) return commands();
 
-        device.queue.submit([commandEncoder.finish()]);
+        await this.init();
+        const batch = new CommandBatch(this.device!);
+        this.currentBatch = batch;
+        try {
+            const result = await commands();
+            await batch.submit();
+            return result;
+        } finally {
+            this.currentBatch = null;
+        }
     }
 
-    async createRenderPipeline(desc: { vertex: string, fragment: string, vertexEntryPoint: string, fragmentEntryPoint: string }) {
+    /**
+     * Record commands into the current batch, or submit them right away outside of a batch
+     */
+    private async record(commands: (batch: CommandBatch) => Promise<void> | void) {
+        if (this.currentBatch) {
+            await commands(this.currentBatch);
+            return;
+        }
+        const batch = new CommandBatch(this.device!);
+        await commands(batch);
+        await batch.submit();
+    }
+
+    /**
+     * Runtime type of a struct, for arrays of structs. Emitted by the compiler for the structs the host code uses as values
+     * @param structs Layouts of the struct and of the structs its fields use
+     */
+    struct<T = any>(name: string, structs: Record<string, StructLayout>): StructSpec<T> {
+        return structType<T>(name, structs);
+    }
+
+    async createRenderPipeline(desc: {
+        vertex: string,
+        fragment: string,
+        vertexEntryPoint: string,
+        fragmentEntryPoint: string,
+        vertexSourceMap?: ShaderSourceMap,
+        fragmentSourceMap?: ShaderSourceMap,
+        vertexReflection?: ShaderReflection,
+        fragmentReflection?: ShaderReflection
+    }) {
         await this.init();
         const device = this.device!;
 
-        const vertexModule = device.createShaderModule({ code: desc.vertex });
-        const fragmentModule = device.createShaderModule({ code: desc.fragment });
+        const vertexModule = await this.pipelineCache.getShaderModule(desc.vertex, desc.vertexEntryPoint, desc.vertexSourceMap);
+        const fragmentModule = await this.pipelineCache.getShaderModule(desc.fragment, desc.fragmentEntryPoint, desc.fragmentSourceMap);
 
-        return device.createRenderPipeline({
-            layout: "auto",
+        // Explicit layout when the compiler described the bindings of both stages
+        const reflections = desc.vertexReflection && desc.fragmentReflection ? [desc.vertexReflection, desc.fragmentReflection] : [];
+        const layout = reflections.length > 0
+            ? createPipelineLayout(device, reflections, `${desc.vertexEntryPoint}/${desc.fragmentEntryPoint}`)
+            : "auto";
+
+        const pipeline = device.createRenderPipeline({
+            layout,
             vertex: {
                 module: vertexModule,
                 entryPoint: desc.vertexEntryPoint,
+                // One vertex buffer per @attribute parameter, given to draw in the same order
+                buffers: desc.vertexReflection ? vertexBufferLayouts(desc.vertexReflection) : [],
             },
             fragment: {
                 module: fragmentModule,
@@ -141,20 +244,135 @@ export class Runtime {
                 topology: "triangle-list",
             },
         });
+        this.renderPipelineReflections.set(pipeline, reflections);
+        return pipeline;
+    }
+
+    // Reflections of the stages of render pipelines, used by draw to pack their arguments
+    private renderPipelineReflections: WeakMap<GPURenderPipeline, ShaderReflection[]> = new WeakMap();
+
+    // Samplers created for the descriptors given to Sampler parameters, by descriptor
+    private samplers: Map<string, GPUSampler> = new Map();
+
+    private getSampler(descriptor: GPUSamplerDescriptor): GPUSampler {
+        const key = JSON.stringify(descriptor);
+        let sampler = this.samplers.get(key);
+        if (!sampler) {
+            sampler = this.device!.createSampler(descriptor);
+            this.samplers.set(key, sampler);
+        }
+        return sampler;
     }
 
-    private async createBindGroupEntries(device: GPUDevice, args: any[], buffersToDestroy: GPUBuffer[], sharedArrays: SharedArray[]): Promise<GPUBindGroupEntry[]> {
+    /**
+     * Create the bind group entries of the arguments of a shader, one binding per argument.
+     * Uniforms are packed following the layouts in `reflections` when the compiler provided them,
+     * and guessed from the JS values otherwise. SharedTextures are bound as texture views, and sampler arguments
+     * are the descriptors of the samplers
+     */
+    private async createBindGroupEntries(batch: CommandBatch, args: any[], buffersToDestroy: GPUBuffer[], sharedArrays: SharedArray[], reflections: ShaderReflection[] = []): Promise<GPUBindGroupEntry[]> {
+        const device = this.device!;
         const entries: GPUBindGroupEntry[] = [];
+        const bindings = reflections.flatMap(r => r.bindings);
+        const structs = Object.assign({}, ...reflections.map(r => r.structs));
 
         for (let i = 0; i < args.length; i++) {
             const arg = args[i];
+            const binding = bindings.find(b => b.group === 0 && b.binding === i);
+
+            if (binding?.sampler) {
+                entries.push({
+                    binding: i,
+                    resource: this.getSampler(arg ?? {})
+                });
+            } else if (arg instanceof SharedTexture) {
+                if (binding && !binding.texture && !binding.storageTexture) {
+                    throw new Error(`Invalid value for '${binding.name}': expected ${binding.type}, got SharedTexture`);
+                }
+                if (binding?.storageTexture && binding.storageTexture.format !== arg.format) {
+                    throw new Error(`Invalid value for '${binding.name}': expected a ${binding.storageTexture.format} texture, got ${arg.format}`);
+                }
+                const texture = await batch.useTexture(arg);
+                entries.push({
+                    binding: i,
+                    resource: texture.createView()
+                });
+            } else if (binding?.folds) {
+                // Offset and length in elements of every folded array, the x and y of its entry
+                const table = new Uint32Array(Math.max(4, binding.folds.flat().length * 4));
+                let entry = 0;
+                for (const arrays of arg as SharedArray[][]) {
+                    let offset = 0;
+                    for (const array of arrays) {
+                        table.set([offset, array.size], 4 * entry++);
+                        offset += array.size;
+                    }
+                }
 
-            if (arg instanceof SharedArray) {
-                // Reuse existing buffer from SharedArray
-                const buffer = await arg.ensureBuffer(device);
-                if (arg.syncMode !== SyncMode.GpuToCpu && arg.syncMode !== SyncMode.None) {
-                    await arg.syncToDevice(device);
+                const buffer = device.createBuffer({
+                    size: table.byteLength,
+                    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+                    mappedAtCreation: true,
+                    label: `${binding.name} buffer`,
+                });
+                new Uint32Array(buffer.getMappedRange()).set(table);
+                buffer.unmap();
+
+                buffersToDestroy.push(buffer);
+                entries.push({
+                    binding: i,
+                    resource: { buffer }
+                });
+            } else if (binding?.folded) {
+                // The arrays folded into the binding are copied one after the other into a buffer of their own
+                const arrays = arg as SharedArray[];
+                arrays.forEach((array, j) => {
+                    if (!(array instanceof SharedArray) || array.type.stride * 4 !== binding.size) {
+                        const got = array instanceof SharedArray ? `SharedArray of ${array.type.kind === 'struct' ? (array.type as StructSpec).name : array.type.kind}` : typeof array;
+                        throw new Error(`Invalid value for '${binding.folded![j]}': expected ${binding.type}, got ${got}`);
+                    }
+                });
+                for (const array of arrays) {
+                    await batch.use(array);
+                    sharedArrays.push(array);
                 }
+
+                const buffer = device.createBuffer({
+                    size: Math.max(16, arrays.reduce((size, array) => size + array.size * binding.size!, 0)),
+                    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
+                    label: `${binding.name} buffer`,
+                });
+                this.copyFoldedArrays(batch.encoder, arrays, buffer, "in");
+
+                buffersToDestroy.push(buffer);
+                entries.push({
+                    binding: i,
+                    resource: { buffer }
+                });
+            } else if (binding && binding.buffer === "uniform") {
+                // Pack scalars and structs with the layout of the declared type
+                const packedData = packData(binding.type, arg, structs, binding.name, Math.max(16, Math.ceil(binding.size! / 16) * 16));
+
+                const buffer = device.createBuffer({
+                    size: packedData.byteLength,
+                    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
+                    mappedAtCreation: true,
+                    label: `${binding.name} buffer`,
+                });
+                new Uint8Array(buffer.getMappedRange()).set(new Uint8Array(packedData));
+                buffer.unmap();
+
+                buffersToDestroy.push(buffer);
+                entries.push({
+                    binding: i,
+                    resource: { buffer }
+                });
+            } else if (arg instanceof SharedArray) {
+                if (binding && arg.type.kind === 'struct' && binding.type !== `array<${(arg.type as StructSpec).name}>`) {
+                    throw new Error(`Invalid value for '${binding.name}': expected ${binding.type}, got SharedArray of ${(arg.type as StructSpec).name}`);
+                }
+                // Reuse existing buffer from SharedArray, uploading host changes if any
+                const buffer = await batch.use(arg);
                 sharedArrays.push(arg);
                 entries.push({
                     binding: i,
@@ -216,51 +434,100 @@ export class Runtime {
         return entries;
     }
 
-    async draw(pipeline: GPURenderPipeline, vertexCount: number, args: any[] = []) {
+    /**
+     * Copy the SharedArrays folded into one binding into its buffer, one after the other,
+     * or back out of it once a kernel wrote them
+     */
+    private copyFoldedArrays(encoder: GPUCommandEncoder, arrays: SharedArray[], buffer: GPUBuffer, direction: "in" | "out") {
+        let offset = 0;
+        for (const array of arrays) {
+            const size = array.size * array.type.stride * 4;
+            if (size > 0 && direction === "in") {
+                encoder.copyBufferToBuffer(array.buffer!, 0, buffer, offset, size);
+            } else if (size > 0) {
+                encoder.copyBufferToBuffer(buffer, offset, array.buffer!, 0, size);
+            }
+            offset += size;
+        }
+    }
+
+    /**
+     * Draw with a render pipeline
+     * @param vertexCount Number of vertices, or of indices when drawing with an index buffer
+     * @param args Arguments of the bindings of the vertex and fragment shaders
+     * @param buffers SharedArrays read by the @attribute parameters of the vertex shader, in parameter order,
+     * and a SharedArray of u32 indices into them
+     */
+    async draw(pipeline: GPURenderPipeline, vertexCount: number, args: any[] = [], buffers: { vertices?: SharedArray[], indices?: SharedArray } = {}) {
         if (!this.context) throw new Error("Canvas not setup");
         const device = this.device!;
-
-        const buffersToDestroy: GPUBuffer[] = [];
-        const sharedArrays: SharedArray[] = [];
-
-        const entries = await this.createBindGroupEntries(device, args, buffersToDestroy, sharedArrays);
-
-        let bindGroup;
-        if (entries.length > 0) {
-            bindGroup = device.createBindGroup({
-                layout: pipeline.getBindGroupLayout(0),
-                entries
-            });
+        const context = this.context;
+
+        const reflections = this.renderPipelineReflections.get(pipeline);
+        const vertexReflection = reflections?.find(r => r.stage === "vertex");
+        const attributes = vertexReflection?.attributes ?? [];
+        const vertices = buffers.vertices ?? [];
+        if (vertexReflection && vertices.length !== attributes.length) {
+            const names = attributes.length > 0 ? ` (${attributes.map(a => a.name).join(", ")})` : "";
+            throw new Error(`Vertex shader '${vertexReflection.entryPoint}' takes ${attributes.length} attributes${names}, got ${vertices.length} vertex buffers`);
+        }
+        attributes.forEach((attribute, i) => {
+            // vec3<f32> is read from a SharedArray of vec3f
+            const kind = attribute.type.replace(/^vec(\d)<(\w)\d+>$/, "vec$1$2");
+            if (vertices[i].type.kind !== kind) {
+                throw new Error(`Invalid vertex buffer for '${attribute.name}': expected SharedArray of ${kind}, got ${vertices[i].type.kind}`);
+            }
+        });
+        if (buffers.indices && buffers.indices.type.kind !== "u32") {
+            throw new Error(`Invalid index buffer: expected SharedArray of u32, got ${buffers.indices.type.kind}`);
         }
 
-        const commandEncoder = device.createCommandEncoder();
-        const textureView = this.context.getCurrentTexture().createView();
+        await this.record(async batch => {
+            const buffersToDestroy: GPUBuffer[] = [];
+            const sharedArrays: SharedArray[] = [];
 
-        const renderPassDescriptor: GPURenderPassDescriptor = {
-            colorAttachments: [
-                {
-                    view: textureView,
-                    clearValue: { r: 0.0, g: 0.0, b: 0.0, a: 1.0 },
-                    loadOp: "load",
-                    storeOp: "store",
-                },
-            ],
-        };
+            const entries = await this.createBindGroupEntries(batch, args, buffersToDestroy, sharedArrays, reflections);
+            const vertexBuffers = await Promise.all(vertices.map(array => batch.use(array)));
+            const indexBuffer = buffers.indices && await batch.use(buffers.indices);
 
-        const passEncoder = commandEncoder.beginRenderPass(renderPassDescriptor);
-        passEncoder.setPipeline(pipeline);
-        if (bindGroup) {
-            passEncoder.setBindGroup(0, bindGroup);
-        }
-        passEncoder.draw(vertexCount);
-        passEncoder.end();
+            let bindGroup;
+            if (entries.length > 0) {
+                bindGroup = device.createBindGroup({
+                    layout: pipeline.getBindGroupLayout(0),
+                    entries
+                });
+            }
 
-        device.queue.submit([commandEncoder.finish()]);
+            const textureView = context.getCurrentTexture().createView();
+
+            const renderPassDescriptor: GPURenderPassDescriptor = {
+                colorAttachments: [
+                    {
+                        view: textureView,
+                        clearValue: { r: 0.0, g: 0.0, b: 0.0, a: 1.0 },
+                        loadOp: "load",
+                        storeOp: "store",
+                    },
+                ],
+            };
+
+            const passEncoder = batch.encoder.beginRenderPass(renderPassDescriptor);
+            passEncoder.setPipeline(pipeline);
+            if (bindGroup) {
+                passEncoder.setBindGroup(0, bindGroup);
+            }
+            vertexBuffers.forEach((buffer, slot) => passEncoder.setVertexBuffer(slot, buffer));
+            if (indexBuffer) {
+                passEncoder.setIndexBuffer(indexBuffer, "uint32");
+                passEncoder.drawIndexed(vertexCount);
+            } else {
+                passEncoder.draw(vertexCount);
+            }
+            passEncoder.end();
 
-        // Destroy temporary buffers
-        for (const buffer of buffersToDestroy) {
-            buffer.destroy();
-        }
+            // Destroy temporary buffers
+            batch.destroyAfterSubmit(...buffersToDestroy);
+        });
     }
 
     private getAlignment(value: any): number {
@@ -356,112 +623,98 @@ export class Runtime {
         return Math.max(16, Math.ceil(offset / 16) * 16);
     }
 
-    async dispatch(wgsl: string, entryPoint: string, args: any[], workgroupCount: [number, number, number] = [1, 1, 1]) {
+    async dispatch(wgsl: string, entryPoint: string, args: any[], workgroupCount: [number, number, number] = [1, 1, 1], sourceMap?: ShaderSourceMap, reflection?: ShaderReflection, options: DispatchOptions = {}) {
         await this.init();
         const device = this.device!;
 
-        // Create Shader Module
-        const shaderModule = device.createShaderModule({
-            code: wgsl
-        });
+        if (reflection && options.constants) checkConstants(reflection, options.constants);
 
-        // Create Pipeline
-        const pipeline = device.createComputePipeline({
-            layout: "auto",
-            compute: {
-                module: shaderModule,
-                entryPoint: entryPoint
-            }
-        });
+        // Get the pipeline, created on the first dispatch of the kernel with these constants
+        const pipeline = await this.pipelineCache.getComputePipeline(wgsl, entryPoint, sourceMap, reflection, options.constants);
 
-        // Create Buffers and BindGroup
-        const buffersToDestroy: GPUBuffer[] = [];
-        const sharedArrays: SharedArray[] = [];
-        const entries = await this.createBindGroupEntries(device, args, buffersToDestroy, sharedArrays);
+        await this.record(async batch => {
+            // Create Buffers and BindGroup
+            const buffersToDestroy: GPUBuffer[] = [];
+            const sharedArrays: SharedArray[] = [];
+            const entries = await this.createBindGroupEntries(batch, args, buffersToDestroy, sharedArrays, reflection ? [reflection] : []);
 
-        const bindGroup = device.createBindGroup({
-            layout: pipeline.getBindGroupLayout(0),
-            entries
-        });
+            const bindGroup = device.createBindGroup({
+                layout: pipeline.getBindGroupLayout(0),
+                entries
+            });
 
-        // Encode commands
-        const commandEncoder = device.createCommandEncoder();
-        const passEncoder = commandEncoder.beginComputePass();
-        passEncoder.setPipeline(pipeline);
-        passEncoder.setBindGroup(0, bindGroup);
-
-        passEncoder.dispatchWorkgroups(...workgroupCount);
-        passEncoder.end();
-
-        // For SharedArrays, sync back to host
-        for (const sharedArray of sharedArrays) {
-            if (sharedArray.buffer) {
-                const readBuffer = device.createBuffer({
-                    size: sharedArray.buffer.size,
-                    usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
-                    label: "SharedArray read buffer",
-                });
-                commandEncoder.copyBufferToBuffer(sharedArray.buffer, 0, readBuffer, 0, sharedArray.buffer.size);
-                buffersToDestroy.push(readBuffer);
-            }
-        }
+            // Encode commands
+            const commandEncoder = batch.encoder;
+            const passEncoder = commandEncoder.beginComputePass();
+            passEncoder.setPipeline(pipeline);
+            passEncoder.setBindGroup(0, bindGroup);
 
-        // For plain Float32Arrays, read back results
-        const readBuffers: GPUBuffer[] = [];
-        const readBufferMapping: Map<number, number> = new Map(); // maps arg index to readBuffer index
-        for (let i = 0; i < args.length; i++) {
-            const arg = args[i];
-            // Only read back plain Float32Arrays, not scalars or SharedArrays
-            if (arg instanceof Float32Array && !(arg instanceof SharedArray)) {
-                // Find the corresponding buffer in buffersToDestroy
-                // We need to find which buffer corresponds to this arg
-                let bufferIndex = 0;
-                for (let j = 0; j < i; j++) {
-                    if (args[j] instanceof Float32Array || typeof args[j] === 'number' ||
-                        (typeof args[j] === 'object' && args[j] !== null && 'type' in args[j])) {
-                        if (!(args[j] instanceof SharedArray)) {
-                            bufferIndex++;
-                        }
-                    }
-                }
+            passEncoder.dispatchWorkgroups(...workgroupCount);
+            passEncoder.end();
 
-                const buffer = buffersToDestroy[bufferIndex];
-                const readBuffer = device.createBuffer({
-                    size: buffer.size,
-                    usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
-                    label: "Float32Array read buffer",
-                });
-                commandEncoder.copyBufferToBuffer(buffer, 0, readBuffer, 0, buffer.size);
-                readBufferMapping.set(i, readBuffers.length);
-                readBuffers.push(readBuffer);
+            // The SharedArrays and SharedTextures the kernel may write are downloaded when the host reads them.
+            // Without a reflection every buffer and texture is assumed to be written
+            const written = (i: number) => reflection?.bindings.find(b => b.group === 0 && b.binding === i)?.access !== "read";
+            args.forEach((arg, i) => {
+                if ((arg instanceof SharedArray || arg instanceof SharedTexture) && written(i)) batch.write(arg);
+            });
+            // Folded arrays the kernel may write are copied back to their own buffers
+            for (const binding of reflection?.bindings ?? []) {
+                if (!binding.folded || binding.access === "read") continue;
+                const arrays = args[binding.binding] as SharedArray[];
+                const buffer = (entries.find(e => e.binding === binding.binding)!.resource as GPUBufferBinding).buffer;
+                this.copyFoldedArrays(commandEncoder, arrays, buffer, "out");
+                arrays.forEach(array => batch.write(array));
             }
-        }
 
-        device.queue.submit([commandEncoder.finish()]);
+            // For plain Float32Arrays, read back results
+            const readBuffers: GPUBuffer[] = [];
+            const readBufferMapping: Map<number, number> = new Map(); // maps arg index to readBuffer index
+            for (let i = 0; i < args.length; i++) {
+                const arg = args[i];
+                // Only read back plain Float32Arrays the kernel may write, not scalars or SharedArrays
+                if (arg instanceof Float32Array && !(arg instanceof SharedArray) && written(i)) {
+                    // Find the corresponding buffer in buffersToDestroy
+                    // We need to find which buffer corresponds to this arg
+                    let bufferIndex = 0;
+                    for (let j = 0; j < i; j++) {
+                        if (args[j] instanceof Float32Array || typeof args[j] === 'number' ||
+                            (typeof args[j] === 'object' && args[j] !== null && 'type' in args[j])) {
+                            if (!(args[j] instanceof SharedArray)) {
+                                bufferIndex++;
+                            }
+                        }
+                    }
 
-        // Sync SharedArrays to host
-        for (const sharedArray of sharedArrays) {
-            if (sharedArray.syncMode !== SyncMode.CpuToGpu && sharedArray.syncMode !== SyncMode.None) {
-                await sharedArray.syncToHost(device);
+                    const buffer = buffersToDestroy[bufferIndex];
+                    const readBuffer = device.createBuffer({
+                        size: buffer.size,
+                        usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+                        label: "Float32Array read buffer",
+                    });
+                    commandEncoder.copyBufferToBuffer(buffer, 0, readBuffer, 0, buffer.size);
+                    readBufferMapping.set(i, readBuffers.length);
+                    readBuffers.push(readBuffer);
+                }
             }
-        }
 
-        // Map and read plain Float32Arrays
-        await Promise.all(readBuffers.map(b => b.mapAsync(GPUMapMode.READ)));
+            // Destroy temporary buffers
+            batch.destroyAfterSubmit(...buffersToDestroy);
 
-        for (let i = 0; i < args.length; i++) {
-            if (readBufferMapping.has(i)) {
-                const readBufferIndex = readBufferMapping.get(i)!;
-                const result = new Float32Array(readBuffers[readBufferIndex].getMappedRange());
-                args[i].set(result);
-                readBuffers[readBufferIndex].destroy();
-            }
-        }
+            // Map and read plain Float32Arrays once the batch is submitted
+            batch.afterSubmit(async () => {
+                await Promise.all(readBuffers.map(b => b.mapAsync(GPUMapMode.READ)));
 
-        // Destroy temporary buffers
-        for (const buffer of buffersToDestroy) {
-            buffer.destroy();
-        }
+                for (let i = 0; i < args.length; i++) {
+                    if (readBufferMapping.has(i)) {
+                        const readBufferIndex = readBufferMapping.get(i)!;
+                        const result = new Float32Array(readBuffers[readBufferIndex].getMappedRange());
+                        args[i].set(result);
+                        readBuffers[readBufferIndex].destroy();
+                    }
+                }
+            });
+        });
     }
 
     // Primitive rendering infrastructure
@@ -486,7 +739,7 @@ export class Runtime {
             this.circleRenderer = new CircleRenderer(this.device!, this.presentationFormat);
         }
 
-        await this.circleRenderer.draw(this.context, centers, radii, colors, options);
+        await this.record(batch => this.circleRenderer!.draw(batch, this.context!, centers, radii, colors, options));
     }
 
     async line(
@@ -520,7 +773,7 @@ export class Runtime {
             this.lineRenderer = new LineRenderer(this.device!, this.presentationFormat);
         }
 
-        await this.lineRenderer.draw(this.context, begin, end, width, color, options);
+        await this.record(batch => this.lineRenderer!.draw(batch, this.context!, begin, end, width, color, options));
     }
 
     async rect(
@@ -548,7 +801,7 @@ export class Runtime {
             this.rectangleRenderer = new RectangleRenderer(this.device!, this.presentationFormat);
         }
 
-        await this.rectangleRenderer.draw(this.context, centers, sizes, colors, options);
+        await this.record(batch => this.rectangleRenderer!.draw(batch, this.context!, centers, sizes, colors, options));
     }
 
     async sphere(
@@ -578,7 +831,7 @@ export class Runtime {
 
         const depthTexture = this.ensureDepthTexture();
         if (!depthTexture) throw new Error("Failed to create depth texture");
-        await this.primitiveRenderer.draw(this.context, centers, radii, colors, PrimitiveType.Sphere, depthTexture, options);
+        await this.record(batch => this.primitiveRenderer!.draw(batch, this.context!, centers, radii, colors, PrimitiveType.Sphere, depthTexture, options));
     }
 
     async box(
@@ -613,7 +866,7 @@ export class Runtime {
 
         const depthTexture = this.ensureDepthTexture();
         if (!depthTexture) throw new Error("Failed to create depth texture");
-        await this.primitiveRenderer.draw(this.context, centers, sizes, colors, PrimitiveType.Box, depthTexture, options);
+        await this.record(batch => this.primitiveRenderer!.draw(batch, this.context!, centers, sizes, colors, PrimitiveType.Box, depthTexture, options));
     }
 
     async plane(
@@ -648,7 +901,7 @@ export class Runtime {
 
         const depthTexture = this.ensureDepthTexture();
         if (!depthTexture) throw new Error("Failed to create depth texture");
-        await this.primitiveRenderer.draw(this.context, centers, sizes, colors, PrimitiveType.Plane, depthTexture, options);
+        await this.record(batch => this.primitiveRenderer!.draw(batch, this.context!, centers, sizes, colors, PrimitiveType.Plane, depthTexture, options));
     }
 
     // Display a 2D SharedArray as an image on the canvas
@@ -663,7 +916,7 @@ export class Runtime {
             this.imageRenderer = new ImageRenderer(this.device!, this.presentationFormat);
         }
 
-        await this.imageRenderer.draw(this.context, array);
+        await this.record(batch => this.imageRenderer!.draw(batch, this.context!, array));
     }
 
     private gizmoRenderer: GizmoRenderer | null = null;
@@ -678,6 +931,6 @@ export class Runtime {
 
         const depthTexture = this.ensureDepthTexture();
         if (!depthTexture) throw new Error("Failed to create depth texture");
-        await this.gizmoRenderer.draw(this.context, camera, depthTexture);
+        await this.record(batch => this.gizmoRenderer!.draw(batch, this.context!, camera, depthTexture));
     }
 }
@@ -1,5 +1,10 @@
 import { TypedArray, TypedArrayConstructor, TypeSpec, f32 } from './types';
+import { StructSpec, isStructSpec, packValue, viewValue } from './struct-packing';
 
+/**
+ * @deprecated SharedArrays track which side holds the latest data and only transfer it when needed,
+ * so the sync mode no longer has any effect
+ */
 export enum SyncMode {
     Auto = 0,      // Bidirectional sync (default)
     CpuToGpu = 1,  // Upload only (CPU -> GPU)
@@ -7,25 +12,36 @@ export enum SyncMode {
     None = 3       // No automatic sync
 }
 
+// Host value of an element: a view of the vector or matrix, or an object for structs
+type Element<T> = [T] extends [number | TypedArray] ? TypedArray : T;
+
 export class SharedArray<T = any> {
     private hostData: TypedArray;
     private deviceBuffer: GPUBuffer | null = null;
     private device: GPUDevice | null = null;
+    // Host data changed since the last upload
+    private hostDirty = true;
+    // A kernel wrote the buffer since the last download
+    private deviceDirty = false;
+    // Submits the recorded but not yet submitted commands that write the buffer
+    private pendingCommands: (() => Promise<void>) | null = null;
+    private warnedStaleRead = false;
 
     public readonly shape: number[];
     public readonly ndim: number;
-    public readonly type: TypeSpec<any>;
+    public readonly type: TypeSpec<any> | StructSpec<T>;
+    /** @deprecated has no effect, see {@link SyncMode} */
     public syncMode: SyncMode = SyncMode.Auto;
 
     constructor(
-        typeOrData: TypeSpec<any> | number | number[] | TypedArray,
+        typeOrData: TypeSpec<any> | StructSpec<T> | number | number[] | TypedArray,
         shapeOrSizeOrData?: number | number[] | TypedArray,
         syncMode: SyncMode = SyncMode.Auto
     ) {
         // Handle overload: constructor(type: TypeSpec, data: number[], syncMode?)
         // or constructor(type: TypeSpec, size: number, syncMode?)
-        if (typeof typeOrData === 'function' && 'kind' in typeOrData) {
-            this.type = typeOrData as TypeSpec<any>;
+        if ((typeof typeOrData === 'function' && 'kind' in typeOrData) || isStructSpec(typeOrData)) {
+            this.type = typeOrData as TypeSpec<any> | StructSpec<T>;
             const dataOrSize = shapeOrSizeOrData!;
             this.syncMode = syncMode;
 
@@ -80,36 +96,118 @@ export class SharedArray<T = any> {
     }
 
     /**
-     * Get a view of the vector at the specified index.
+     * Get a view of the vector at the specified index, for reading: changes made through it are not uploaded.
+     * For arrays of structs, an object whose fields read the element and upload the fields assigned
      */
-    get(index: number): TypedArray {
+    get(index: number): Element<T> {
         if (index < 0 || index >= this.size) {
             throw new Error(`Index out of bounds: ${index}`);
         }
+        if (isStructSpec(this.type)) {
+            const data = this.hostRead();
+            const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+            return viewValue(view, index * this.type.stride * 4, this.type.name, this.type.structs, () => this.hostWrite());
+        }
         const start = index * this.type.stride;
         const end = start + this.type.components;
-        return this.hostData.subarray(start, end);
+        return this.hostRead().subarray(start, end) as Element<T>;
     }
 
     /**
      * Set the vector at the specified index.
+     * For arrays of structs, every field of the struct must be given
      */
-    set(index: number, value: TypedArray | number[]): void {
+    set(index: number, value: Element<T> | number[]): void {
         if (index < 0 || index >= this.size) {
             throw new Error(`Index out of bounds: ${index}`);
         }
+        if (isStructSpec(this.type)) {
+            const data = this.hostWrite();
+            packValue(new DataView(data.buffer, data.byteOffset, data.byteLength), index * this.type.stride * 4, this.type.name, value, this.type.structs, `[${index}]`);
+            return;
+        }
+        const values = value as TypedArray | number[];
         const start = index * this.type.stride;
-        if (value.length !== this.type.components) {
-            console.warn(`Invalid value for SharedArray assignment at index ${index}. Expected length ${this.type.components}, got ${value.length}`);
+        if (values.length !== this.type.components) {
+            console.warn(`Invalid value for SharedArray assignment at index ${index}. Expected length ${this.type.components}, got ${values.length}`);
             return;
         }
-        this.hostData.set(value, start);
+        this.hostWrite().set(values, start);
     }
 
     /**
-     * Access the underlying TypedArray host data
+     * Access the underlying TypedArray host data. Changes made through it are uploaded before the next kernel uses the array,
+     * read through `readonlyData` to avoid the upload.
+     * If a kernel wrote the array since it was last read, the host data is out of date: `await read()` it first.
+     * Until a future release, where it will throw, the access then warns and changes are not uploaded
      */
     get data(): TypedArray {
+        return this.deviceDirty ? this.hostRead() : this.hostWrite();
+    }
+
+    /**
+     * Access the underlying TypedArray host data for reading: changes made through it are not uploaded.
+     * Warns that the data is out of date if a kernel wrote the array since it was last read: `await read()` it first
+     */
+    get readonlyData(): TypedArray {
+        return this.hostRead();
+    }
+
+    /**
+     * Download the data written by kernels if the host copy is out of date, and resolve to the host data.
+     * The result is meant for reading: changes made through it are not uploaded, write through `data` or `set` instead
+     */
+    async read(): Promise<TypedArray> {
+        if (this.pendingCommands) {
+            await this.pendingCommands();
+        }
+        if (this.deviceDirty && this.device) {
+            await this.syncToHost(this.device);
+        }
+        return this.hostData;
+    }
+
+    /**
+     * Whether the host data changed since it was last uploaded
+     */
+    get isHostDirty(): boolean {
+        return this.hostDirty;
+    }
+
+    /**
+     * Whether a kernel wrote the array since it was last downloaded
+     */
+    get isDeviceDirty(): boolean {
+        return this.deviceDirty;
+    }
+
+    /**
+     * Record that a kernel may have written the GPU buffer: the host data is out of date until the next `read()`
+     * @param pendingCommands submits the kernel, when it is recorded but not submitted yet
+     */
+    markDeviceDirty(pendingCommands?: () => Promise<void>): void {
+        if (!this.deviceBuffer) return;
+        this.deviceDirty = true;
+        this.pendingCommands = pendingCommands ?? null;
+    }
+
+    // The host data, for an access that only reads it.
+    // Accessing data a kernel wrote will throw in a future release: until then it warns, once per array
+    private hostRead(): TypedArray {
+        if (this.deviceDirty && !this.warnedStaleRead) {
+            this.warnedStaleRead = true;
+            console.warn("SharedArray was written by a kernel: call 'await array.read()' before accessing its data on the host. " +
+                "Its host data is out of date, and accessing it will throw in a future release");
+        }
+        return this.hostData;
+    }
+
+    // The host data, for an access that writes it
+    private hostWrite(): TypedArray {
+        if (this.deviceDirty) {
+            throw new Error("SharedArray was written by a kernel: call 'await array.read()' before changing its data on the host");
+        }
+        this.hostDirty = true;
         return this.hostData;
     }
 
@@ -129,20 +227,26 @@ export class SharedArray<T = any> {
 
     /**
      * Ensure the GPU buffer exists and is up-to-date with host data.
-     * If buffer doesn't exist, it creates one and uploads data.
+     * If buffer doesn't exist, it creates one and uploads data; otherwise host changes are uploaded, if any.
      */
     async ensureBuffer(device: GPUDevice): Promise<GPUBuffer> {
         if (!this.deviceBuffer || this.device !== device) {
             this.device = device;
             this.deviceBuffer = device.createBuffer({
                 size: Math.max(16, this.hostData.byteLength),
-                usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
+                // Vertex and index usages let draws read the array as vertex attributes or indices
+                usage: GPUBufferUsage.STORAGE | GPUBufferUsage.VERTEX | GPUBufferUsage.INDEX | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
                 mappedAtCreation: true
             });
 
             // Initialize buffer with current host data
             new (this.hostData.constructor as any)(this.deviceBuffer.getMappedRange()).set(this.hostData);
             this.deviceBuffer.unmap();
+            this.hostDirty = false;
+            this.deviceDirty = false;
+        } else if (this.hostDirty) {
+            device.queue.writeBuffer(this.deviceBuffer, 0, this.hostData.buffer, this.hostData.byteOffset, this.hostData.byteLength);
+            this.hostDirty = false;
         }
         return this.deviceBuffer;
     }
@@ -152,8 +256,8 @@ export class SharedArray<T = any> {
      * Creates the buffer if it doesn't exist.
      */
     async syncToDevice(device: GPUDevice): Promise<void> {
-        const buffer = await this.ensureBuffer(device);
-        device.queue.writeBuffer(buffer, 0, this.hostData.buffer, this.hostData.byteOffset, this.hostData.byteLength);
+        this.hostDirty = true;
+        await this.ensureBuffer(device);
     }
 
     /**
@@ -178,6 +282,7 @@ export class SharedArray<T = any> {
 
         // Update host data
         this.hostData.set(result);
+        this.deviceDirty = false;
 
         readBuffer.destroy();
     }
@@ -189,6 +294,9 @@ export class SharedArray<T = any> {
         if (this.deviceBuffer) {
             this.deviceBuffer.destroy();
             this.deviceBuffer = null;
+            this.hostDirty = true;
+            this.deviceDirty = false;
+            this.pendingCommands = null;
         }
     }
 }
@@ -0,0 +1,199 @@
+import { TypedArray, TypedArrayConstructor } from './types';
+
+// Formats kernels can write through a StorageTexture2D: bytes per texel and the host array of one channel
+const TEXEL_FORMATS = {
+    "rgba8unorm": [4, Uint8Array],
+    "rgba8snorm": [4, Int8Array],
+    "rgba8uint": [4, Uint8Array],
+    "rgba8sint": [4, Int8Array],
+    "rgba16uint": [8, Uint16Array],
+    "rgba16sint": [8, Int16Array],
+    // Half floats, as raw bits
+    "rgba16float": [8, Uint16Array],
+    "r32uint": [4, Uint32Array],
+    "r32sint": [4, Int32Array],
+    "r32float": [4, Float32Array],
+    "rg32uint": [8, Uint32Array],
+    "rg32sint": [8, Int32Array],
+    "rg32float": [8, Float32Array],
+    "rgba32uint": [16, Uint32Array],
+    "rgba32sint": [16, Int32Array],
+    "rgba32float": [16, Float32Array],
+} satisfies Record<string, [number, TypedArrayConstructor<TypedArray>]>;
+
+export type StorageTextureFormat = keyof typeof TEXEL_FORMATS;
+
+// Rows of texture copies to buffers are aligned to 256 bytes
+const COPY_ROW_ALIGNMENT = 256;
+
+/**
+ * A 2D texture shared between the host and kernels, bound to `Texture2D` and `StorageTexture2D` parameters.
+ * Like SharedArray, it tracks which side holds the latest texels and only transfers them when needed.
+ * Sampling with filtering needs a filterable format such as rgba8unorm or rgba16float
+ */
+export class SharedTexture {
+    private hostData: TypedArray;
+    private deviceTexture: GPUTexture | null = null;
+    private device: GPUDevice | null = null;
+    // Host data changed since the last upload
+    private hostDirty = true;
+    // A kernel wrote the texture since the last download
+    private deviceDirty = false;
+    // Submits the recorded but not yet submitted commands that write the texture
+    private pendingCommands: (() => Promise<void>) | null = null;
+
+    public readonly width: number;
+    public readonly height: number;
+    public readonly format: StorageTextureFormat;
+
+    /**
+     * @param data Initial texels, row by row: `width * height` texels of the format's channels
+     */
+    constructor(width: number, height: number, format: StorageTextureFormat = "rgba8unorm", data?: TypedArray) {
+        if (!(format in TEXEL_FORMATS)) {
+            throw new Error(`Unsupported texture format '${format}'`);
+        }
+        this.width = width;
+        this.height = height;
+        this.format = format;
+
+        const [, HostArray] = TEXEL_FORMATS[format];
+        const length = width * height * this.bytesPerTexel / HostArray.BYTES_PER_ELEMENT;
+        if (data && data.length !== length) {
+            throw new Error(`Invalid data for a ${width}x${height} ${format} texture: expected ${length} values, got ${data.length}`);
+        }
+        this.hostData = data ?? new HostArray(length);
+    }
+
+    private get bytesPerTexel(): number {
+        return TEXEL_FORMATS[this.format][0];
+    }
+
+    /**
+     * Access the texels on the host, row by row.
+     * Throws if a kernel wrote the texture since it was last read: `await read()` it first
+     */
+    get data(): TypedArray {
+        if (this.deviceDirty) {
+            throw new Error("SharedTexture was written by a kernel: call 'await texture.read()' before accessing its data on the host");
+        }
+        this.hostDirty = true;
+        return this.hostData;
+    }
+
+    /**
+     * Download the texels written by kernels if the host copy is out of date, and resolve to the host data.
+     * The result is meant for reading: changes made through it are not uploaded, write through `data` instead
+     */
+    async read(): Promise<TypedArray> {
+        if (this.pendingCommands) {
+            await this.pendingCommands();
+        }
+        if (this.deviceDirty && this.device) {
+            await this.syncToHost(this.device);
+        }
+        return this.hostData;
+    }
+
+    /**
+     * Whether the host data changed since it was last uploaded
+     */
+    get isHostDirty(): boolean {
+        return this.hostDirty;
+    }
+
+    /**
+     * Whether a kernel wrote the texture since it was last downloaded
+     */
+    get isDeviceDirty(): boolean {
+        return this.deviceDirty;
+    }
+
+    /**
+     * Record that a kernel may have written the texture: the host data is out of date until the next `read()`
+     * @param pendingCommands submits the kernel, when it is recorded but not submitted yet
+     */
+    markDeviceDirty(pendingCommands?: () => Promise<void>): void {
+        if (!this.deviceTexture) return;
+        this.deviceDirty = true;
+        this.pendingCommands = pendingCommands ?? null;
+    }
+
+    /**
+     * Access the GPUTexture (if created)
+     */
+    get texture(): GPUTexture | null {
+        return this.deviceTexture;
+    }
+
+    /**
+     * Ensure the GPU texture exists and is up-to-date with host data, uploading host changes if any
+     */
+    async ensureTexture(device: GPUDevice): Promise<GPUTexture> {
+        if (!this.deviceTexture || this.device !== device) {
+            this.device = device;
+            this.deviceTexture = device.createTexture({
+                size: { width: this.width, height: this.height },
+                format: this.format,
+                usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.COPY_SRC | GPUTextureUsage.COPY_DST,
+            });
+            this.hostDirty = true;
+            this.deviceDirty = false;
+        }
+        if (this.hostDirty) {
+            device.queue.writeTexture(
+                { texture: this.deviceTexture },
+                this.hostData.buffer,
+                { offset: this.hostData.byteOffset, bytesPerRow: this.width * this.bytesPerTexel },
+                { width: this.width, height: this.height }
+            );
+            this.hostDirty = false;
+        }
+        return this.deviceTexture;
+    }
+
+    /**
+     * Download the texels of the GPU texture to host memory
+     */
+    async syncToHost(device: GPUDevice): Promise<void> {
+        if (!this.deviceTexture) return;
+
+        const rowBytes = this.width * this.bytesPerTexel;
+        const paddedRowBytes = Math.ceil(rowBytes / COPY_ROW_ALIGNMENT) * COPY_ROW_ALIGNMENT;
+        const readBuffer = device.createBuffer({
+            size: paddedRowBytes * this.height,
+            usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ
+        });
+
+        const commandEncoder = device.createCommandEncoder();
+        commandEncoder.copyTextureToBuffer(
+            { texture: this.deviceTexture },
+            { buffer: readBuffer, bytesPerRow: paddedRowBytes },
+            { width: this.width, height: this.height }
+        );
+        device.queue.submit([commandEncoder.finish()]);
+
+        await readBuffer.mapAsync(GPUMapMode.READ);
+        const mapped = new Uint8Array(readBuffer.getMappedRange());
+        const host = new Uint8Array(this.hostData.buffer, this.hostData.byteOffset, this.hostData.byteLength);
+        for (let y = 0; y < this.height; y++) {
+            host.set(mapped.subarray(y * paddedRowBytes, y * paddedRowBytes + rowBytes), y * rowBytes);
+        }
+        this.deviceDirty = false;
+
+        readBuffer.destroy();
+    }
+
+    /**
+     * Destroy the GPU texture to free memory
+     */
+    destroy(): void {
+        if (this.deviceTexture) {
+            this.deviceTexture.destroy();
+            this.deviceTexture = null;
+            this.hostDirty = true;
+            this.deviceDirty = false;
+            this.pendingCommands = null;
+        }
+    }
+}
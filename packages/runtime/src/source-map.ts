@@ -0,0 +1,53 @@
+/**
+ * Maps generated WGSL back to the TypeScript it was compiled from.
+ * Emitted by the compiler next to each shader as `<name>_wgsl_map`.
+ * `mappings[i]` holds the segments of WGSL line i + 1 as [wgslColumn, fileIndex, tsLine, tsColumn],
+ * sorted by column; `files` holds the names of the TS files, and `sources` holds, per file,
+ * the text of every TS line referenced by a segment. Lines and columns are 1-based
+ */
+export interface ShaderSourceMap {
+    files: string[];
+    mappings: [number, number, number, number][][];
+    sources: Record<number, string>[];
+}
+
+export interface SourceLocation {
+    file: string;
+    line: number;
+    column: number;
+    source: string;
+}
+
+/**
+ * Find the TS location of a WGSL position: the last segment starting at or before it,
+ * searching back through earlier lines for lines without segments of their own (e.g. closing braces)
+ */
+export function mapLocation(sourceMap: ShaderSourceMap, line: number, column: number): SourceLocation | undefined {
+    for (let l = Math.min(line, sourceMap.mappings.length); l >= 1; l--) {
+        const segments = sourceMap.mappings[l - 1];
+        const segment = l === line
+            ? [...segments].reverse().find(s => s[0] <= column) ?? segments[0]
+            : segments[segments.length - 1];
+        if (segment) {
+            const [, file, tsLine, tsColumn] = segment;
+            return { file: sourceMap.files[file], line: tsLine, column: tsColumn, source: sourceMap.sources[file]?.[tsLine] ?? "" };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Format a shader compilation message, located in the TS source when a source map is available:
+ *
+ *     Fluid3D.tsx:142:17 - error: unresolved identifier 'foo' (WGSL 57:9)
+ *       142 |     const v = foo + 1.0;
+ */
+export function formatCompilationMessage(message: Pick<GPUCompilationMessage, "type" | "message" | "lineNum" | "linePos">, sourceMap?: ShaderSourceMap): string {
+    const wgslLocation = `WGSL ${message.lineNum}:${message.linePos}`;
+    const location = sourceMap && message.lineNum > 0 ? mapLocation(sourceMap, message.lineNum, message.linePos) : undefined;
+    if (!location) {
+        return `${wgslLocation} - ${message.type}: ${message.message}`;
+    }
+    return `${location.file}:${location.line}:${location.column} - ${message.type}: ${message.message} (${wgslLocation})\n` +
+        `  ${location.line} | ${location.source}`;
+}
@@ -0,0 +1,260 @@
+import { StructLayout } from './reflection';
+import { TypeSpec } from './types';
+
+/**
+ * Packing of host values into buffers, following the layouts the compiler computed from the TS declarations
+ * (see `ShaderReflection.structs`) rather than guessing from the JS values
+ */
+
+function roundUp(align: number, n: number): number {
+    return Math.ceil(n / align) * align;
+}
+
+function describe(value: any): string {
+    if (value === null || value === undefined) return String(value);
+    if (ArrayBuffer.isView(value)) return `${value.constructor.name}(${(value as any).length})`;
+    if (Array.isArray(value)) return `array(${value.length})`;
+    if (typeof value === 'object' && 'type' in value && 'value' in value) return value.type;
+    return typeof value;
+}
+
+function mismatch(path: string, type: string, value: any): Error {
+    return new Error(`Invalid value for '${path}': expected ${type}, got ${describe(value)}`);
+}
+
+/**
+ * Alignment and size of a WGSL type, as in the compiler's layout rules
+ */
+export function typeLayout(type: string, structs: Record<string, StructLayout>): { size: number, align: number } {
+    if (type === 'f32' || type === 'i32' || type === 'u32' || type.startsWith('atomic<')) return { size: 4, align: 4 };
+
+    const vector = type.match(/^vec([234])<\w+>$/);
+    if (vector) {
+        const n = Number(vector[1]);
+        return { size: n * 4, align: n === 2 ? 8 : 16 };
+    }
+
+    const matrix = type.match(/^mat([234])x([234])<\w+>$/);
+    if (matrix) {
+        const column = typeLayout(`vec${matrix[2]}<f32>`, structs);
+        return { size: Number(matrix[1]) * roundUp(column.align, column.size), align: column.align };
+    }
+
+    const array = type.match(/^array<(.+?)(?:, (\d+))?>$/);
+    if (array) {
+        const element = typeLayout(array[1], structs);
+        const stride = roundUp(element.align, element.size);
+        return { size: array[2] ? Number(array[2]) * stride : stride, align: element.align };
+    }
+
+    const struct = structs[type];
+    if (struct) return { size: struct.size, align: struct.align };
+
+    throw new Error(`No layout for type '${type}'`);
+}
+
+function writeScalar(view: DataView, offset: number, type: string, value: any, path: string) {
+    let v = value;
+    if (typeof value === 'object' && value !== null && 'type' in value && 'value' in value) {
+        // f32(), i32() and u32() wrappers must match the declared type
+        if (value.type !== type) throw mismatch(path, type, value);
+        v = value.value;
+    }
+    if (typeof v === 'boolean') v = v ? 1 : 0;
+    if (typeof v !== 'number') throw mismatch(path, type, value);
+
+    if (type === 'f32') {
+        view.setFloat32(offset, v, true);
+        return;
+    }
+    if (!Number.isInteger(v)) {
+        throw new Error(`Invalid value for '${path}': ${v} is not a valid ${type}`);
+    }
+    if (type === 'u32') {
+        if (v < 0) throw new Error(`Invalid value for '${path}': ${v} is not a valid u32`);
+        view.setUint32(offset, v, true);
+    } else {
+        view.setInt32(offset, v, true);
+    }
+}
+
+// Components of a vector or matrix column: a typed array or plain array
+function components(value: any): ArrayLike<number> | undefined {
+    if (ArrayBuffer.isView(value) || Array.isArray(value)) return value as unknown as ArrayLike<number>;
+    return undefined;
+}
+
+/**
+ * Write a value of a WGSL type at a byte offset
+ * @param path Name of the value in error messages, e.g. `params.gravity`
+ */
+export function packValue(view: DataView, offset: number, type: string, value: any, structs: Record<string, StructLayout>, path: string) {
+    const atomic = type.match(/^atomic<(\w+)>$/);
+    if (atomic) {
+        writeScalar(view, offset, atomic[1], value, path);
+        return;
+    }
+    if (type === 'f32' || type === 'i32' || type === 'u32' || type === 'bool') {
+        writeScalar(view, offset, type === 'bool' ? 'u32' : type, value, path);
+        return;
+    }
+
+    const vector = type.match(/^vec([234])<(\w+)>$/);
+    if (vector) {
+        const n = Number(vector[1]);
+        const values = components(value);
+        // vec3 values may carry the padding component of their storage layout
+        if (!values || (values.length !== n && !(n === 3 && values.length === 4))) throw mismatch(path, type, value);
+        for (let i = 0; i < n; i++) {
+            writeScalar(view, offset + i * 4, vector[2], values[i], `${path}[${i}]`);
+        }
+        return;
+    }
+
+    const matrix = type.match(/^mat([234])x([234])<(\w+)>$/);
+    if (matrix) {
+        const columns = Number(matrix[1]);
+        const rows = Number(matrix[2]);
+        const stride = typeLayout(`vec${rows}<f32>`, structs).align;
+        const values = components(value);
+        // Column-major, either packed or with each column padded to its alignment
+        const padded = stride / 4;
+        if (!values || (values.length !== columns * rows && values.length !== columns * padded)) throw mismatch(path, type, value);
+        const step = values.length === columns * rows ? rows : padded;
+        for (let c = 0; c < columns; c++) {
+            for (let r = 0; r < rows; r++) {
+                writeScalar(view, offset + c * stride + r * 4, matrix[3], values[c * step + r], `${path}[${c}][${r}]`);
+            }
+        }
+        return;
+    }
+
+    const array = type.match(/^array<(.+?)(?:, (\d+))?>$/);
+    if (array) {
+        const element = typeLayout(array[1], structs);
+        const stride = roundUp(element.align, element.size);
+        const count = array[2] ? Number(array[2]) : undefined;
+        if (!Array.isArray(value) && !ArrayBuffer.isView(value)) throw mismatch(path, type, value);
+        const elements = value as unknown as ArrayLike<any>;
+        if (count !== undefined && elements.length !== count) throw mismatch(path, type, value);
+        for (let i = 0; i < elements.length; i++) {
+            packValue(view, offset + i * stride, array[1], elements[i], structs, `${path}[${i}]`);
+        }
+        return;
+    }
+
+    const struct = structs[type];
+    if (!struct) throw new Error(`No layout for type '${type}'`);
+    if (typeof value !== 'object' || value === null || ArrayBuffer.isView(value) || Array.isArray(value)) {
+        throw mismatch(path, type, value);
+    }
+    for (const field of struct.fields) {
+        if (!(field.name in value)) {
+            throw new Error(`Missing field '${field.name}' of struct '${type}' in '${path}'`);
+        }
+        packValue(view, offset + field.offset, field.type, value[field.name], structs, `${path}.${field.name}`);
+    }
+}
+
+/**
+ * Pack a value of a WGSL type into a new buffer of at least `minSize` bytes
+ * @param path Name of the value in error messages
+ */
+export function packData(type: string, value: any, structs: Record<string, StructLayout>, path: string, minSize = 0): ArrayBuffer {
+    const data = new ArrayBuffer(Math.max(minSize, typeLayout(type, structs).size));
+    packValue(new DataView(data), 0, type, value, structs, path);
+    return data;
+}
+
+/**
+ * Runtime type of a struct declared in TS, for `new SharedArray(Particle, n)`.
+ * The compiler emits one with `runtime.struct` for each struct the host code uses as a value
+ */
+export interface StructSpec<T = any> extends TypeSpec<Float32Array> {
+    kind: 'struct';
+    name: string;
+    // Layouts of the struct and of the structs its fields use
+    structs: Record<string, StructLayout>;
+}
+
+/**
+ * Create the runtime type of a struct. Elements are stored as raw words, `stride` floats apart
+ */
+export function structType<T = any>(name: string, structs: Record<string, StructLayout>): StructSpec<T> {
+    const layout = structs[name];
+    if (!layout) throw new Error(`No layout for struct '${name}'`);
+    return {
+        kind: 'struct',
+        name,
+        structs,
+        components: layout.size / 4,
+        elementSize: 4,
+        stride: layout.size / 4,
+        TypedArray: Float32Array,
+    };
+}
+
+export function isStructSpec(type: any): type is StructSpec {
+    return typeof type === 'object' && type !== null && type.kind === 'struct';
+}
+
+function componentArray(type: string): Float32ArrayConstructor | Int32ArrayConstructor | Uint32ArrayConstructor {
+    if (type === 'i32') return Int32Array;
+    if (type === 'u32') return Uint32Array;
+    return Float32Array;
+}
+
+function readScalar(view: DataView, offset: number, type: string): number {
+    if (type === 'i32') return view.getInt32(offset, true);
+    if (type === 'u32' || type === 'bool') return view.getUint32(offset, true);
+    return view.getFloat32(offset, true);
+}
+
+/**
+ * Live view of a value stored at a byte offset: writes through the view change the stored data.
+ * Scalars are returned by value; vectors and matrices are typed arrays over the storage,
+ * with matrix columns padded to their alignment; structs are objects with a property per field
+ * @param onWrite called before a struct field is assigned, e.g. to mark the data for upload
+ */
+export function viewValue(view: DataView, offset: number, type: string, structs: Record<string, StructLayout>, onWrite?: () => void): any {
+    const scalar = type.match(/^(?:atomic<(\w+)>|(f32|i32|u32|bool))$/);
+    if (scalar) return readScalar(view, offset, scalar[1] ?? scalar[2]);
+
+    const vector = type.match(/^vec([234])<(\w+)>$/);
+    if (vector) {
+        return new (componentArray(vector[2]))(view.buffer as ArrayBuffer, view.byteOffset + offset, Number(vector[1]));
+    }
+
+    const matrix = type.match(/^mat([234])x([234])<(\w+)>$/);
+    if (matrix) {
+        const stride = typeLayout(`vec${matrix[2]}<f32>`, structs).align;
+        return new Float32Array(view.buffer as ArrayBuffer, view.byteOffset + offset, Number(matrix[1]) * stride / 4);
+    }
+
+    const array = type.match(/^array<(.+?), (\d+)>$/);
+    if (array) {
+        const element = typeLayout(array[1], structs);
+        const stride = roundUp(element.align, element.size);
+        const count = Number(array[2]);
+        if (stride === 4 && /^(f32|i32|u32)$/.test(array[1])) {
+            return new (componentArray(array[1]))(view.buffer as ArrayBuffer, view.byteOffset + offset, count);
+        }
+        return Array.from({ length: count }, (_, i) => viewValue(view, offset + i * stride, array[1], structs, onWrite));
+    }
+
+    const struct = structs[type];
+    if (!struct) throw new Error(`No layout for type '${type}'`);
+    const value = {};
+    for (const field of struct.fields) {
+        const fieldOffset = offset + field.offset;
+        Object.defineProperty(value, field.name, {
+            enumerable: true,
+            get: () => viewValue(view, fieldOffset, field.type, structs, onWrite),
+            set: (v: any) => {
+                onWrite?.();
+                packValue(view, fieldOffset, field.type, v, structs, field.name);
+            },
+        });
+    }
+    return value;
+}
@@ -20,6 +20,8 @@ export interface TypeSpec<T extends TypedArray> {
     TypedArray: TypedArrayConstructor<T>;
 }
 
+import type { SharedTexture, StorageTextureFormat } from './shared-texture';
+
 declare global {
     // ========================================================================
     // Primitive Types
@@ -64,9 +66,20 @@ declare global {
     // ========================================================================
     var global_invocation_id: vec3u;
     var global_id: vec3u;
+    // Compute built-ins, passed to the kernels that use them
+    var local_invocation_id: vec3u;
+    var local_invocation_index: u32;
+    var workgroup_id: vec3u;
+    var num_workgroups: vec3u;
+    // Vertex built-ins; instance_index is passed to the vertex shaders that use it
     var vertex_index: u32;
     var instance_index: u32;
+    // Fragment built-ins, passed to the fragment shaders that use them
     var frag_coord: vec4f;
+    var front_facing: boolean;
+    var sample_index: u32;
+    // Depth a fragment shader writes instead of frag_coord.z, which it starts at
+    var frag_depth: f32;
 
     // ========================================================================
     // Input
@@ -192,6 +205,59 @@ declare global {
     function ldexp(v: number, w: number): number;
     function quantizeToF16(v: number): number;
 
+    // --- Fragment shaders only ---
+    // End the fragment shader invocation without writing the fragment
+    function discard(): never;
+    // Partial derivatives across neighbouring fragments, and the sum of their absolute values
+    function dpdx<T extends number | vec2f | vec3f | vec4f>(v: T): T;
+    function dpdxCoarse<T extends number | vec2f | vec3f | vec4f>(v: T): T;
+    function dpdxFine<T extends number | vec2f | vec3f | vec4f>(v: T): T;
+    function dpdy<T extends number | vec2f | vec3f | vec4f>(v: T): T;
+    function dpdyCoarse<T extends number | vec2f | vec3f | vec4f>(v: T): T;
+    function dpdyFine<T extends number | vec2f | vec3f | vec4f>(v: T): T;
+    function fwidth<T extends number | vec2f | vec3f | vec4f>(v: T): T;
+    function fwidthCoarse<T extends number | vec2f | vec3f | vec4f>(v: T): T;
+    function fwidthFine<T extends number | vec2f | vec3f | vec4f>(v: T): T;
+
+    // ========================================================================
+    // Arrays
+    // ========================================================================
+    // Array of N elements, e.g. a struct field `weights: FixedArray<f32, 8>` (array<f32, 8> in WGSL)
+    export type FixedArray<T, N extends number> = T[] & { length: N };
+
+    // ========================================================================
+    // Workgroup Memory
+    // ========================================================================
+    // Array shared by the invocations of a workgroup, declared at module scope with @workgroup:
+    // `/** @workgroup */ const tile = new WorkgroupArray(f32, 256)` (var<workgroup> tile: array<f32, 256> in WGSL)
+    class WorkgroupArray<T = number> {
+        constructor(type: unknown, length: number);
+        readonly length: number;
+        [index: number]: T;
+    }
+
+    // Wait until every invocation of the workgroup reaches the barrier, and make their writes
+    // to workgroup memory (workgroupBarrier) or storage buffers (storageBarrier) visible
+    function workgroupBarrier(): void;
+    function storageBarrier(): void;
+
+    // ========================================================================
+    // Textures
+    // ========================================================================
+    // Parameters bound from a SharedTexture: `image: Texture2D<f32>` (texture_2d<f32> in WGSL) is sampled or loaded,
+    // `output: StorageTexture2D<"rgba8unorm">` (texture_storage_2d<rgba8unorm, write>) is written with textureStore
+    type Texture2D<T extends f32 | i32 | u32 = f32> = SharedTexture;
+    type StorageTexture2D<F extends StorageTextureFormat> = SharedTexture;
+    // Sampler parameter, given as the descriptor of the sampler: `{ magFilter: "linear", minFilter: "linear" }`
+    type Sampler = GPUSamplerDescriptor;
+
+    // Sampling with implicit level of detail is only available in fragment shaders: kernels use textureSampleLevel
+    function textureSample(t: Texture2D<f32>, s: Sampler, coords: vec2f): vec4f;
+    function textureSampleLevel(t: Texture2D<f32>, s: Sampler, coords: vec2f, level: f32): vec4f;
+    function textureLoad(t: Texture2D<f32 | i32 | u32>, coords: vec2i | vec2u, level: i32 | u32): vec4f;
+    function textureStore(t: StorageTexture2D<StorageTextureFormat>, coords: vec2i | vec2u, value: vec4f): void;
+    function textureDimensions(t: Texture2D<f32 | i32 | u32> | StorageTexture2D<StorageTextureFormat>): vec2u;
+
     // ========================================================================
     // Atomics
     // ========================================================================
@@ -0,0 +1,333 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Runtime } from '../src/runtime';
+import { SharedArray } from '../src/shared-array';
+import { CommandBatch } from '../src/command-batch';
+import { f32, u32, vec3f } from '../src/types';
+import { ShaderReflection } from '../src/reflection';
+import { SharedTexture } from '../src/shared-texture';
+
+vi.stubGlobal('GPUBufferUsage', { STORAGE: 0x80, UNIFORM: 0x40, COPY_SRC: 0x4, COPY_DST: 0x8, MAP_READ: 0x1, VERTEX: 0x20, INDEX: 0x10 });
+vi.stubGlobal('GPUShaderStage', { VERTEX: 0x1, FRAGMENT: 0x2, COMPUTE: 0x4 });
+vi.stubGlobal('GPUMapMode', { READ: 0x1 });
+vi.stubGlobal('GPUTextureUsage', { COPY_SRC: 0x1, COPY_DST: 0x2, TEXTURE_BINDING: 0x4, STORAGE_BINDING: 0x8 });
+
+// A device recording submits, with buffers in host memory
+function fakeDevice() {
+    const log: string[] = [];
+    const createBuffer = ({ size }: GPUBufferDescriptor) => {
+        const memory = new ArrayBuffer(size);
+        return { size, memory, getMappedRange: () => memory, unmap() {}, mapAsync: async () => {}, destroy: () => log.push('destroy') };
+    };
+    const createCommandEncoder = () => {
+        const commands: string[] = [];
+        return {
+            beginComputePass: () => ({
+                setPipeline() {},
+                setBindGroup() {},
+                dispatchWorkgroups: () => commands.push('dispatch'),
+                end() {},
+            }),
+            beginRenderPass: () => ({
+                setPipeline() {},
+                setBindGroup() {},
+                setVertexBuffer: (slot: number, buffer: { size: number }) => commands.push(`vertices ${slot}:${buffer.size}`),
+                setIndexBuffer: (buffer: { size: number }, format: string) => commands.push(`indices ${format}:${buffer.size}`),
+                draw: (count: number) => commands.push(`draw ${count}`),
+                drawIndexed: (count: number) => commands.push(`drawIndexed ${count}`),
+                end() {},
+            }),
+            copyBufferToBuffer: (source: { memory: ArrayBuffer }, sourceOffset: number, destination: { memory: ArrayBuffer }, destinationOffset: number, size: number) => {
+                new Uint8Array(destination.memory, destinationOffset, size).set(new Uint8Array(source.memory, sourceOffset, size));
+                commands.push('copy');
+            },
+            finish: () => commands,
+        };
+    };
+    const device = {
+        createBuffer,
+        createCommandEncoder,
+        createShaderModule: () => ({ getCompilationInfo: async () => ({ messages: [] }) }),
+        createComputePipelineAsync: async () => ({ getBindGroupLayout: () => ({}) }),
+        createRenderPipeline: (descriptor: GPURenderPipelineDescriptor) => ({ descriptor, getBindGroupLayout: () => ({}) }),
+        createBindGroupLayout: (descriptor: GPUBindGroupLayoutDescriptor) => descriptor,
+        createPipelineLayout: (descriptor: GPUPipelineLayoutDescriptor) => descriptor,
+        limits: { maxStorageBuffersPerShaderStage: 8, maxUniformBuffersPerShaderStage: 12 },
+        createTexture: ({ format }: GPUTextureDescriptor) => ({ createView: () => ({ format }), destroy() {} }),
+        createSampler: (descriptor: GPUSamplerDescriptor) => ({ descriptor }),
+        createBindGroup: () => ({}),
+        queue: {
+            writeBuffer: () => log.push('upload'),
+            writeTexture: () => log.push('upload texture'),
+            submit: ([commands]: string[][]) => log.push(`submit ${commands.join(',') || 'empty'}`),
+        },
+    };
+    return { device: device as unknown as GPUDevice, log };
+}
+
+function runtimeWith(device: GPUDevice) {
+    const runtime = new Runtime();
+    runtime.device = device;
+    return runtime;
+}
+
+describe('Runtime.batch', () => {
+    it('should submit every dispatch of a batch at once', async () => {
+        const { device, log } = fakeDevice();
+        const runtime = runtimeWith(device);
+        const a = new SharedArray(f32, 4);
+        const b = new SharedArray(f32, 4);
+
+        const result = await runtime.batch(async () => {
+            await runtime.dispatch('wgsl', 'first', [a]);
+            await runtime.dispatch('wgsl', 'second', [a, b]);
+            await runtime.dispatch('wgsl', 'third', [b, 1.0]);
+            expect(log.filter(l => l.startsWith('submit'))).toEqual([]);
+            return 42;
+        });
+
+        expect(result).toBe(42);
+        expect(log.filter(l => l.startsWith('submit'))).toEqual(['submit dispatch,dispatch,dispatch']);
+        // The scalar buffer is destroyed after the submit
+        expect(log.slice(log.indexOf('submit dispatch,dispatch,dispatch'))).toContain('destroy');
+        expect(a.isDeviceDirty).toBe(true);
+    });
+
+    it('should submit each dispatch outside of a batch', async () => {
+        const { device, log } = fakeDevice();
+        const runtime = runtimeWith(device);
+        const a = new SharedArray(f32, 4);
+
+        await runtime.dispatch('wgsl', 'first', [a]);
+        await runtime.dispatch('wgsl', 'first', [a]);
+        expect(log.filter(l => l.startsWith('submit'))).toEqual(['submit dispatch', 'submit dispatch']);
+    });
+
+    it('should submit the recorded dispatches when an array they write is read', async () => {
+        const { device, log } = fakeDevice();
+        const runtime = runtimeWith(device);
+        const a = new SharedArray(f32, 4);
+
+        await runtime.batch(async () => {
+            await runtime.dispatch('wgsl', 'first', [a]);
+            await a.read();
+            // The kernel ran before the download
+            expect(log.filter(l => l.startsWith('submit'))).toEqual(['submit dispatch', 'submit copy']);
+            await runtime.dispatch('wgsl', 'second', [a]);
+        });
+        expect(log.filter(l => l.startsWith('submit'))).toEqual(['submit dispatch', 'submit copy', 'submit dispatch']);
+    });
+
+    it('should not let host writes overtake the recorded commands that use the array', async () => {
+        const { device, log } = fakeDevice();
+        const batch = new CommandBatch(device);
+        const a = new SharedArray(f32, 4);
+
+        await batch.use(a);
+        batch.encoder.copyBufferToBuffer(a.buffer!, 0, a.buffer!, 0, 16);
+        a.data[0] = 1.0;
+        await batch.use(a);
+        expect(log).toEqual(['submit copy', 'upload']);
+    });
+
+    it('should upload writes through data before the next dispatch', async () => {
+        const { device, log } = fakeDevice();
+        const runtime = runtimeWith(device);
+        const a = new SharedArray(f32, 4);
+        await runtime.dispatch('wgsl', 'first', [a]);
+        await a.read();
+
+        a.data[0] = 1.0;
+        log.length = 0;
+        await runtime.dispatch('wgsl', 'second', [a]);
+        expect(log).toEqual(['upload', 'submit dispatch']);
+    });
+
+    it('should only mark the arrays a kernel writes for download', async () => {
+        const { device } = fakeDevice();
+        const runtime = runtimeWith(device);
+        const input = new SharedArray(f32, 4);
+        const output = new SharedArray(f32, 4);
+        const reflection: ShaderReflection = {
+            entryPoint: 'copy',
+            stage: 'compute',
+            bindings: [
+                { name: 'input', group: 0, binding: 0, buffer: 'read-only-storage', access: 'read', type: 'array<f32>', size: 4 },
+                { name: 'output', group: 0, binding: 1, buffer: 'storage', access: 'read_write', type: 'array<f32>', size: 4 },
+            ],
+            structs: {},
+        };
+        vi.spyOn(runtime.pipelineCache, 'getComputePipeline').mockResolvedValue({ getBindGroupLayout: () => ({}) } as unknown as GPUComputePipeline);
+
+        await runtime.dispatch('wgsl', 'copy', [input, output], [1, 1, 1], undefined, reflection);
+        expect(input.isDeviceDirty).toBe(false);
+        expect(output.isDeviceDirty).toBe(true);
+    });
+
+    it('should pack the uniform parameters of a kernel into one buffer', async () => {
+        const { device } = fakeDevice();
+        const createBuffer = vi.spyOn(device, 'createBuffer');
+        const runtime = runtimeWith(device);
+        const reflection: ShaderReflection = {
+            entryPoint: 'scale',
+            stage: 'compute',
+            bindings: [
+                { name: 'data', group: 0, binding: 0, buffer: 'storage', access: 'read_write', type: 'array<f32>', size: 4 },
+                { name: 'scale_uniforms', group: 0, binding: 1, buffer: 'uniform', access: 'read', type: 'scale_Uniforms', size: 8 },
+            ],
+            structs: {
+                scale_Uniforms: {
+                    size: 8, align: 4, fields: [
+                        { name: 'factor', type: 'f32', offset: 0, size: 4, align: 4 },
+                        { name: 'count', type: 'u32', offset: 4, size: 4, align: 4 },
+                    ],
+                },
+            },
+        };
+        vi.spyOn(runtime.pipelineCache, 'getComputePipeline').mockResolvedValue({ getBindGroupLayout: () => ({}) } as unknown as GPUComputePipeline);
+
+        await runtime.dispatch('wgsl', 'scale', [new SharedArray(f32, 4), { factor: 0.5, count: 3 }], [1, 1, 1], undefined, reflection);
+        const uniforms = createBuffer.mock.results.filter((_, i) => createBuffer.mock.calls[i][0].label === 'scale_uniforms buffer');
+        expect(uniforms).toHaveLength(1);
+        const memory = (uniforms[0].value as unknown as { memory: ArrayBuffer }).memory;
+        expect(new Float32Array(memory, 0, 1)[0]).toBe(0.5);
+        expect(new Uint32Array(memory, 4, 1)[0]).toBe(3);
+    });
+
+    it('should copy folded arrays into one buffer, and back out of it when the kernel writes them', async () => {
+        const { device, log } = fakeDevice();
+        const createBuffer = vi.spyOn(device, 'createBuffer');
+        const runtime = runtimeWith(device);
+        const px = new SharedArray(f32, new Float32Array([1, 2, 3]));
+        const py = new SharedArray(f32, new Float32Array([4, 5]));
+        const mass = new SharedArray(f32, new Float32Array([6]));
+        const charge = new SharedArray(f32, new Float32Array([7, 8]));
+        const reflection: ShaderReflection = {
+            entryPoint: 'simulate',
+            stage: 'compute',
+            bindings: [
+                { name: 'simulate_folded0', group: 0, binding: 0, buffer: 'storage', access: 'read_write', type: 'array<f32>', size: 4, folded: ['px', 'py'] },
+                { name: 'simulate_folded1', group: 0, binding: 1, buffer: 'read-only-storage', access: 'read', type: 'array<f32>', size: 4, folded: ['mass', 'charge'] },
+                { name: 'simulate_folds', group: 0, binding: 2, buffer: 'uniform', access: 'read', type: 'array<vec4<u32>, 4>', size: 64, folds: [['px', 'py'], ['mass', 'charge']] },
+            ],
+            structs: {},
+        };
+        vi.spyOn(runtime.pipelineCache, 'getComputePipeline').mockResolvedValue({ getBindGroupLayout: () => ({}) } as unknown as GPUComputePipeline);
+
+        await runtime.dispatch('wgsl', 'simulate', [[px, py], [mass, charge], [[px, py], [mass, charge]]], [1, 1, 1], undefined, reflection);
+        const memory = (label: string) => (createBuffer.mock.results.find((_, i) => createBuffer.mock.calls[i][0].label === label)!.value as unknown as { memory: ArrayBuffer }).memory;
+        expect([...new Float32Array(memory('simulate_folded0 buffer'), 0, 5)]).toEqual([1, 2, 3, 4, 5]);
+        expect([...new Float32Array(memory('simulate_folded1 buffer'), 0, 3)]).toEqual([6, 7, 8]);
+        expect([...new Uint32Array(memory('simulate_folds buffer'))]).toEqual([0, 3, 0, 0, 3, 2, 0, 0, 0, 1, 0, 0, 1, 2, 0, 0]);
+        // Copied in before the dispatch, and the written ones copied back after it
+        expect(log.filter(l => l.startsWith('submit'))).toEqual(['submit copy,copy,copy,copy,dispatch,copy,copy']);
+        expect(px.isDeviceDirty).toBe(true);
+        expect(py.isDeviceDirty).toBe(true);
+        expect(mass.isDeviceDirty).toBe(false);
+
+        await expect(runtime.dispatch('wgsl', 'simulate', [[px, py], [mass, new SharedArray(vec3f, 2)], [[px, py], [mass, charge]]], [1, 1, 1], undefined, reflection))
+            .rejects.toThrow("Invalid value for 'charge': expected array<f32>, got SharedArray of vec3f");
+        await expect(runtime.dispatch('wgsl', 'simulate', [[px, 2.0], [mass, charge], [[px, py], [mass, charge]]], [1, 1, 1], undefined, reflection))
+            .rejects.toThrow("Invalid value for 'py': expected array<f32>, got number");
+    });
+
+    it('should bind textures and samplers, and mark the textures a kernel writes for download', async () => {
+        const { device } = fakeDevice();
+        const createBindGroup = vi.spyOn(device, 'createBindGroup');
+        const createSampler = vi.spyOn(device, 'createSampler');
+        const runtime = runtimeWith(device);
+        const input = new SharedTexture(4, 4);
+        const output = new SharedTexture(4, 4, 'rgba32float');
+        const reflection: ShaderReflection = {
+            entryPoint: 'blur',
+            stage: 'compute',
+            bindings: [
+                { name: 'input', group: 0, binding: 0, access: 'read', type: 'texture_2d<f32>', texture: { sampleType: 'float' } },
+                { name: 'output', group: 0, binding: 1, access: 'write', type: 'texture_storage_2d<rgba32float, write>', storageTexture: { format: 'rgba32float' } },
+                { name: 'bilinear', group: 0, binding: 2, access: 'read', type: 'sampler', sampler: { type: 'filtering' } },
+            ],
+            structs: {},
+        };
+        vi.spyOn(runtime.pipelineCache, 'getComputePipeline').mockResolvedValue({ getBindGroupLayout: () => ({}) } as unknown as GPUComputePipeline);
+
+        const bilinear = { magFilter: 'linear', minFilter: 'linear' } as const;
+        await runtime.dispatch('wgsl', 'blur', [input, output, bilinear], [1, 1, 1], undefined, reflection);
+        await runtime.dispatch('wgsl', 'blur', [input, output, { ...bilinear }], [1, 1, 1], undefined, reflection);
+        expect(createBindGroup.mock.calls[0][0].entries).toEqual([
+            { binding: 0, resource: { format: 'rgba8unorm' } },
+            { binding: 1, resource: { format: 'rgba32float' } },
+            { binding: 2, resource: { descriptor: bilinear } },
+        ]);
+        expect(createSampler).toHaveBeenCalledTimes(1);
+        expect(input.isDeviceDirty).toBe(false);
+        expect(output.isDeviceDirty).toBe(true);
+
+        await expect(runtime.dispatch('wgsl', 'blur', [output, input, bilinear], [1, 1, 1], undefined, reflection))
+            .rejects.toThrow("Invalid value for 'output': expected a rgba32float texture, got rgba8unorm");
+    });
+
+    it('should join nested batches to the outer one', async () => {
+        const { device, log } = fakeDevice();
+        const runtime = runtimeWith(device);
+
+        await runtime.batch(async () => {
+            await runtime.dispatch('wgsl', 'first', [1.0]);
+            await runtime.batch(() => runtime.dispatch('wgsl', 'second', [2.0]));
+        });
+        expect(log.filter(l => l.startsWith('submit'))).toEqual(['submit dispatch,dispatch']);
+    });
+});
+
+describe('Runtime.draw', () => {
+    const vertex: ShaderReflection = {
+        entryPoint: 'vert',
+        stage: 'vertex',
+        bindings: [],
+        structs: {},
+        attributes: [
+            { name: 'position', location: 0, format: 'float32x3', stride: 16, type: 'vec3<f32>' },
+            { name: 'id', location: 1, format: 'uint32', stride: 4, type: 'u32' },
+        ],
+    };
+    const fragment: ShaderReflection = { entryPoint: 'frag', stage: 'fragment', bindings: [], structs: {} };
+
+    async function meshPipeline() {
+        const { device, log } = fakeDevice();
+        const runtime = runtimeWith(device);
+        runtime.context = { getCurrentTexture: () => ({ createView: () => ({}) }) } as unknown as GPUCanvasContext;
+        const pipeline = await runtime.createRenderPipeline({
+            vertex: 'wgsl', fragment: 'wgsl', vertexEntryPoint: 'vert', fragmentEntryPoint: 'frag', vertexReflection: vertex, fragmentReflection: fragment,
+        });
+        return { runtime, pipeline, log };
+    }
+
+    it('should create the pipeline with a vertex buffer per attribute', async () => {
+        const { pipeline } = await meshPipeline();
+        const { descriptor } = pipeline as unknown as { descriptor: GPURenderPipelineDescriptor };
+        expect(Array.from(descriptor.vertex.buffers!).map(buffer => buffer!.arrayStride)).toEqual([16, 4]);
+    });
+
+    it('should bind SharedArrays as vertex and index buffers', async () => {
+        const { runtime, pipeline, log } = await meshPipeline();
+        const positions = new SharedArray(vec3f, 3);
+        const ids = new SharedArray(u32, 3);
+        const indices = new SharedArray(u32, new Uint32Array([0, 1, 2, 2, 1, 0]));
+
+        await runtime.draw(pipeline, 6, [], { vertices: [positions, ids], indices });
+        expect(log).toEqual(['submit vertices 0:48,vertices 1:16,indices uint32:24,drawIndexed 6']);
+
+        await runtime.draw(pipeline, 3, [], { vertices: [positions, ids] });
+        expect(log.at(-1)).toBe('submit vertices 0:48,vertices 1:16,draw 3');
+    });
+
+    it('should check the vertex buffers against the attributes', async () => {
+        const { runtime, pipeline } = await meshPipeline();
+        const positions = new SharedArray(vec3f, 3);
+
+        await expect(runtime.draw(pipeline, 3, [], { vertices: [positions] }))
+            .rejects.toThrow("Vertex shader 'vert' takes 2 attributes (position, id), got 1 vertex buffers");
+        await expect(runtime.draw(pipeline, 3, [], { vertices: [positions, new SharedArray(f32, 3)] }))
+            .rejects.toThrow("Invalid vertex buffer for 'id': expected SharedArray of u32, got f32");
+        await expect(runtime.draw(pipeline, 3, [], { vertices: [positions, new SharedArray(u32, 3)], indices: new SharedArray(f32, 3) }))
+            .rejects.toThrow("Invalid index buffer: expected SharedArray of u32, got f32");
+    });
+});
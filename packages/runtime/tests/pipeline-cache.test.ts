@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PipelineCache, hashWGSL } from '../src/pipeline-cache';
+import { ShaderReflection } from '../src/reflection';
+
+function fakeDevice(messages: Partial<GPUCompilationMessage>[] = []) {
+    const counts = { shaderModules: 0, pipelines: 0 };
+    const device = {
+        limits: {},
+        createPipelineLayout: (desc: GPUPipelineLayoutDescriptor) => desc,
+        createShaderModule: vi.fn(({ code }: GPUShaderModuleDescriptor) => {
+            counts.shaderModules++;
+            return { code, getCompilationInfo: async () => ({ messages }) };
+        }),
+        createComputePipelineAsync: vi.fn(async (desc: GPUComputePipelineDescriptor) => {
+            counts.pipelines++;
+            return { entryPoint: desc.compute.entryPoint };
+        }),
+    };
+    return { device: device as unknown as GPUDevice, counts };
+}
+
+describe('PipelineCache', () => {
+    const code = '@compute @workgroup_size(64)\nfn a() {}\n\n@compute @workgroup_size(64)\nfn b() {}';
+
+    it('should create each pipeline once per WGSL module and entry point', async () => {
+        const { device, counts } = fakeDevice();
+        const cache = new PipelineCache(async () => device);
+
+        const first = await cache.getComputePipeline(code, 'a');
+        expect(await cache.getComputePipeline(code, 'a')).toBe(first);
+        await cache.getComputePipeline(code, 'b');
+
+        expect(counts.pipelines).toBe(2);
+        // Both entry points share the shader module
+        expect(counts.shaderModules).toBe(1);
+        expect(cache.size).toBe(2);
+        expect(cache.entries()).toEqual([
+            { key: `${hashWGSL(code)}:a`, entryPoint: 'a', hits: 1, ready: true },
+            { key: `${hashWGSL(code)}:b`, entryPoint: 'b', hits: 0, ready: true },
+        ]);
+    });
+
+    it('should share a pipeline between concurrent requests and warm-up', async () => {
+        const { device, counts } = fakeDevice();
+        const cache = new PipelineCache(async () => device);
+
+        cache.warmUp(code, 'a');
+        expect(cache.has(code, 'a')).toBe(true);
+        await Promise.all([cache.getComputePipeline(code, 'a'), cache.getComputePipeline(code, 'a')]);
+        cache.warmUp(code, 'a');
+
+        expect(counts.pipelines).toBe(1);
+        expect(device.createComputePipelineAsync).toHaveBeenCalledWith(expect.objectContaining({ layout: 'auto' }));
+    });
+
+    it('should recreate pipelines after clearing', async () => {
+        const { device, counts } = fakeDevice();
+        const cache = new PipelineCache(async () => device);
+
+        await cache.getComputePipeline(code, 'a');
+        await cache.getComputePipeline(code, 'b');
+        cache.clear(code, 'a');
+        expect(cache.has(code, 'a')).toBe(false);
+        expect(cache.has(code, 'b')).toBe(true);
+
+        await cache.getComputePipeline(code, 'a');
+        expect(counts.pipelines).toBe(3);
+        expect(counts.shaderModules).toBe(1);
+
+        cache.clear();
+        expect(cache.size).toBe(0);
+        await cache.getComputePipeline(code, 'a');
+        expect(counts.shaderModules).toBe(2);
+    });
+
+    it('should not cache shaders that fail to compile', async () => {
+        const { device, counts } = fakeDevice([{ type: 'error', message: 'unresolved identifier', lineNum: 2, linePos: 1 }]);
+        const cache = new PipelineCache(async () => device);
+
+        cache.warmUp(code, 'a');
+        await expect(cache.getComputePipeline(code, 'a')).rejects.toThrow(/Shader compilation failed for 'a':\nWGSL 2:1 - error: unresolved identifier/);
+        expect(cache.size).toBe(0);
+
+        await expect(cache.getComputePipeline(code, 'a')).rejects.toThrow();
+        expect(counts.shaderModules).toBe(2);
+        expect(counts.pipelines).toBe(0);
+    });
+
+    it('should create a pipeline per set of override constants', async () => {
+        const { device, counts } = fakeDevice();
+        const cache = new PipelineCache(async () => device);
+
+        const defaults = await cache.getComputePipeline(code, 'a');
+        const wide = await cache.getComputePipeline(code, 'a', undefined, undefined, { BLOCK: 128, SCALE: 2 });
+        expect(await cache.getComputePipeline(code, 'a', undefined, undefined, { SCALE: 2, BLOCK: 128 })).toBe(wide);
+        expect(wide).not.toBe(defaults);
+
+        expect(counts.pipelines).toBe(2);
+        expect(counts.shaderModules).toBe(1);
+        expect(device.createComputePipelineAsync).toHaveBeenLastCalledWith(expect.objectContaining({
+            compute: expect.objectContaining({ entryPoint: 'a', constants: { BLOCK: 128, SCALE: 2 } }),
+        }));
+        expect(cache.entries()[1]).toEqual({ key: `${hashWGSL(code)}:a:BLOCK=128,SCALE=2`, entryPoint: 'a', constants: { BLOCK: 128, SCALE: 2 }, hits: 1, ready: true });
+
+        cache.clear(code, 'a');
+        expect(cache.size).toBe(0);
+    });
+
+    it('should warm up the pipeline of the given override constants', async () => {
+        const { device, counts } = fakeDevice();
+        const cache = new PipelineCache(async () => device);
+
+        cache.warmUp(code, 'a', undefined, undefined, { BLOCK: 128 });
+        expect(cache.has(code, 'a', { BLOCK: 128 })).toBe(true);
+        expect(cache.has(code, 'a')).toBe(false);
+        await cache.getComputePipeline(code, 'a', undefined, undefined, { BLOCK: 128 });
+        expect(counts.pipelines).toBe(1);
+    });
+
+    it('should not warm up pipelines missing override constants without a default', async () => {
+        const { device, counts } = fakeDevice();
+        const cache = new PipelineCache(async () => device);
+        const reflection: ShaderReflection = {
+            entryPoint: 'a', stage: 'compute', bindings: [], structs: {},
+            overrides: [{ name: 'BLOCK', type: 'u32', required: true }, { name: 'SCALE', type: 'f32' }],
+        };
+
+        cache.warmUp(code, 'a', undefined, reflection);
+        cache.warmUp(code, 'a', undefined, reflection, { SCALE: 2 });
+        expect(cache.size).toBe(0);
+
+        cache.warmUp(code, 'a', undefined, reflection, { BLOCK: 128 });
+        await cache.getComputePipeline(code, 'a', undefined, reflection, { BLOCK: 128 });
+        expect(counts.pipelines).toBe(1);
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest';
+import { checkConstants, createPipelineLayout, ShaderReflection, vertexBufferLayouts } from '../src/reflection';
+import { Runtime } from '../src/runtime';
+
+vi.stubGlobal('GPUShaderStage', { VERTEX: 0x1, FRAGMENT: 0x2, COMPUTE: 0x4 });
+
+function fakeDevice() {
+    return {
+        createBindGroupLayout: (desc: GPUBindGroupLayoutDescriptor) => desc,
+        createPipelineLayout: (desc: GPUPipelineLayoutDescriptor) => desc,
+        limits: {
+            maxStorageBuffersPerShaderStage: 8, maxUniformBuffersPerShaderStage: 12,
+            maxSampledTexturesPerShaderStage: 16, maxStorageTexturesPerShaderStage: 4, maxSamplersPerShaderStage: 16,
+        },
+    } as unknown as GPUDevice;
+}
+
+describe('createPipelineLayout', () => {
+    const kernel: ShaderReflection = {
+        entryPoint: 'step',
+        stage: 'compute',
+        bindings: [
+            { name: 'particles', group: 0, binding: 0, buffer: 'storage', access: 'read_write', type: 'array<f32>', size: 4 },
+            { name: 'scale', group: 0, binding: 1, buffer: 'uniform', access: 'read', type: 'f32', size: 4 },
+        ],
+        structs: {},
+    };
+
+    it('should create a bind group layout entry per binding', () => {
+        const layout = createPipelineLayout(fakeDevice(), [kernel], 'step') as any;
+        expect(layout.label).toBe('step');
+        expect(layout.bindGroupLayouts).toHaveLength(1);
+        expect(layout.bindGroupLayouts[0].entries).toEqual([
+            { binding: 0, visibility: 0x4, buffer: { type: 'storage', minBindingSize: 4 } },
+            { binding: 1, visibility: 0x4, buffer: { type: 'uniform', minBindingSize: 4 } },
+        ]);
+    });
+
+    it('should merge the bindings of the stages of a render pipeline', () => {
+        const binding = { name: 'time', group: 0, binding: 0, buffer: 'uniform' as const, access: 'read' as const, type: 'f32', size: 4 };
+        const vertex: ShaderReflection = { entryPoint: 'vert', stage: 'vertex', bindings: [binding], structs: {} };
+        const fragment: ShaderReflection = { entryPoint: 'frag', stage: 'fragment', bindings: [binding, { ...binding, name: 'tint', group: 1 }], structs: {} };
+
+        const layout = createPipelineLayout(fakeDevice(), [vertex, fragment]) as any;
+        expect(layout.bindGroupLayouts).toHaveLength(2);
+        expect(layout.bindGroupLayouts[0].entries).toEqual([{ binding: 0, visibility: 0x3, buffer: { type: 'uniform', minBindingSize: 4 } }]);
+        expect(layout.bindGroupLayouts[1].entries[0].visibility).toBe(0x2);
+    });
+
+    it('should describe texture and sampler bindings', () => {
+        const kernel: ShaderReflection = {
+            entryPoint: 'blur',
+            stage: 'compute',
+            bindings: [
+                { name: 'input', group: 0, binding: 0, access: 'read', type: 'texture_2d<f32>', texture: { sampleType: 'float' } },
+                { name: 'output', group: 0, binding: 1, access: 'write', type: 'texture_storage_2d<rgba8unorm, write>', storageTexture: { format: 'rgba8unorm' } },
+                { name: 'bilinear', group: 0, binding: 2, access: 'read', type: 'sampler', sampler: { type: 'filtering' } },
+            ],
+            structs: {},
+        };
+        const layout = createPipelineLayout(fakeDevice(), [kernel]) as any;
+        expect(layout.bindGroupLayouts[0].entries).toEqual([
+            { binding: 0, visibility: 0x4, texture: { sampleType: 'float', viewDimension: '2d' } },
+            { binding: 1, visibility: 0x4, storageTexture: { access: 'write-only', format: 'rgba8unorm', viewDimension: '2d' } },
+            { binding: 2, visibility: 0x4, sampler: { type: 'filtering' } },
+        ]);
+    });
+});
+
+describe('vertexBufferLayouts', () => {
+    it('should describe a vertex buffer per attribute', () => {
+        const vertex: ShaderReflection = {
+            entryPoint: 'vert',
+            stage: 'vertex',
+            bindings: [],
+            structs: {},
+            attributes: [
+                { name: 'position', location: 0, format: 'float32x3', stride: 16, type: 'vec3<f32>' },
+                { name: 'id', location: 1, format: 'uint32', stride: 4, type: 'u32' },
+            ],
+        };
+        expect(vertexBufferLayouts(vertex)).toEqual([
+            { arrayStride: 16, stepMode: 'vertex', attributes: [{ shaderLocation: 0, offset: 0, format: 'float32x3' }] },
+            { arrayStride: 4, stepMode: 'vertex', attributes: [{ shaderLocation: 1, offset: 0, format: 'uint32' }] },
+        ]);
+        expect(vertexBufferLayouts({ ...vertex, attributes: undefined })).toEqual([]);
+    });
+});
+
+describe('checkConstants', () => {
+    const kernel: ShaderReflection = {
+        entryPoint: 'blur',
+        stage: 'compute',
+        bindings: [],
+        structs: {},
+        overrides: [{ name: 'BLOCK', type: 'u32' }, { name: 'STRENGTH', type: 'f32' }],
+    };
+
+    it('should accept values of the override constants of the shader', () => {
+        expect(() => checkConstants(kernel, { BLOCK: 128, STRENGTH: 0.5 })).not.toThrow();
+    });
+
+    it('should name unknown constants and invalid values', () => {
+        expect(() => checkConstants(kernel, { SIZE: 128 })).toThrow("Kernel 'blur' has no @override constant 'SIZE': it has 'BLOCK', 'STRENGTH'");
+        expect(() => checkConstants({ ...kernel, overrides: undefined }, { SIZE: 128 })).toThrow("Kernel 'blur' has no @override constant 'SIZE'");
+        expect(() => checkConstants(kernel, { BLOCK: -1 })).toThrow("Invalid value for the @override constant 'BLOCK': expected u32, got -1");
+    });
+});
+
+describe('binding limits', () => {
+    function storageBuffers(count: number) {
+        return Array.from({ length: count }, (_, i) => (
+            { name: `field${i}`, group: 0, binding: i, buffer: 'storage' as const, access: 'read_write' as const, type: 'array<f32>', size: 4 }
+        ));
+    }
+
+    it('should name the shader and the limit it exceeds', () => {
+        const kernel: ShaderReflection = { entryPoint: 'simulate', stage: 'compute', bindings: storageBuffers(9), structs: {} };
+        expect(() => createPipelineLayout(fakeDevice(), [kernel], 'simulate')).toThrow(
+            "Kernel 'simulate' binds 9 storage buffers, but the device supports at most 8 (maxStorageBuffersPerShaderStage): pack arrays into a struct array to bind fewer");
+
+        const fragment: ShaderReflection = { entryPoint: 'shade', stage: 'fragment', bindings: storageBuffers(8), structs: {} };
+        expect(() => createPipelineLayout(fakeDevice(), [fragment])).not.toThrow();
+    });
+
+    it('should request the binding limits of the adapter', async () => {
+        const requestDevice = vi.fn(async () => ({}));
+        vi.stubGlobal('navigator', {
+            gpu: {
+                requestAdapter: async () => ({
+                    limits: { maxStorageBuffersPerShaderStage: 16, maxUniformBuffersPerShaderStage: 12, maxBindingsPerBindGroup: 1000 },
+                    requestDevice,
+                }),
+            },
+        });
+        try {
+            await new Runtime().init();
+            expect(requestDevice).toHaveBeenCalledWith({
+                requiredLimits: { maxStorageBuffersPerShaderStage: 16, maxUniformBuffersPerShaderStage: 12, maxBindingsPerBindGroup: 1000 },
+            });
+        } finally {
+            vi.unstubAllGlobals();
+            vi.stubGlobal('GPUShaderStage', { VERTEX: 0x1, FRAGMENT: 0x2, COMPUTE: 0x4 });
+        }
+    });
+});
@@ -1,6 +1,7 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { SharedArray } from '../src/shared-array';
 import { f32, vec2f, vec3f, vec4f, i32, u32 } from '../src/types';
+import { structType } from '../src/struct-packing';
 
 describe('SharedArray', () => {
     it('should initialize with f32 (default)', () => {
@@ -114,3 +115,170 @@ describe('SharedArray', () => {
         expect(arr.data[0]).toBe(99.0);
     });
 });
+
+describe('SharedArray synchronization', () => {
+    vi.stubGlobal('GPUBufferUsage', { STORAGE: 0x80, COPY_SRC: 0x4, COPY_DST: 0x8, MAP_READ: 0x1 });
+    vi.stubGlobal('GPUMapMode', { READ: 0x1 });
+
+    // A device whose buffers live in host memory, counting the transfers
+    function fakeDevice() {
+        const counts = { uploads: 0, downloads: 0 };
+        const createBuffer = ({ size }: GPUBufferDescriptor) => {
+            const memory = new ArrayBuffer(size);
+            return { size, memory, getMappedRange: () => memory, unmap() {}, mapAsync: async () => {}, destroy() {} };
+        };
+        const device = {
+            createBuffer,
+            queue: {
+                writeBuffer(buffer: any, offset: number, data: ArrayBuffer, dataOffset: number, size: number) {
+                    counts.uploads++;
+                    new Uint8Array(buffer.memory, offset).set(new Uint8Array(data, dataOffset, size));
+                },
+                submit() {},
+            },
+            createCommandEncoder: () => ({
+                copyBufferToBuffer(src: any, srcOffset: number, dst: any, dstOffset: number, size: number) {
+                    counts.downloads++;
+                    new Uint8Array(dst.memory, dstOffset).set(new Uint8Array(src.memory, srcOffset, size));
+                },
+                finish: () => ({}),
+            }),
+        };
+        return { device: device as unknown as GPUDevice, counts };
+    }
+
+    it('should only upload host changes', async () => {
+        const { device, counts } = fakeDevice();
+        const arr = new SharedArray(f32, 4);
+        arr.data[0] = 1.0;
+        expect(arr.isHostDirty).toBe(true);
+
+        // Created with the host data
+        await arr.ensureBuffer(device);
+        expect(arr.isHostDirty).toBe(false);
+        await arr.ensureBuffer(device);
+        expect(counts.uploads).toBe(0);
+
+        arr.set(1, [2.0]);
+        await arr.ensureBuffer(device);
+        await arr.ensureBuffer(device);
+        expect(counts.uploads).toBe(1);
+
+        arr.data[2] = 3.0;
+        await arr.ensureBuffer(device);
+        expect(counts.uploads).toBe(2);
+    });
+
+    it('should not upload arrays the host only read', async () => {
+        const { device, counts } = fakeDevice();
+        const arr = new SharedArray(vec2f, 2);
+        await arr.ensureBuffer(device);
+
+        expect(arr.readonlyData[0]).toBe(0.0);
+        expect(Array.from(arr.get(1))).toEqual([0.0, 0.0]);
+        expect(arr.isHostDirty).toBe(false);
+        await arr.ensureBuffer(device);
+        expect(counts.uploads).toBe(0);
+    });
+
+    it('should download kernel writes when the host reads them', async () => {
+        const { device, counts } = fakeDevice();
+        const arr = new SharedArray(f32, 4);
+        const buffer = await arr.ensureBuffer(device) as any;
+
+        // A kernel writes the buffer
+        new Float32Array(buffer.memory)[2] = 42.0;
+        arr.markDeviceDirty();
+        expect(arr.isDeviceDirty).toBe(true);
+        expect(() => arr.set(0, [1.0])).toThrow(/await array.read\(\)/);
+
+        // Accessing the out of date host data warns, once, and does not upload it over the kernel results
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        expect(arr.data[2]).toBe(0.0);
+        expect(arr.readonlyData[2]).toBe(0.0);
+        expect(arr.get(2)[0]).toBe(0.0);
+        expect(arr.isHostDirty).toBe(false);
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain("call 'await array.read()'");
+        warn.mockRestore();
+
+        // Still on the device: no download before the host reads it
+        await arr.ensureBuffer(device);
+        expect(counts.downloads).toBe(0);
+
+        expect((await arr.read())[2]).toBe(42.0);
+        expect(await arr.read()).toBe(arr.readonlyData);
+        expect(counts.downloads).toBe(1);
+        expect(arr.isDeviceDirty).toBe(false);
+    });
+
+    it('should not download arrays without a buffer', async () => {
+        const arr = new SharedArray(new Float32Array([1, 2, 3]));
+        arr.markDeviceDirty();
+        expect(arr.isDeviceDirty).toBe(false);
+        expect(Array.from(await arr.read())).toEqual([1, 2, 3]);
+    });
+});
+
+describe('SharedArray of structs', () => {
+    // Layouts as emitted by the compiler for
+    // interface Particle { pos: vec3f; density: f32; cell: u32; vel: vec2f; }
+    const Particle = structType('Particle', {
+        Particle: {
+            size: 32,
+            align: 16,
+            fields: [
+                { name: 'pos', type: 'vec3<f32>', offset: 0, size: 12, align: 16 },
+                { name: 'density', type: 'f32', offset: 12, size: 4, align: 4 },
+                { name: 'cell', type: 'u32', offset: 16, size: 4, align: 4 },
+                { name: 'vel', type: 'vec2<f32>', offset: 24, size: 8, align: 8 },
+            ],
+        },
+    });
+
+    it('should allocate elements with the struct layout', () => {
+        const particles = new SharedArray(Particle, 10);
+        expect(particles.size).toBe(10);
+        expect(particles.data.byteLength).toBe(320);
+    });
+
+    it('should read and write fields through element views', () => {
+        const particles = new SharedArray(Particle, 4);
+        particles.set(2, { pos: vec3f(1, 2, 3), density: 0.5, cell: u32(7), vel: vec2f(-1, 1) });
+
+        const p = particles.get(2);
+        expect(Array.from(p.pos)).toEqual([1, 2, 3]);
+        expect(p.density).toBe(0.5);
+        expect(p.cell).toBe(7);
+
+        p.pos[1] = 5;
+        p.cell = 9;
+        const view = new DataView(particles.data.buffer);
+        expect(view.getFloat32(64 + 4, true)).toBe(5);
+        expect(view.getUint32(64 + 16, true)).toBe(9);
+        expect(view.getFloat32(64 + 28, true)).toBe(1);
+    });
+
+    it('should only mark the host dirty when fields are assigned', async () => {
+        vi.stubGlobal('GPUBufferUsage', { STORAGE: 0x80, COPY_SRC: 0x4, COPY_DST: 0x8 });
+        const memory = new ArrayBuffer(64);
+        const device = { createBuffer: () => ({ getMappedRange: () => memory, unmap() {} }) } as unknown as GPUDevice;
+        const particles = new SharedArray(Particle, 2);
+        await particles.ensureBuffer(device);
+
+        const p = particles.get(1);
+        expect(p.density).toBe(0);
+        expect(p.pos.length).toBe(3);
+        expect(particles.isHostDirty).toBe(false);
+
+        p.density = 2;
+        expect(particles.isHostDirty).toBe(true);
+    });
+
+    it('should report missing and mistyped fields', () => {
+        const particles = new SharedArray(Particle, 1);
+        expect(() => particles.set(0, { pos: vec3f(0, 0, 0), density: 1, vel: vec2f(0, 0) }))
+            .toThrow("Missing field 'cell' of struct 'Particle' in '[0]'");
+        expect(() => particles.get(0).cell = -1).toThrow("-1 is not a valid u32");
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SharedTexture } from '../src/shared-texture';
+
+vi.stubGlobal('GPUTextureUsage', { COPY_SRC: 0x1, COPY_DST: 0x2, TEXTURE_BINDING: 0x4, STORAGE_BINDING: 0x8 });
+vi.stubGlobal('GPUBufferUsage', { COPY_DST: 0x8, MAP_READ: 0x1 });
+vi.stubGlobal('GPUMapMode', { READ: 0x1 });
+
+// A device whose textures hold their texels in host memory, copied to buffers with padded rows
+function fakeDevice() {
+    const log: string[] = [];
+    let texels = new Uint8Array();
+    let copy: { bytesPerRow: number, rowBytes: number, height: number } | null = null;
+    const device = {
+        createTexture: ({ size }: { size: { width: number, height: number } }) => {
+            log.push(`create ${size.width}x${size.height}`);
+            return { destroy() {} };
+        },
+        createBuffer: ({ size }: GPUBufferDescriptor) => {
+            const memory = new Uint8Array(size);
+            return {
+                mapAsync: async () => {
+                    for (let y = 0; y < copy!.height; y++) {
+                        memory.set(texels.subarray(y * copy!.rowBytes, (y + 1) * copy!.rowBytes), y * copy!.bytesPerRow);
+                    }
+                },
+                getMappedRange: () => memory.buffer,
+                destroy() {},
+            };
+        },
+        createCommandEncoder: () => ({
+            copyTextureToBuffer: (_: unknown, { bytesPerRow }: { bytesPerRow: number }, { width, height }: { width: number, height: number }) => {
+                copy = { bytesPerRow, rowBytes: width * 4, height };
+            },
+            finish: () => ({}),
+        }),
+        queue: {
+            writeTexture: (_: unknown, data: ArrayBuffer, { offset, bytesPerRow }: GPUTexelCopyBufferLayout) => {
+                log.push(`upload ${bytesPerRow}`);
+                texels = new Uint8Array(data, offset).slice();
+            },
+            submit() {},
+        },
+        // Texels a kernel writes
+        write(data: number[]) {
+            texels = new Uint8Array(data);
+        },
+    };
+    return { device: device as unknown as GPUDevice & { write(data: number[]): void }, log };
+}
+
+describe('SharedTexture', () => {
+    it('should allocate host texels of the format', () => {
+        expect(new SharedTexture(4, 2).data).toEqual(new Uint8Array(32));
+        expect(new SharedTexture(4, 2, 'r32float').data).toBeInstanceOf(Float32Array);
+        expect(new SharedTexture(4, 2, 'rgba32float').data.length).toBe(32);
+        expect(() => new SharedTexture(2, 2, 'rgba8unorm', new Uint8Array(4))).toThrow('expected 16 values, got 4');
+    });
+
+    it('should upload host changes once', async () => {
+        const { device, log } = fakeDevice();
+        const texture = new SharedTexture(2, 1);
+        texture.data.set([255, 0, 0, 255]);
+        await texture.ensureTexture(device);
+        await texture.ensureTexture(device);
+        expect(log).toEqual(['create 2x1', 'upload 8']);
+
+        texture.data[4] = 128;
+        await texture.ensureTexture(device);
+        expect(log).toEqual(['create 2x1', 'upload 8', 'upload 8']);
+    });
+
+    it('should download the texels a kernel wrote, without the row padding of the copy', async () => {
+        const { device } = fakeDevice();
+        const texture = new SharedTexture(3, 2);
+        await texture.ensureTexture(device);
+
+        const written = Array.from({ length: 24 }, (_, i) => i);
+        device.write(written);
+        texture.markDeviceDirty();
+        expect(() => texture.data).toThrow("call 'await texture.read()'");
+
+        expect(Array.from(await texture.read())).toEqual(written);
+        expect(texture.isDeviceDirty).toBe(false);
+    });
+});
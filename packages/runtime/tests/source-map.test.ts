@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { ShaderSourceMap, mapLocation, formatCompilationMessage } from '../src/source-map';
+
+describe('Shader source maps', () => {
+    const sourceMap: ShaderSourceMap = {
+        files: ['Fluid3D.tsx', 'sph-lib.ts'],
+        mappings: [
+            [[1, 0, 10, 1]],
+            [[5, 0, 11, 5], [14, 0, 11, 14]],
+            [],
+            [[5, 1, 3, 5]],
+        ],
+        sources: [{
+            10: 'function main(out: SharedArray<f32>) {',
+            11: '    out[0] = foo(1.0);',
+        }, {
+            3: '    return r * r;',
+        }],
+    };
+
+    it('should map a WGSL position to the closest preceding segment', () => {
+        expect(mapLocation(sourceMap, 2, 20)).toEqual({
+            file: 'Fluid3D.tsx', line: 11, column: 14, source: '    out[0] = foo(1.0);',
+        });
+        expect(mapLocation(sourceMap, 2, 9)?.column).toBe(5);
+        // Before the first segment of the line
+        expect(mapLocation(sourceMap, 2, 1)?.column).toBe(5);
+    });
+
+    it('should fall back to earlier lines for lines without segments', () => {
+        expect(mapLocation(sourceMap, 3, 1)?.column).toBe(14);
+        expect(mapLocation(sourceMap, 99, 1)?.file).toBe('sph-lib.ts');
+    });
+
+    it('should map positions in code from other modules to their file', () => {
+        expect(mapLocation(sourceMap, 4, 12)).toEqual({
+            file: 'sph-lib.ts', line: 3, column: 5, source: '    return r * r;',
+        });
+    });
+
+    it('should format messages with the TS location and source line', () => {
+        const text = formatCompilationMessage({ type: 'error', message: "unresolved call target 'foo'", lineNum: 2, linePos: 14 }, sourceMap);
+        expect(text).toBe(
+            "Fluid3D.tsx:11:14 - error: unresolved call target 'foo' (WGSL 2:14)\n" +
+            '  11 |     out[0] = foo(1.0);'
+        );
+    });
+
+    it('should keep the WGSL location without a source map', () => {
+        const text = formatCompilationMessage({ type: 'warning', message: 'unused variable', lineNum: 4, linePos: 9 });
+        expect(text).toBe('WGSL 4:9 - warning: unused variable');
+    });
+});
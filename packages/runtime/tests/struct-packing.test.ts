@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { packData } from '../src/struct-packing';
+import { StructLayout } from '../src/reflection';
+import { f32, u32, vec3f, vec4f, mat3x3f } from '../src/types';
+
+describe('Struct packing', () => {
+    // Layouts as emitted by the compiler
+    const structs: Record<string, StructLayout> = {
+        Params: {
+            size: 96,
+            align: 16,
+            fields: [
+                { name: 'count', type: 'u32', offset: 0, size: 4, align: 4 },
+                { name: 'gravity', type: 'vec3<f32>', offset: 16, size: 12, align: 16 },
+                { name: 'scale', type: 'f32', offset: 28, size: 4, align: 4 },
+                { name: 'rotation', type: 'mat3x3<f32>', offset: 32, size: 48, align: 16 },
+                { name: 'offset', type: 'i32', offset: 80, size: 4, align: 4 },
+            ],
+        },
+    };
+
+    const params = () => ({
+        // Keys in a different order than the interface
+        scale: f32(2.0),
+        gravity: vec3f(0, -9.8, 0),
+        offset: -3,
+        rotation: mat3x3f(1, 0, 0, 0, 1, 0, 0, 0, 1),
+        count: u32(100),
+    });
+
+    it('should pack fields at the offsets of the layout', () => {
+        const view = new DataView(packData('Params', params(), structs, 'params'));
+        expect(view.byteLength).toBe(96);
+        expect(view.getUint32(0, true)).toBe(100);
+        expect(view.getFloat32(20, true)).toBeCloseTo(-9.8);
+        expect(view.getFloat32(28, true)).toBe(2.0);
+        expect(view.getInt32(80, true)).toBe(-3);
+    });
+
+    it('should pad the columns of mat3x3 and accept padded vec3 values', () => {
+        const value = { ...params(), gravity: vec4f(1, 2, 3, 0), rotation: [1, 2, 3, 4, 5, 6, 7, 8, 9] };
+        const view = new DataView(packData('Params', value, structs, 'params'));
+        expect(view.getFloat32(24, true)).toBe(3);
+        // Second column starts 16 bytes after the first
+        expect(view.getFloat32(32 + 16, true)).toBe(4);
+        expect(view.getFloat32(32 + 32 + 8, true)).toBe(9);
+    });
+
+    it('should pack scalars with their declared type', () => {
+        const view = new DataView(packData('u32', 7, structs, 'count', 16));
+        expect(view.byteLength).toBe(16);
+        expect(view.getUint32(0, true)).toBe(7);
+    });
+
+    it('should report missing and mistyped fields', () => {
+        const { count, ...missing } = params();
+        expect(() => packData('Params', missing, structs, 'params')).toThrow("Missing field 'count' of struct 'Params' in 'params'");
+        expect(() => packData('Params', { ...params(), gravity: [0, 1] }, structs, 'params'))
+            .toThrow("Invalid value for 'params.gravity': expected vec3<f32>, got array(2)");
+        expect(() => packData('Params', { ...params(), count: f32(1) }, structs, 'params'))
+            .toThrow("Invalid value for 'params.count': expected u32, got f32");
+        expect(() => packData('Params', { ...params(), count: -1 }, structs, 'params'))
+            .toThrow("Invalid value for 'params.count': -1 is not a valid u32");
+        expect(() => packData('Params', 1.0, structs, 'params')).toThrow("expected Params, got number");
+    });
+
+    it('should pack nested structs and fixed-size arrays', () => {
+        const nested: Record<string, StructLayout> = {
+            Light: {
+                size: 32,
+                align: 16,
+                fields: [
+                    { name: 'color', type: 'vec3<f32>', offset: 0, size: 12, align: 16 },
+                    { name: 'taps', type: 'array<vec4<f32>, 1>', offset: 16, size: 16, align: 16 },
+                ],
+            },
+            Scene: {
+                size: 80,
+                align: 16,
+                fields: [
+                    { name: 'weights', type: 'array<u32, 4>', offset: 0, size: 16, align: 4 },
+                    { name: 'lights', type: 'array<Light, 2>', offset: 16, size: 64, align: 16 },
+                ],
+            },
+        };
+        const light = (v: number) => ({ color: vec3f(v, v, v), taps: [vec4f(v, 0, 0, 1)] });
+        const view = new DataView(packData('Scene', { weights: [1, 2, 3, 4], lights: [light(1), light(2)] }, nested, 'scene'));
+        expect(view.getUint32(12, true)).toBe(4);
+        expect(view.getFloat32(16 + 32, true)).toBe(2);
+        expect(view.getFloat32(16 + 32 + 16 + 12, true)).toBe(1);
+
+        expect(() => packData('Scene', { weights: [1, 2, 3], lights: [light(1), light(2)] }, nested, 'scene'))
+            .toThrow("Invalid value for 'scene.weights': expected array<u32, 4>, got array(3)");
+    });
+});